@@ -1,17 +1,38 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import ParameterPanel from './components/ParameterPanel';
-import ResultsPanel from './components/ResultsPanel';
 import CesiumGlobe from './components/CesiumGlobe';
 import SearchBar from './components/SearchBar';
 import SelectedLocation from './components/SelectedLocation';
+import MitigationPanel from './components/MitigationPanel';
+import SweepPanel from './components/SweepPanel';
+import ClimateChart from './components/ClimateChart';
+import EventTimeline, { EFFECT_COLORS } from './components/EventTimeline';
 import { HISTORICAL_PRESETS } from './data/impactPresets';
 import { simulateImpactor } from './lib/physics';
-import type { Mission, ImpactParameters, UIState, SimulationResult } from './types';
+import { toRomanMmi } from './lib/seismic';
+import { DEFAULT_AZIMUTH_DEG } from './lib/footprint';
+import { GLOBAL_EFFECTS_THRESHOLD_MT } from './lib/climate';
+import { TORINO_DESCRIPTIONS } from './lib/hazard';
+import { runMonteCarlo, distributionsFor, DEFAULT_MONTE_CARLO_SAMPLES, DEFAULT_MONTE_CARLO_SEED, DEFAULT_UNCERTAINTY_SPREADS } from './lib/monteCarlo';
+import type { UncertaintySpread } from './lib/monteCarlo';
+import { toCityFeatures, corridorExposure, affectedPopulation } from './lib/impact';
+import type { CorridorExposure } from './lib/impact';
+import { estimatePopulation } from './lib/models';
+import { computeEncounter, DEFAULT_ORBITAL_ELEMENTS, ORBITAL_ELEMENT_FIELDS } from './lib/orbit';
+import type { OrbitalEncounter } from './lib/orbit';
+import { presetCloseApproach, presetRiskCorridor } from './lib/closeApproach';
+import { solveInverse, INVERSE_TARGETS, INVERSE_UNKNOWNS } from './lib/inverse';
+import type { InverseTarget, InverseUnknown, InverseSolution } from './lib/inverse';
+import { TARGET_MATERIALS, DEFAULT_TARGET_MATERIAL } from './data/targetMaterials';
+import { IMPACTOR_COMPOSITIONS, getImpactorComposition } from './data/impactorCompositions';
+import type { Mission, ImpactParameters, UIState, SimulationResult, TargetMaterial, ImpactorComposition, DistributionKind, UncertainParameter, OrbitalElements, CloseApproach, ImpactorPreset, RiskCorridor } from './types';
+import { IMPACTOR_PRESETS } from './types';
 import './styles/globals.css';
 import * as Cesium from 'cesium';
 import { geocodeSearch } from './lib/geocoding';
-import { preloadCities } from './utils/geocoding';
+import { preloadCities, getLoadedCities } from './utils/geocoding';
+import { preloadPopulationGrid } from './lib/population';
 
 // Ensure Ion token is set once at startup
 if (!Cesium.Ion.defaultAccessToken) {
@@ -175,10 +196,49 @@ const CollapsibleSection: React.FC<CollapsibleSectionProps> = ({ title, children
   );
 };
 
+const formatArrival = (seconds: number): string => {
+  if (seconds < 60) return `${Math.round(seconds)} s`;
+  const h = Math.floor(seconds / 3600);
+  const m = Math.round((seconds % 3600) / 60);
+  return h > 0 ? `${h} h ${m} min` : `${m} min`;
+};
+
+const formatYears = (years: number): string => {
+  if (years >= 1e9) return `${(years / 1e9).toLocaleString('en-US', { maximumSignificantDigits: 2 })} billion years`;
+  if (years >= 1e6) return `${(years / 1e6).toLocaleString('en-US', { maximumSignificantDigits: 2 })} million years`;
+  if (years >= 1) return `${years.toLocaleString('en-US', { maximumSignificantDigits: 2 })} years`;
+  return `${Math.max(Math.round(years * 365.25), 1)} days`;
+};
+
+const getTorinoColor = (level: number): string => {
+  if (level === 0) return '#ffffff';
+  if (level === 1) return '#22c55e';
+  if (level <= 4) return '#facc15';
+  if (level <= 7) return '#f97316';
+  return '#ef4444';
+};
+
+const formatMass = (kg: number): string =>
+  kg >= 1000 ? `${(kg / 1000).toLocaleString('en-US', { maximumFractionDigits: 0 })} t` : `${Math.round(kg)} kg`;
+
+const formatRangeValue = (value: number): string =>
+  value.toLocaleString('en-US', { maximumSignificantDigits: 3 });
+
+const formatLength = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`;
+
+const UNCERTAIN_PARAMETER_LABELS: Record<UncertainParameter, string> = {
+  diameter_m: 'Diameter',
+  density_kgm3: 'Density',
+  velocity_kms: 'Velocity',
+  angle_deg: 'Angle'
+};
+
 export default function App() {
   useEffect(() => {
     // Warm up city dataset early so first keystroke returns suggestions
     preloadCities().catch(() => {});
+    preloadPopulationGrid();
   }, []);
   // State
   const [mission, setMission] = useState<Mission>({
@@ -194,6 +254,126 @@ export default function App() {
     angle_deg: 45
   });
 
+  // Probabilistic run mode: spreads around the nominal parameters
+  const [monteCarlo, setMonteCarlo] = useState<{
+    enabled: boolean;
+    samples: number;
+    seed: number;
+    spreads: Record<UncertainParameter, UncertaintySpread>;
+  }>({
+    enabled: false,
+    samples: DEFAULT_MONTE_CARLO_SAMPLES,
+    seed: DEFAULT_MONTE_CARLO_SEED,
+    spreads: DEFAULT_UNCERTAINTY_SPREADS
+  });
+
+  // Smallest impact energy for which the Global Effects section is shown
+  const [globalEffectsThresholdMt, setGlobalEffectsThresholdMt] = useState(GLOBAL_EFFECTS_THRESHOLD_MT);
+
+  // Orbit input mode: elements, optional impact hour and the last derived encounter
+  const [orbit, setOrbit] = useState<{
+    elements: OrbitalElements;
+    hourUtc: string;
+    encounter: OrbitalEncounter | null;
+    error: string | null;
+  }>({
+    elements: DEFAULT_ORBITAL_ELEMENTS,
+    hourUtc: '',
+    encounter: null,
+    error: null
+  });
+
+  const applyOrbit = useCallback(() => {
+    try {
+      const encounter = computeEncounter(orbit.elements, { lat: mission.lat, lng: mission.lng }, {
+        time_utc_hours: orbit.hourUtc === '' ? undefined : Number(orbit.hourUtc)
+      });
+      setParameters(prev => ({
+        ...prev,
+        velocity_kms: Math.round(encounter.impact_velocity_kms * 10) / 10,
+        angle_deg: Math.round(encounter.impact_angle_deg),
+        azimuth_deg: Math.round(encounter.azimuth_deg) % 360,
+        impact_date: encounter.impact_date.slice(0, 10)
+      }));
+      setOrbit(prev => ({ ...prev, encounter, error: null }));
+    } catch (error) {
+      setOrbit(prev => ({ ...prev, encounter: null, error: (error as Error).message }));
+    }
+  }, [orbit.elements, orbit.hourUtc, mission.lat, mission.lng]);
+
+  // Close approach of a flyby preset, drawn on the globe; "what if" aims it at Earth
+  const [flyby, setFlyby] = useState<{
+    approach: CloseApproach | null;
+    preset: ImpactorPreset | null;
+    whatIf: boolean;
+    error: string | null;
+  }>({ approach: null, preset: null, whatIf: false, error: null });
+
+  // Risk corridor around the shown approach, from an arrival-time or target-plane 1σ
+  const [risk, setRisk] = useState<{
+    kind: 'timing' | 'bplane';
+    sigma: string;
+    corridor: RiskCorridor | null;
+    exposure: CorridorExposure | null;
+    width_km: number;
+    error: string | null;
+  }>({ kind: 'timing', sigma: '300', corridor: null, exposure: null, width_km: 0, error: null });
+
+  const showFlyby = useCallback((presetName: string, whatIf: boolean) => {
+    const preset = IMPACTOR_PRESETS.find(p => p.name === presetName);
+    if (!preset) return;
+    try {
+      const approach = presetCloseApproach(preset, { aim_at_earth: whatIf });
+      setFlyby({ approach, preset, whatIf, error: null });
+      setRisk(prev => ({ ...prev, corridor: null, exposure: null, error: null }));
+      if (!approach.impact) return;
+
+      const { lat, lng, velocity_kms, angle_deg, azimuth_deg, date } = approach.impact;
+      setParameters(prev => ({
+        ...preset.parameters,
+        target: prev.target,
+        velocity_kms: Math.round(velocity_kms * 10) / 10,
+        angle_deg: Math.round(angle_deg),
+        azimuth_deg: Math.round(azimuth_deg) % 360,
+        impact_date: date.slice(0, 10)
+      }));
+      setMission(prev => ({ ...prev, lat, lng, cityName: `${preset.name} (what if)` }));
+      setExternalSelection({ lat, lng, city: `${preset.name} (what if)` });
+    } catch (error) {
+      setFlyby({ approach: null, preset: null, whatIf: false, error: (error as Error).message });
+    }
+  }, []);
+
+  const generateCorridor = useCallback(async () => {
+    if (!flyby.preset) return;
+    try {
+      const sigma = Number(risk.sigma);
+      const corridor = presetRiskCorridor(flyby.preset, {
+        aim_at_earth: flyby.whatIf,
+        ...(risk.kind === 'timing' ? { timing_sigma_s: sigma } : { bplane_sigma_km: sigma })
+      });
+      if (corridor.points.length === 0) {
+        setRisk(prev => ({ ...prev, corridor, exposure: null, width_km: 0, error: null }));
+        return;
+      }
+      // Damage zones of the most likely impact, moved along the corridor
+      const likeliest = corridor.points.reduce((a, b) => (b.probability > a.probability ? b : a));
+      const result = simulateImpactor({
+        ...parameters,
+        lat: likeliest.lat,
+        lng: likeliest.lng,
+        velocity_kms: likeliest.velocity_kms,
+        angle_deg: likeliest.angle_deg,
+        azimuth_deg: likeliest.azimuth_deg
+      });
+      await preloadCities();
+      const exposure = corridorExposure(toCityFeatures(getLoadedCities()), corridor, result);
+      setRisk(prev => ({ ...prev, corridor, exposure, width_km: 2 * result.blast_radius_km, error: null }));
+    } catch (error) {
+      setRisk(prev => ({ ...prev, corridor: null, exposure: null, error: (error as Error).message }));
+    }
+  }, [flyby.preset, flyby.whatIf, risk.kind, risk.sigma, parameters]);
+
   const [uiState, setUIState] = useState<UIState>({
     selectedLocation: { lat: 24.8607, lng: 67.0011 },
     isSimulating: false,
@@ -271,6 +451,16 @@ export default function App() {
       } as ImpactParameters;
 
       const result = simulateImpactor(simulationParams);
+      if (monteCarlo.enabled) {
+        // Repeat the physics and population steps over the input distributions
+        await Promise.all([preloadCities(), preloadPopulationGrid()]);
+        const cities = toCityFeatures(getLoadedCities());
+        result.uncertainty = runMonteCarlo(simulationParams, distributionsFor(simulationParams, monteCarlo.spreads), {
+          samples: monteCarlo.samples,
+          seed: monteCarlo.seed,
+          populationOf: res => affectedPopulation(estimatePopulation(cities, res))
+        });
+      }
       // Store result but do NOT show results yet; CesiumGlobe will animate and then call back
       setMission(prev => ({ ...prev, result }));
       // Keep isSimulating true; showResults remains false until globe callback
@@ -283,7 +473,7 @@ export default function App() {
       }));
       alert('Simulation failed. Please check your parameters and location.');
     }
-  }, [parameters, mission.lat, mission.lng]);
+  }, [parameters, mission.lat, mission.lng, monteCarlo]);
 
   const onRunSimulationFromGlobe = useCallback((res: SimulationResult) => {
     // Store populated results from globe (includes affected population & cities)
@@ -295,6 +485,31 @@ export default function App() {
     }));
   }, []);
 
+  // Inverse solve: the diameter or velocity giving a chosen outcome
+  const [inverse, setInverse] = useState<{
+    target: InverseTarget;
+    goal: string;
+    unknown: InverseUnknown;
+    solution: InverseSolution | null;
+    error: string | null;
+  }>({ target: 'crater_km', goal: '20', unknown: 'diameter_m', solution: null, error: null });
+
+  const solveForOutcome = useCallback(async () => {
+    try {
+      let populationOf: ((res: SimulationResult) => number) | undefined;
+      if (inverse.target === 'population_affected') {
+        await Promise.all([preloadCities(), preloadPopulationGrid()]);
+        const cities = toCityFeatures(getLoadedCities());
+        populationOf = res => affectedPopulation(estimatePopulation(cities, res));
+      }
+      const base = { ...parameters, lat: mission.lat, lng: mission.lng };
+      const solution = solveInverse(base, inverse.target, Number(inverse.goal), inverse.unknown, { populationOf });
+      setInverse(prev => ({ ...prev, solution, error: null }));
+    } catch (error) {
+      setInverse(prev => ({ ...prev, solution: null, error: (error as Error).message }));
+    }
+  }, [inverse.target, inverse.goal, inverse.unknown, parameters, mission.lat, mission.lng]);
+
   const handleParametersChange = useCallback((newParams: ImpactParameters) => {
     setParameters(newParams);
   }, []);
@@ -393,122 +608,478 @@ export default function App() {
               <p className="text-sm text-gray-400">Configure parameters and simulate impacts worldwide</p>
             </div>
 
-            <CollapsibleSection title="Historical Events" defaultOpen={false}>
-              <div className="space-y-2">
-                {HISTORICAL_PRESETS.map(p => (
-                  <div key={p.name} className="space-y-1">
+            <div className="grid grid-cols-2 gap-2">
+              {(['parameters', 'mitigation'] as const).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setUIState(prev => ({ ...prev, activeTab: tab }))}
+                  className={`px-3 py-2 rounded border text-sm font-medium transition-colors ${uiState.activeTab === tab ? 'bg-gray-700 border-gray-500 text-white' : 'bg-gray-900/80 hover:bg-gray-900 border-gray-700 text-gray-300'}`}
+                >
+                  {tab === 'parameters' ? 'Impact' : 'Mitigation'}
+                </button>
+              ))}
+            </div>
+
+            {uiState.activeTab === 'mitigation' ? (
+              <CollapsibleSection title="Deflection Options" defaultOpen={true}>
+                <div className="p-4">
+                  <MitigationPanel
+                    parameters={parameters}
+                    geometry={{
+                      undeflected_miss_km: flyby.approach?.miss_distance_km,
+                      orbital_period_years: flyby.preset?.orbit ? Math.pow(flyby.preset.orbit.a_au, 1.5) : undefined
+                    }}
+                  />
+                </div>
+              </CollapsibleSection>
+            ) : (
+              <>
+              <CollapsibleSection title="Historical Events" defaultOpen={false}>
+                <div className="space-y-2">
+                  {HISTORICAL_PRESETS.map(p => (
+                    <div key={p.name} className="space-y-1">
+                      <button
+                        onClick={() => applyHistoricalPreset(p.name)}
+                        className="w-full text-left px-3 py-2 rounded bg-gray-900/80 hover:bg-gray-900 border border-gray-700 transition-colors"
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium text-white">{p.name}</span>
+                          {p.year && <span className="text-sm text-gray-300">{p.year}</span>}
+                        </div>
+                        <p className="text-sm text-gray-300 mt-1">{p.description}</p>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </CollapsibleSection>
+
+              <CollapsibleSection title="Impact Parameters" defaultOpen={true}>
+                <div className="space-y-6">
+                  <Slider
+                    label="Meteor Diameter"
+                    value={parameters.diameter_m}
+                    onChange={(val) => setParameters(prev => ({ ...prev, diameter_m: val }))}
+                    min={10}
+                    max={15000}
+                    unit="m"
+                    color="cyan"
+                  />
+
+                  <Slider
+                    label="Impact Velocity"
+                    value={parameters.velocity_kms}
+                    onChange={(val) => setParameters(prev => ({ ...prev, velocity_kms: val }))}
+                    min={11}
+                    max={50}
+                    unit="km/s"
+                    color="orange"
+                  />
+
+                  <Slider
+                    label="Impact Angle"
+                    value={parameters.angle_deg}
+                    onChange={(val) => setParameters(prev => ({ ...prev, angle_deg: val }))}
+                    min={10}
+                    max={90}
+                    unit="°"
+                    color="pink"
+                  />
+
+                  <Slider
+                    label="Approach Azimuth"
+                    value={parameters.azimuth_deg ?? DEFAULT_AZIMUTH_DEG}
+                    onChange={(val) => setParameters(prev => ({ ...prev, azimuth_deg: val }))}
+                    min={0}
+                    max={359}
+                    unit="°"
+                    color="pink"
+                  />
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium text-gray-300">Composition</label>
+                    <select
+                      value={parameters.composition ?? ''}
+                      onChange={(e) => {
+                        const composition = getImpactorComposition(e.target.value as ImpactorComposition);
+                        setParameters(prev => composition
+                          ? { ...prev, composition: composition.id, density_kgm3: composition.density_kgm3 }
+                          : { ...prev, composition: undefined });
+                      }}
+                      className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Solid body ({parameters.density_kgm3} kg/m³)</option>
+                      {Object.values(IMPACTOR_COMPOSITIONS).map(composition => (
+                        <option key={composition.id} value={composition.id}>
+                          {composition.name} ({composition.density_kgm3} kg/m³, {Math.round(composition.porosity * 100)}% porous)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium text-gray-300">Target Material</label>
+                    <select
+                      value={parameters.target ?? DEFAULT_TARGET_MATERIAL}
+                      onChange={(e) => setParameters(prev => ({ ...prev, target: e.target.value as TargetMaterial }))}
+                      className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {Object.values(TARGET_MATERIALS).map(material => (
+                        <option key={material.id} value={material.id}>
+                          {material.name} ({material.density_kgm3} kg/m³)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="text-sm font-medium text-gray-300">
+                      Impact Probability (%)
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step="any"
+                        value={parameters.impact_probability !== undefined ? parameters.impact_probability * 100 : ''}
+                        placeholder="Not predicted"
+                        onChange={(e) => setParameters(prev => ({
+                          ...prev,
+                          impact_probability: e.target.value === '' ? undefined : Math.min(Math.max(Number(e.target.value), 0), 100) / 100
+                        }))}
+                        className="w-full mt-1 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        title="Collision probability of a predicted impact, for the Torino and Palermo scales"
+                      />
+                    </label>
+                    <label className="text-sm font-medium text-gray-300">
+                      Impact Date
+                      <input
+                        type="date"
+                        value={parameters.impact_date ?? ''}
+                        onChange={(e) => setParameters(prev => ({ ...prev, impact_date: e.target.value || undefined }))}
+                        className="w-full mt-1 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </label>
+                  </div>
+                </div>
+              </CollapsibleSection>
+
+              <CollapsibleSection title="Solve For Outcome" defaultOpen={false}>
+                <div className="space-y-4 p-4">
+                  <p className="text-xs text-gray-400">Find the diameter or velocity that produces an outcome, with the other inputs as set.</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={inverse.target}
+                      onChange={(e) => setInverse(prev => ({ ...prev, target: e.target.value as InverseTarget, solution: null }))}
+                      className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {(Object.keys(INVERSE_TARGETS) as InverseTarget[]).map(key => (
+                        <option key={key} value={key}>{INVERSE_TARGETS[key].label} ({INVERSE_TARGETS[key].unit})</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      value={inverse.goal}
+                      onChange={(e) => setInverse(prev => ({ ...prev, goal: e.target.value, solution: null }))}
+                      className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <select
+                      value={inverse.unknown}
+                      onChange={(e) => setInverse(prev => ({ ...prev, unknown: e.target.value as InverseUnknown, solution: null }))}
+                      className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {(Object.keys(INVERSE_UNKNOWNS) as InverseUnknown[]).map(key => (
+                        <option key={key} value={key}>Find {INVERSE_UNKNOWNS[key].label.toLowerCase()}</option>
+                      ))}
+                    </select>
                     <button
-                      onClick={() => applyHistoricalPreset(p.name)}
-                      className="w-full text-left px-3 py-2 rounded bg-gray-900/80 hover:bg-gray-900 border border-gray-700 transition-colors"
+                      onClick={solveForOutcome}
+                      className="px-3 py-2 rounded bg-gray-900/80 hover:bg-gray-900 border border-gray-700 text-sm font-medium text-white transition-colors"
                     >
-                      <div className="flex items-center justify-between">
-                        <span className="font-medium text-white">{p.name}</span>
-                        {p.year && <span className="text-sm text-gray-300">{p.year}</span>}
-                      </div>
-                      <p className="text-sm text-gray-300 mt-1">{p.description}</p>
+                      Solve
                     </button>
                   </div>
-                ))}
-              </div>
-            </CollapsibleSection>
+                  {inverse.error && <p className="text-xs text-red-400">{inverse.error}</p>}
+                  {inverse.solution && (
+                    <>
+                      <p className="text-xs text-gray-400">
+                        {INVERSE_UNKNOWNS[inverse.unknown].label} {inverse.solution.value.toLocaleString('en-US', { maximumSignificantDigits: 3 })} {INVERSE_UNKNOWNS[inverse.unknown].unit} gives
+                        {' '}{inverse.solution.achieved.toLocaleString('en-US', { maximumSignificantDigits: 3 })} {INVERSE_TARGETS[inverse.target].unit}
+                      </p>
+                      <button
+                        onClick={() => setParameters(inverse.solution?.parameters ?? parameters)}
+                        className="w-full px-3 py-2 rounded bg-gray-900/80 hover:bg-gray-900 border border-gray-700 text-sm font-medium text-white transition-colors"
+                      >
+                        Apply Solution
+                      </button>
+                    </>
+                  )}
+                </div>
+              </CollapsibleSection>
 
-            <CollapsibleSection title="Impact Parameters" defaultOpen={true}>
-              <div className="space-y-6">
-                <Slider
-                  label="Meteor Diameter"
-                  value={parameters.diameter_m}
-                  onChange={(val) => setParameters(prev => ({ ...prev, diameter_m: val }))}
-                  min={10}
-                  max={15000}
-                  unit="m"
-                  color="cyan"
-                />
-
-                <Slider
-                  label="Impact Velocity"
-                  value={parameters.velocity_kms}
-                  onChange={(val) => setParameters(prev => ({ ...prev, velocity_kms: val }))}
-                  min={11}
-                  max={50}
-                  unit="km/s"
-                  color="orange"
-                />
-
-                <Slider
-                  label="Impact Angle"
-                  value={parameters.angle_deg}
-                  onChange={(val) => setParameters(prev => ({ ...prev, angle_deg: val }))}
-                  min={10}
-                  max={90}
-                  unit="°"
-                  color="pink"
-                />
-
-                <div className="space-y-3">
-                  <label className="text-sm font-medium text-gray-300">Material Density</label>
-                  <select
-                    value={parameters.density_kgm3}
-                    onChange={(e) => setParameters(prev => ({ ...prev, density_kgm3: Number(e.target.value) }))}
-                    className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              <CollapsibleSection title="Orbital Elements" defaultOpen={false}>
+                <div className="space-y-4 p-4">
+                  <p className="text-xs text-gray-400">Derive velocity, angle and direction of travel from a heliocentric orbit striking the target location.</p>
+                  {ORBITAL_ELEMENT_FIELDS.map(field => (
+                    <label key={field.key} className="grid grid-cols-2 gap-2 items-center text-sm text-gray-300">
+                      {field.label}{field.unit ? ` (${field.unit})` : ''}
+                      <input
+                        type="number"
+                        step={field.step}
+                        value={orbit.elements[field.key]}
+                        onChange={(e) => setOrbit(prev => ({ ...prev, elements: { ...prev.elements, [field.key]: Number(e.target.value) } }))}
+                        className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </label>
+                  ))}
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="text-sm text-gray-300">
+                      Epoch
+                      <input
+                        type="date"
+                        value={orbit.elements.epoch}
+                        onChange={(e) => setOrbit(prev => ({ ...prev, elements: { ...prev.elements, epoch: e.target.value } }))}
+                        className="w-full mt-1 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </label>
+                    <label className="text-sm text-gray-300">
+                      Impact hour (UTC)
+                      <input
+                        type="number"
+                        min={0}
+                        max={24}
+                        step={0.1}
+                        value={orbit.hourUtc}
+                        placeholder="Radiant highest"
+                        onChange={(e) => setOrbit(prev => ({ ...prev, hourUtc: e.target.value }))}
+                        className="w-full mt-1 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </label>
+                  </div>
+                  <button
+                    onClick={applyOrbit}
+                    className="w-full px-3 py-2 rounded bg-gray-900/80 hover:bg-gray-900 border border-gray-700 text-sm font-medium text-white transition-colors"
                   >
-                    <option value={917}>Ice (917 kg/m³)</option>
-                    <option value={2700}>Rock (2700 kg/m³)</option>
-                    <option value={8000}>Iron (8000 kg/m³)</option>
-                  </select>
+                    Apply Orbit
+                  </button>
+                  {orbit.error && <p className="text-xs text-red-400">{orbit.error}</p>}
+                  {orbit.encounter && (
+                    <p className="text-xs text-gray-400">
+                      v∞ {orbit.encounter.v_infinity_kms.toFixed(1)} km/s → {orbit.encounter.impact_velocity_kms.toFixed(1)} km/s •
+                      radiant {orbit.encounter.radiant_altitude_deg.toFixed(0)}° up •
+                      {' '}{new Date(orbit.encounter.impact_date).toUTCString()}
+                    </p>
+                  )}
+                  {IMPACTOR_PRESETS.filter(p => p.orbit).map(preset => (
+                    <div key={preset.name} className="grid grid-cols-2 gap-2">
+                      <button
+                        onClick={() => showFlyby(preset.name, false)}
+                        className="px-3 py-2 rounded bg-gray-900/80 hover:bg-gray-900 border border-gray-700 text-sm font-medium text-white transition-colors"
+                      >
+                        {preset.name} {preset.year}
+                      </button>
+                      <button
+                        onClick={() => showFlyby(preset.name, true)}
+                        className="px-3 py-2 rounded bg-gray-900/80 hover:bg-gray-900 border border-gray-700 text-sm font-medium text-white transition-colors"
+                      >
+                        What if it hit?
+                      </button>
+                    </div>
+                  ))}
+                  {flyby.error && <p className="text-xs text-red-400">{flyby.error}</p>}
+                  {flyby.approach && (
+                    <p className="text-xs text-gray-400">
+                      {flyby.approach.is_impact
+                        ? `Strikes ${flyby.approach.impact?.lat.toFixed(1)}°, ${flyby.approach.impact?.lng.toFixed(1)}° at ${flyby.approach.impact?.angle_deg.toFixed(0)}°`
+                        : `Closest approach ${Math.round(flyby.approach.perigee_km).toLocaleString()} km from Earth's centre`}
+                      {' '}• capture radius {Math.round(flyby.approach.capture_radius_km).toLocaleString()} km •
+                      {' '}{new Date(flyby.approach.date).toUTCString()}
+                    </p>
+                  )}
+                  {flyby.approach && (
+                    <div className="space-y-2">
+                      <div className="grid grid-cols-2 gap-2">
+                        <select
+                          value={risk.kind}
+                          onChange={(e) => setRisk(prev => ({ ...prev, kind: e.target.value as 'timing' | 'bplane' }))}
+                          className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="timing">Timing 1σ (s)</option>
+                          <option value="bplane">Target plane 1σ (km)</option>
+                        </select>
+                        <input
+                          type="number"
+                          min={0}
+                          value={risk.sigma}
+                          onChange={(e) => setRisk(prev => ({ ...prev, sigma: e.target.value }))}
+                          className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <button
+                        onClick={generateCorridor}
+                        className="w-full px-3 py-2 rounded bg-gray-900/80 hover:bg-gray-900 border border-gray-700 text-sm font-medium text-white transition-colors"
+                      >
+                        Risk Corridor
+                      </button>
+                      {risk.error && <p className="text-xs text-red-400">{risk.error}</p>}
+                      {risk.corridor && (
+                        <p className="text-xs text-gray-400">
+                          Impact probability {(risk.corridor.impact_probability * 100).toFixed(1)}% •
+                          1σ {Math.round(risk.corridor.sigma_km).toLocaleString()} km / {Math.round(risk.corridor.sigma_s)} s
+                          {risk.exposure && (
+                            <>
+                              {' '}• expected exposure {Math.round(risk.exposure.expected_blast_population).toLocaleString()} (blast),
+                              {' '}{Math.round(risk.exposure.expected_thermal_population).toLocaleString()} (thermal)
+                            </>
+                          )}
+                        </p>
+                      )}
+                      {risk.exposure && risk.exposure.cities.slice(0, 5).map(c => (
+                        <div key={`${c.city}-${c.country ?? ''}`} className="flex justify-between text-xs text-gray-300">
+                          <span>{c.city}{c.country ? `, ${c.country}` : ''}</span>
+                          <span>{(c.probability * 100).toFixed(1)}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
-              </div>
-            </CollapsibleSection>
+              </CollapsibleSection>
 
-            <CollapsibleSection title="Target Location" defaultOpen={true} allowOverflow={true}>
-              <div className="space-y-6 p-4">
-                <div className="space-y-6">
-                  <div className="search-container">
-                    <SearchBar
-                      onLocationSelected={handleSearchBarLocationSelect}
-                      placeholder="Search for a city..."
-                      className="w-full"
+              <CollapsibleSection title="Sweep & Sensitivity" defaultOpen={false}>
+                <div className="p-4">
+                  <SweepPanel parameters={parameters} lat={mission.lat} lng={mission.lng} />
+                </div>
+              </CollapsibleSection>
+
+              <CollapsibleSection title="Uncertainty" defaultOpen={false}>
+                <div className="space-y-4 p-4">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={monteCarlo.enabled}
+                      onChange={(e) => setMonteCarlo(prev => ({ ...prev, enabled: e.target.checked }))}
                     />
-                  </div>
-                  <div className="text-xs text-gray-400 text-center">
-                    Or click on the globe to select a location
-                  </div>
+                    Monte Carlo run
+                  </label>
+                  {monteCarlo.enabled && (
+                    <>
+                      {(Object.keys(UNCERTAIN_PARAMETER_LABELS) as UncertainParameter[]).map(key => (
+                        <div key={key} className="grid grid-cols-3 gap-2 items-center">
+                          <span className="text-sm text-gray-300">{UNCERTAIN_PARAMETER_LABELS[key]}</span>
+                          <select
+                            value={monteCarlo.spreads[key].kind}
+                            onChange={(e) => setMonteCarlo(prev => ({ ...prev, spreads: { ...prev.spreads, [key]: { ...prev.spreads[key], kind: e.target.value as DistributionKind } } }))}
+                            className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="normal">Normal</option>
+                            <option value="lognormal">Log-normal</option>
+                            <option value="uniform">Uniform</option>
+                          </select>
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={Math.round(monteCarlo.spreads[key].spread * 100)}
+                            onChange={(e) => setMonteCarlo(prev => ({ ...prev, spreads: { ...prev.spreads, [key]: { ...prev.spreads[key], spread: Math.max(Number(e.target.value), 0) / 100 } } }))}
+                            className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            title="Spread in percent of the nominal value"
+                          />
+                        </div>
+                      ))}
+                      <div className="grid grid-cols-2 gap-2">
+                        <label className="text-sm text-gray-300">
+                          Samples
+                          <input
+                            type="number"
+                            min={10}
+                            max={2000}
+                            value={monteCarlo.samples}
+                            onChange={(e) => setMonteCarlo(prev => ({ ...prev, samples: Math.min(Math.max(Number(e.target.value), 10), 2000) }))}
+                            className="w-full mt-1 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </label>
+                        <label className="text-sm text-gray-300">
+                          Seed
+                          <input
+                            type="number"
+                            value={monteCarlo.seed}
+                            onChange={(e) => setMonteCarlo(prev => ({ ...prev, seed: Math.round(Number(e.target.value)) }))}
+                            className="w-full mt-1 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </label>
+                      </div>
+                    </>
+                  )}
                 </div>
+              </CollapsibleSection>
+
+              <CollapsibleSection title="Display" defaultOpen={false}>
+                <div className="space-y-4 p-4">
+                  <label className="text-sm text-gray-300">
+                    Show Global Effects from (Mt)
+                    <input
+                      type="number"
+                      min={0}
+                      value={globalEffectsThresholdMt}
+                      onChange={(e) => setGlobalEffectsThresholdMt(Math.max(Number(e.target.value), 0))}
+                      className="w-full mt-1 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      title="Impact energy below which the Global Effects section stays hidden"
+                    />
+                  </label>
+                </div>
+              </CollapsibleSection>
+
+              <CollapsibleSection title="Target Location" defaultOpen={true} allowOverflow={true}>
+                <div className="space-y-6 p-4">
+                  <div className="space-y-6">
+                    <div className="search-container">
+                      <SearchBar
+                        onLocationSelected={handleSearchBarLocationSelect}
+                        placeholder="Search for a city..."
+                        className="w-full"
+                      />
+                    </div>
+                    <div className="text-xs text-gray-400 text-center">
+                      Or click on the globe to select a location
+                    </div>
+                  </div>
                 
-                <SelectedLocation
-                  cityName={mission.cityName}
-                  country={mission.country}
-                  population={externalSelection?.population}
-                  lat={mission.lat}
-                  lng={mission.lng}
-                />
-              </div>
-            </CollapsibleSection>
+                  <SelectedLocation
+                    cityName={mission.cityName}
+                    country={mission.country}
+                    population={externalSelection?.population}
+                    lat={mission.lat}
+                    lng={mission.lng}
+                  />
+                </div>
+              </CollapsibleSection>
             
-            <div className="mt-8">
-              <motion.button
-                whileHover={{ scale: 1.01 }}
-                whileTap={{ scale: 0.99 }}
-                onClick={handleRunSimulation}
-                disabled={uiState.isSimulating}
-                className="w-full text-white font-semibold py-4 px-6 rounded-lg flex items-center justify-center space-x-3 shadow-lg hover:shadow-xl"
-                style={{ 
-                  backgroundColor: '#1f2937',
-                  border: '1px solid #4b5563',
-                  transition: 'all 0.2s ease'
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor = '#374151';
-                  e.currentTarget.style.borderColor = '#6b7280';
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = '#1f2937';
-                  e.currentTarget.style.borderColor = '#4b5563';
-                }}
-              >
-                <PlayIcon />
-                <span className="text-lg">{uiState.isSimulating ? 'SIMULATING...' : 'RUN SIMULATION'}</span>
-              </motion.button>
-            </div>
+              <div className="mt-8">
+                <motion.button
+                  whileHover={{ scale: 1.01 }}
+                  whileTap={{ scale: 0.99 }}
+                  onClick={handleRunSimulation}
+                  disabled={uiState.isSimulating}
+                  className="w-full text-white font-semibold py-4 px-6 rounded-lg flex items-center justify-center space-x-3 shadow-lg hover:shadow-xl"
+                  style={{ 
+                    backgroundColor: '#1f2937',
+                    border: '1px solid #4b5563',
+                    transition: 'all 0.2s ease'
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = '#374151';
+                    e.currentTarget.style.borderColor = '#6b7280';
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = '#1f2937';
+                    e.currentTarget.style.borderColor = '#4b5563';
+                  }}
+                >
+                  <PlayIcon />
+                  <span className="text-lg">{uiState.isSimulating ? 'SIMULATING...' : 'RUN SIMULATION'}</span>
+                </motion.button>
+              </div>
+              </>
+            )}
           </div>
         </motion.div>
 
@@ -526,6 +1097,9 @@ export default function App() {
               isSimulating={uiState.isSimulating}
               onLocationSelected={handleLocationSelect}
               externalSelection={externalSelection || undefined}
+              closeApproach={flyby.approach}
+              riskCorridor={risk.corridor}
+              riskCorridorWidthKm={risk.width_km}
             />
           </motion.div>
         </div>
@@ -545,6 +1119,15 @@ export default function App() {
 
             {uiState.showResults && mission.result ? (
               <div className="space-y-6">
+                {mission.result.flags && mission.result.flags.length > 0 && (
+                  <div className="space-y-2 bg-gray-800/30 border border-gray-700 rounded-lg p-3">
+                    <div className="text-sm font-semibold text-yellow-300">Model Warnings</div>
+                    {mission.result.flags.map((flag, index) => (
+                      <div key={`${flag.code}-${index}`} className="text-xs text-gray-300">{flag.message}</div>
+                    ))}
+                  </div>
+                )}
+
                 <CollapsibleSection title="Physical Effects" defaultOpen={true}>
                   <ResultCard
                     title="Impact Energy"
@@ -570,8 +1153,114 @@ export default function App() {
                     color="pink"
                     isAnimating={uiState.isSimulating}
                   />
+                  {mission.result.is_airburst && (
+                    <div className="space-y-3 bg-gray-800/30 border border-gray-700 rounded-lg p-3">
+                      <div className="text-sm font-semibold text-gray-300">Airburst</div>
+                      <div className="grid grid-cols-2 gap-3 text-center">
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{((mission.result.burst_altitude_m ?? 0) / 1000).toFixed(1)} km</div>
+                          <div className="text-xs text-gray-400">Burst Altitude</div>
+                        </div>
+                        {typeof mission.result.burst_energy_mt === 'number' && (
+                          <div>
+                            <div className="text-lg font-bold text-gray-100">{mission.result.burst_energy_mt.toLocaleString('en-US', { maximumFractionDigits: 2 })} Mt</div>
+                            <div className="text-xs text-gray-400">Released Aloft</div>
+                          </div>
+                        )}
+                        {typeof mission.result.surface_energy_mt === 'number' && (
+                          <div>
+                            <div className="text-lg font-bold text-gray-100">{mission.result.surface_energy_mt.toLocaleString('en-US', { maximumFractionDigits: 2 })} Mt</div>
+                            <div className="text-xs text-gray-400">
+                              Reaching the Surface{typeof mission.result.surface_velocity_kms === 'number' ? ` • ${mission.result.surface_velocity_kms.toFixed(1)} km/s` : ''}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
                 </CollapsibleSection>
 
+                {mission.result.crater_details && (
+                  <CollapsibleSection title="Crater Breakdown" defaultOpen={false}>
+                    <div className="space-y-3 bg-gray-800/30 border border-gray-700 rounded-lg p-3">
+                      <div className="grid grid-cols-2 gap-3 text-center">
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{mission.result.crater_details.morphology === 'complex' ? 'Complex' : 'Simple'}</div>
+                          <div className="text-xs text-gray-400">Morphology</div>
+                        </div>
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{formatLength(mission.result.crater_details.transient_diameter_m)}</div>
+                          <div className="text-xs text-gray-400">Transient Diameter</div>
+                        </div>
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{formatLength(mission.result.crater_details.final_diameter_m)}</div>
+                          <div className="text-xs text-gray-400">Final Rim Diameter</div>
+                        </div>
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{formatLength(mission.result.crater_details.final_depth_m)}</div>
+                          <div className="text-xs text-gray-400">Final Depth</div>
+                        </div>
+                        {mission.result.crater_details.morphology === 'simple' && (
+                          <div>
+                            <div className="text-lg font-bold text-gray-100">{formatLength(mission.result.crater_details.breccia_thickness_m)}</div>
+                            <div className="text-xs text-gray-400">Breccia Lens Thickness</div>
+                          </div>
+                        )}
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{(mission.result.crater_details.melt_volume_m3 / 1e9).toLocaleString('en-US', { maximumSignificantDigits: 3 })} km³</div>
+                          <div className="text-xs text-gray-400">Impact Melt Volume</div>
+                        </div>
+                      </div>
+                    </div>
+                  </CollapsibleSection>
+                )}
+
+                {(mission.result.target_surface === 'shallow_sea' || mission.result.target_surface === 'deep_ocean') && !mission.result.is_airburst && (
+                  <CollapsibleSection title="Ocean Impact" defaultOpen={true}>
+                    <div className="space-y-3 bg-gray-800/30 border border-gray-700 rounded-lg p-3">
+                      <div className="grid grid-cols-2 gap-3 text-center">
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{(mission.result.water_depth_m ?? 0).toLocaleString('en-US')} m</div>
+                          <div className="text-xs text-gray-400">Water Depth • {mission.result.target_surface === 'deep_ocean' ? 'Deep ocean' : 'Shallow sea'}</div>
+                        </div>
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{((mission.result.water_cavity_diameter_m ?? 0) / 1000).toFixed(1)} × {((mission.result.water_cavity_depth_m ?? 0) / 1000).toFixed(1)} km</div>
+                          <div className="text-xs text-gray-400">Water Cavity (wide × deep)</div>
+                        </div>
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{mission.result.seafloor_crater_m ? `${(mission.result.seafloor_crater_m / 1000).toFixed(1)} km` : 'None'}</div>
+                          <div className="text-xs text-gray-400">Seafloor Crater{mission.result.seafloor_crater_m ? '' : ' (water too deep)'}</div>
+                        </div>
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{(mission.result.tsunami_amplitude_m ?? 0).toFixed(0)} m</div>
+                          <div className="text-xs text-gray-400">Initial Tsunami Amplitude</div>
+                        </div>
+                      </div>
+                    </div>
+                  </CollapsibleSection>
+                )}
+
+                {mission.result.tsunami_arrivals && mission.result.tsunami_arrivals.length > 0 && (
+                  <CollapsibleSection title="Tsunami Arrivals" defaultOpen={true}>
+                    <div className="space-y-2 bg-gray-800/30 border border-gray-700 rounded-lg p-3">
+                      <div className="space-y-2 max-h-48 overflow-y-auto pr-1">
+                        {mission.result.tsunami_arrivals.slice(0, 15).map((city, index) => (
+                          <div key={`${city.name}-${index}`} className="flex items-center justify-between text-sm">
+                            <div className="flex-1 min-w-0">
+                              <div className="truncate text-gray-100">{city.name}{city.country ? `, ${city.country}` : ''}</div>
+                              <div className="text-gray-400 text-xs">{city.runup_m.toFixed(1)} m run-up • {city.distance_km.toFixed(0)} km away</div>
+                            </div>
+                            <div className="text-right text-xs text-gray-300 pl-2">
+                              <div className="font-semibold text-yellow-300">{formatArrival(city.arrival_s)}</div>
+                              <div className="text-gray-500">until arrival</div>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </CollapsibleSection>
+                )}
+
                 <CollapsibleSection title="Damage Zones" defaultOpen={true}>
                   <ResultCard
                     title="Blast Radius"
@@ -589,6 +1278,22 @@ export default function App() {
                     color="green"
                     isAnimating={uiState.isSimulating}
                   />
+                  {mission.result.thermal_zones && mission.result.thermal_zones.length > 0 && (
+                    <div className="space-y-2 bg-gray-800/30 border border-gray-700 rounded-lg p-3">
+                      <div className="text-sm font-semibold text-gray-300">Thermal Zones</div>
+                      {mission.result.thermal_zones.map(zone => (
+                        <div key={zone.key} className="flex items-center justify-between text-sm">
+                          <div className="flex-1 min-w-0">
+                            <div className="truncate text-gray-100">{zone.label}</div>
+                            <div className="text-gray-400 text-xs">{(zone.fluence_jm2 / 1e6).toFixed(2)} MJ/m²</div>
+                          </div>
+                          <div className="text-right text-gray-100 pl-2">
+                            {zone.radius_km > 0 ? `${zone.radius_km.toFixed(1)} km` : <span className="text-xs text-gray-500">Not reached at ground level</span>}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </CollapsibleSection>
 
                 <CollapsibleSection title="Human Impact" defaultOpen={true}>
@@ -635,14 +1340,138 @@ export default function App() {
                           <div key={`${c.name}-${idx}`} className="flex items-center justify-between text-sm">
                             <div className="flex-1 min-w-0">
                               <div className="truncate text-gray-100">#{idx + 1} {c.name}{c.country ? `, ${c.country}` : ''}</div>
-                              <div className="text-gray-400 text-xs">{c.distance.toFixed(1)} km • {c.population.toLocaleString('en-US')} ppl{c.zones && c.zones.length ? ` • ${c.zones.join(', ')}` : ''}</div>
+                              <div className="text-gray-400 text-xs">{c.distance.toFixed(1)} km • {c.population.toLocaleString('en-US')} ppl{c.zones && c.zones.length ? ` • ${c.zones.join(', ')}` : ''}{typeof c.mmi === 'number' ? ` • MMI ${toRomanMmi(c.mmi)}` : ''}</div>
                             </div>
+                            {c.arrivals && (c.arrivals.air_blast_s ?? c.arrivals.seismic_s) !== null && (
+                              <div className="text-right text-xs text-gray-300 pl-2" title="Seconds after impact until the air blast (or shaking) arrives">
+                                <div className="font-semibold text-yellow-300">{Math.round((c.arrivals.air_blast_s ?? c.arrivals.seismic_s) as number).toLocaleString('en-US')} s</div>
+                                <div className="text-gray-500">until {c.arrivals.air_blast_s !== null ? 'blast' : 'shaking'}</div>
+                              </div>
+                            )}
                           </div>
                         ))}
                       </div>
                     </div>
                   )}
                 </CollapsibleSection>
+
+                {mission.result.timeline && mission.result.timeline.length > 0 && (
+                  <CollapsibleSection title="Event Timeline" defaultOpen={true}>
+                    <div className="space-y-2 bg-gray-800/30 border border-gray-700 rounded-lg p-3">
+                      <EventTimeline events={mission.result.timeline} />
+                      {mission.result.timeline.map((event, index) => (
+                        <div key={`${event.effect}-${index}`} className="flex items-center gap-2 text-sm">
+                          <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: EFFECT_COLORS[event.effect] }}></div>
+                          <div className="flex-1 min-w-0">
+                            <div className="truncate text-gray-100">{event.label}</div>
+                            <div className="text-gray-400 text-xs">
+                              {event.distance_km > 0 ? `Reaches ${event.distance_km.toFixed(1)} km after ${formatArrival(event.arrival_s)}` : 'At impact'}
+                              {event.duration_s ? ` • lasts ${formatArrival(event.duration_s)}` : ''}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CollapsibleSection>
+                )}
+
+                {mission.result.hazard && (
+                  <CollapsibleSection title="Impact Hazard" defaultOpen={true}>
+                    <div className="space-y-3 bg-gray-800/30 border border-gray-700 rounded-lg p-3">
+                      <div className="grid grid-cols-2 gap-3 text-center">
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">Every {formatYears(mission.result.hazard.recurrence_interval_years)}</div>
+                          <div className="text-xs text-gray-400">Typical Recurrence (this energy or more)</div>
+                        </div>
+                        {mission.result.hazard.recurrence_interval_diameter_years !== undefined && (
+                          <div>
+                            <div className="text-lg font-bold text-gray-100">Every {formatYears(mission.result.hazard.recurrence_interval_diameter_years)}</div>
+                            <div className="text-xs text-gray-400">Typical Recurrence (this size or larger)</div>
+                          </div>
+                        )}
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{(mission.result.hazard.annual_probability * 100).toLocaleString('en-US', { maximumSignificantDigits: 2 })}%</div>
+                          <div className="text-xs text-gray-400">Chance in Any Given Year</div>
+                        </div>
+                        {mission.result.hazard.torino_scale !== undefined && (
+                          <div>
+                            <div className="text-lg font-bold" style={{ color: getTorinoColor(mission.result.hazard.torino_scale) }}>{mission.result.hazard.torino_scale}</div>
+                            <div className="text-xs text-gray-400">Torino Scale • {TORINO_DESCRIPTIONS[mission.result.hazard.torino_scale]}</div>
+                          </div>
+                        )}
+                        {mission.result.hazard.palermo_scale !== undefined && (
+                          <div>
+                            <div className="text-lg font-bold text-gray-100">{mission.result.hazard.palermo_scale.toFixed(2)}</div>
+                            <div className="text-xs text-gray-400">Palermo Scale{(mission.result.hazard.years_to_impact ?? 0) > 0 ? ` • ${formatYears(mission.result.hazard.years_to_impact ?? 0)} ahead` : ''}</div>
+                          </div>
+                        )}
+                      </div>
+                      {mission.result.hazard.palermo_scale !== undefined && (
+                        <div className="text-xs text-gray-500">
+                          Palermo: below −2 no concern • −2 to 0 merits monitoring • above 0 exceeds the background impact risk until that date
+                        </div>
+                      )}
+                    </div>
+                  </CollapsibleSection>
+                )}
+
+                {mission.result.uncertainty && (
+                  <CollapsibleSection title="Uncertainty Ranges" defaultOpen={true}>
+                    <div className="space-y-2 bg-gray-800/30 border border-gray-700 rounded-lg p-3">
+                      <div className="text-xs text-gray-400">
+                        5th–95th percentile over {mission.result.uncertainty.samples.toLocaleString('en-US')} runs (seed {mission.result.uncertainty.seed}); median in brackets
+                      </div>
+                      {[
+                        { label: 'Energy', range: mission.result.uncertainty.impact_energy_mt, unit: 'Mt' },
+                        { label: 'Crater Diameter', range: mission.result.uncertainty.crater_km, unit: 'km' },
+                        { label: 'Blast Radius', range: mission.result.uncertainty.blast_radius_km, unit: 'km' },
+                        { label: 'Thermal Radius', range: mission.result.uncertainty.thermal_radius_km, unit: 'km' },
+                        ...(mission.result.uncertainty.population_affected
+                          ? [{ label: 'Population Affected', range: mission.result.uncertainty.population_affected, unit: 'people' }]
+                          : []),
+                        ...Object.entries(mission.result.uncertainty.zone_radii_km)
+                          .filter(([, range]) => range.p95 > 0)
+                          .map(([key, range]) => ({ label: key.replace(/_/g, ' '), range, unit: 'km' }))
+                      ].map(({ label, range, unit }) => (
+                        <div key={label} className="flex items-center justify-between text-sm">
+                          <span className="text-gray-300 capitalize">{label}</span>
+                          <span className="text-gray-100">
+                            {formatRangeValue(range.p5)} – {formatRangeValue(range.p95)} {unit} <span className="text-gray-400">({formatRangeValue(range.p50)})</span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </CollapsibleSection>
+                )}
+
+                {mission.result.climate && mission.result.impact_energy_mt >= globalEffectsThresholdMt && (
+                  <CollapsibleSection title="Global Effects" defaultOpen={true}>
+                    <div className="space-y-3 bg-gray-800/30 border border-gray-700 rounded-lg p-3">
+                      <div className="grid grid-cols-2 gap-3 text-center">
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{formatMass(mission.result.climate.dust_mass_kg)} • {formatMass(mission.result.climate.soot_mass_kg)}</div>
+                          <div className="text-xs text-gray-400">Stratospheric Dust • Soot</div>
+                        </div>
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{(mission.result.climate.min_sunlight_fraction * 100).toLocaleString('en-US', { maximumSignificantDigits: 2 })}%</div>
+                          <div className="text-xs text-gray-400">Lowest Sunlight (of normal)</div>
+                        </div>
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">−{mission.result.climate.peak_cooling_k.toFixed(1)} K</div>
+                          <div className="text-xs text-gray-400">Peak Global Cooling</div>
+                        </div>
+                        <div>
+                          <div className="text-lg font-bold text-gray-100">{mission.result.climate.growing_season_loss_months.toFixed(1)} months</div>
+                          <div className="text-xs text-gray-400">Growing Season Lost</div>
+                        </div>
+                      </div>
+                      <ClimateChart months={mission.result.climate.months} />
+                      <div className="text-xs text-gray-500">
+                        Bars show monthly sunlight, darker where more of the growing season is lost • The line shows the global mean temperature anomaly
+                      </div>
+                    </div>
+                  </CollapsibleSection>
+                )}
               </div>
             ) : (
               <div className="text-center py-12">
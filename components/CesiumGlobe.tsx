@@ -1,9 +1,16 @@
 import React, { useEffect, useRef } from "react";
 import * as Cesium from "cesium";
-import { Mission, SimulationResult } from "../types";
+import { CloseApproach, Mission, RiskCorridor, SimulationResult, ZoneFootprint } from "../types";
 import "cesium/Build/Cesium/Widgets/widgets.css";
 import { getLoadedCities, preloadCities } from "../utils/geocoding";
-import { populationAffectedByZones } from "../lib/impact";
+import { toCityFeatures, affectedPopulation } from "../lib/impact";
+import { preloadPopulationGrid } from "../lib/population";
+import { estimatePopulation } from "../lib/models";
+import { propagateTsunami } from "../lib/tsunami";
+import { mmiAt } from "../lib/seismic";
+import { arrivalTimesAt } from "../lib/timeline";
+import { destinationPoint } from "../lib/geography";
+import { DEFAULT_AZIMUTH_DEG, ellipticalFootprint, footprintEdgeDistanceM } from "../lib/footprint";
 
 // ✅ Cesium Ion token
 Cesium.Ion.defaultAccessToken =
@@ -25,6 +32,9 @@ interface CesiumGlobeProps {
     lng: number,
     details?: { city?: string; country?: string; population?: number }
   ) => void;
+  closeApproach?: CloseApproach | null;
+  riskCorridor?: RiskCorridor | null;
+  riskCorridorWidthKm?: number; // band width on the ground
 }
 
 function easeOutQuad(t: number) { return 1 - (1 - t) * (1 - t); }
@@ -35,6 +45,9 @@ export default function CesiumGlobe({
   onLocationSelected,
   isSimulating,
   onRunSimulation,
+  closeApproach,
+  riskCorridor,
+  riskCorridorWidthKm = 100,
 }: CesiumGlobeProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const viewerRef = useRef<Cesium.Viewer | null>(null);
@@ -190,6 +203,74 @@ export default function CesiumGlobe({
     });
   }, [externalSelection]);
 
+  // Close-approach track around perigee, ending at the ground for an impact
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+    viewer.entities.values
+      .filter(ent => String(ent.id).startsWith('closeApproach-'))
+      .forEach(ent => viewer.entities.remove(ent));
+    if (!closeApproach || closeApproach.path.length < 2) return;
+
+    const color = closeApproach.is_impact ? Cesium.Color.RED : Cesium.Color.CYAN;
+    viewer.entities.add({
+      id: 'closeApproach-path',
+      polyline: {
+        positions: Cesium.Cartesian3.fromDegreesArrayHeights(closeApproach.path.flatMap(p => [p.lng, p.lat, p.altitude_km * 1000])),
+        width: 2,
+        material: new Cesium.PolylineGlowMaterialProperty({ glowPower: 0.2, color })
+      }
+    });
+    const closest = closeApproach.path.reduce((a, b) => (b.altitude_km < a.altitude_km ? b : a));
+    const text = closeApproach.is_impact
+      ? `Impact ${new Date(closeApproach.impact?.date ?? closeApproach.date).toUTCString()}`
+      : `Perigee ${Math.round(closest.altitude_km).toLocaleString()} km up`;
+    viewer.entities.add({
+      id: 'closeApproach-closest',
+      position: Cesium.Cartesian3.fromDegrees(closest.lng, closest.lat, closest.altitude_km * 1000),
+      point: { pixelSize: 8, color, disableDepthTestDistance: Number.POSITIVE_INFINITY },
+      label: { text, font: '12px sans-serif', pixelOffset: new Cesium.Cartesian2(0, -16), fillColor: Cesium.Color.WHITE, showBackground: true, backgroundColor: Cesium.Color.fromAlpha(Cesium.Color.BLACK, 0.55) }
+    });
+    viewer.camera.flyTo({ destination: Cesium.Cartesian3.fromDegrees(closest.lng, closest.lat, 120_000_000), duration: 1.0 });
+  }, [closeApproach]);
+
+  // Risk corridor: the band of possible impact points, brightest where most likely
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+    viewer.entities.values
+      .filter(ent => String(ent.id).startsWith('riskCorridor-'))
+      .forEach(ent => viewer.entities.remove(ent));
+    if (!riskCorridor || riskCorridor.points.length === 0) return;
+
+    const width_m = Math.max(riskCorridorWidthKm, 10) * 1000;
+    if (riskCorridor.points.length > 1) {
+      viewer.entities.add({
+        id: 'riskCorridor-band',
+        corridor: {
+          positions: Cesium.Cartesian3.fromDegreesArray(riskCorridor.points.flatMap(p => [p.lng, p.lat])),
+          width: width_m,
+          material: Cesium.Color.RED.withAlpha(0.25),
+          outline: false
+        }
+      });
+    }
+    const peak = Math.max(...riskCorridor.points.map(p => p.probability));
+    riskCorridor.points.forEach((p, idx) => {
+      viewer.entities.add({
+        id: `riskCorridor-${idx}`,
+        position: Cesium.Cartesian3.fromDegrees(p.lng, p.lat),
+        point: { pixelSize: 5, color: Cesium.Color.RED.withAlpha(0.2 + 0.8 * (p.probability / peak)), disableDepthTestDistance: Number.POSITIVE_INFINITY }
+      });
+    });
+    const likeliest = riskCorridor.points.reduce((a, b) => (b.probability > a.probability ? b : a));
+    viewer.entities.add({
+      id: 'riskCorridor-label',
+      position: Cesium.Cartesian3.fromDegrees(likeliest.lng, likeliest.lat),
+      label: { text: `Impact probability ${(riskCorridor.impact_probability * 100).toFixed(1)}%`, font: '12px sans-serif', pixelOffset: new Cesium.Cartesian2(0, -16), fillColor: Cesium.Color.WHITE, showBackground: true, backgroundColor: Cesium.Color.fromAlpha(Cesium.Color.BLACK, 0.55) }
+    });
+  }, [riskCorridor, riskCorridorWidthKm]);
+
   // Start meteor animation when simulation begins and a result is available
   useEffect(() => {
     const viewer = viewerRef.current;
@@ -233,9 +314,13 @@ export default function CesiumGlobe({
       }
     });
 
-    // angled entry from NW to ground
-    const startCart = Cesium.Cartesian3.fromDegrees(lon - 1.2, lat + 0.6, 2_000_000);
-    const endCart = Cesium.Cartesian3.fromDegrees(lon, lat, 0);
+    // angled entry along the approach azimuth to ground (or to the burst altitude for airbursts)
+    const burstAltitudeM = res.is_airburst ? (res.burst_altitude_m ?? 0) : 0;
+    const azimuth = res.azimuth_deg ?? DEFAULT_AZIMUTH_DEG;
+    const entryAngleRad = (Math.min(Math.max(res.angle_deg ?? 45, 5), 90) * Math.PI) / 180;
+    const entryStart = destinationPoint(lat, lon, (azimuth + 180) % 360, Math.min(2000 / Math.tan(entryAngleRad), 2500));
+    const startCart = Cesium.Cartesian3.fromDegrees(entryStart.lon, entryStart.lat, 2_000_000);
+    const endCart = Cesium.Cartesian3.fromDegrees(lon, lat, burstAltitudeM);
     const t0 = Date.now();
     const durationMs = 3500;
     const scratch = new Cesium.Cartesian3();
@@ -256,8 +341,13 @@ export default function CesiumGlobe({
       viewer.camera.lookAt(scratch, new Cesium.Cartesian3(0, -800000, 400000));
       if (elapsed >= durationMs) {
         remove();
-        // Flash
-        viewer.entities.add({ position: endCart, point: { pixelSize: 40, color: Cesium.Color.WHITE } });
+        // Flash (larger and longer-lived for an airburst fireball)
+        if (res.is_airburst) {
+          const oldFlash = viewer.entities.getById('burstFlash'); if (oldFlash) viewer.entities.remove(oldFlash);
+          viewer.entities.add({ id: 'burstFlash', position: endCart, point: { pixelSize: 60, color: Cesium.Color.fromCssColorString('#fff3c4').withAlpha(0.9) } });
+        } else {
+          viewer.entities.add({ position: endCart, point: { pixelSize: 40, color: Cesium.Color.WHITE } });
+        }
         // Cleanup meteor after brief delay
         setTimeout(() => { viewer.entities.remove(meteor); viewer.entities.remove(trail); const tr2 = viewer.entities.getById('meteor-trail-outer'); if (tr2) viewer.entities.remove(tr2); }, 300);
         // Release camera and show zones
@@ -268,26 +358,115 @@ export default function CesiumGlobe({
         const blastM = res.blast_radius_m;
         const thermalM = res.thermal_radius_m;
         const center = Cesium.Cartesian3.fromDegrees(lon, lat);
-        viewer.entities.add({ id: 'craterZone', position: center, ellipse: { semiMajorAxis: craterM, semiMinorAxis: craterM, material: Cesium.Color.RED.withAlpha(0.35), outline: false } });
-        viewer.entities.add({ id: 'blastZone', position: center, ellipse: { semiMajorAxis: blastM, semiMinorAxis: blastM, material: Cesium.Color.ORANGE.withAlpha(0.22), outline: false } });
-        viewer.entities.add({ id: 'thermalZone', position: center, ellipse: { semiMajorAxis: thermalM, semiMinorAxis: thermalM, material: Cesium.Color.YELLOW.withAlpha(0.18), outline: false } });
+        if (!res.is_airburst) {
+          viewer.entities.add({ id: 'craterZone', position: center, ellipse: { semiMajorAxis: craterM, semiMinorAxis: craterM, material: Cesium.Color.RED.withAlpha(0.35), outline: false } });
+        }
+        // Ejecta blanket rings, thickest deposit darkest
+        viewer.entities.values
+          .filter(ent => String(ent.id).startsWith('ejectaZone-'))
+          .forEach(ent => viewer.entities.remove(ent));
+        (res.ejecta_zones || []).filter(z => z.radius_m > 0).forEach((zone, idx) => {
+          viewer.entities.add({ id: `ejectaZone-${zone.key}`, position: center, ellipse: { semiMajorAxis: zone.radius_m, semiMinorAxis: zone.radius_m, material: Cesium.Color.SADDLEBROWN.withAlpha(0.3 - idx * 0.08), outline: false } });
+        });
+        // Meteorite strewn field: one ellipse per mass bin, stretched along the entry direction
+        viewer.entities.values
+          .filter(ent => String(ent.id).startsWith('strewnField-'))
+          .forEach(ent => viewer.entities.remove(ent));
+        if (res.strewn_field) {
+          const strewnColors = ['#4a1d0c', '#7a2f12', '#b45309', '#d97706', '#fbbf24'];
+          res.strewn_field.bins.forEach((bin, idx) => {
+            const binCenter = destinationPoint(lat, lon, bin.downrange_km >= 0 ? azimuth : (azimuth + 180) % 360, Math.abs(bin.downrange_km));
+            viewer.entities.add({ id: `strewnField-${idx}`, position: Cesium.Cartesian3.fromDegrees(binCenter.lon, binCenter.lat), ellipse: { semiMajorAxis: bin.semi_major_km * 1000, semiMinorAxis: bin.semi_minor_km * 1000, rotation: -(azimuth * Math.PI) / 180, material: Cesium.Color.fromCssColorString(strewnColors[Math.min(idx, strewnColors.length - 1)]).withAlpha(0.45), outline: false } });
+          });
+        }
+        // Blast and thermal footprints are ellipses stretched downrange along the azimuth
+        const footprintCenter = (fp: ZoneFootprint) => destinationPoint(lat, lon, azimuth, fp.downrange_offset_m / 1000);
+        const footprintEdge = (fp: ZoneFootprint, bearing: number) => {
+          const c = footprintCenter(fp);
+          return destinationPoint(c.lat, c.lon, bearing, footprintEdgeDistanceM(fp, bearing - azimuth) / 1000);
+        };
+        const footprintEntity = (fp: ZoneFootprint) => {
+          const c = footprintCenter(fp);
+          return { position: Cesium.Cartesian3.fromDegrees(c.lon, c.lat), semiMajorAxis: fp.semi_major_m, semiMinorAxis: fp.semi_minor_m, rotation: -(azimuth * Math.PI) / 180 };
+        };
+
+        // One ring per overpressure level (strongest drawn most opaque)
+        const blastRings: Array<{ overpressure_psi: number; radius_m: number; footprint?: ZoneFootprint }> = (res.blast_rings && res.blast_rings.length > 0)
+          ? res.blast_rings
+          : [{ overpressure_psi: 1, radius_m: blastM }];
+        viewer.entities.values
+          .filter(ent => String(ent.id).startsWith('blastRing-'))
+          .forEach(ent => viewer.entities.remove(ent));
+        blastRings.filter(r => r.radius_m > 0).forEach((ring, idx) => {
+          const fp = ring.footprint ?? ellipticalFootprint(ring.radius_m, 90);
+          const { position, ...shape } = footprintEntity(fp);
+          viewer.entities.add({ id: `blastRing-${ring.overpressure_psi}psi`, position, ellipse: { ...shape, material: Cesium.Color.ORANGE.withAlpha(0.3 - idx * 0.07), outline: false } });
+          if (res.blast_rings) {
+            const edge = footprintEdge(fp, 0);
+            viewer.entities.add({ id: `blastRing-${ring.overpressure_psi}psi-label`, position: Cesium.Cartesian3.fromDegrees(edge.lon, edge.lat, 0), label: { text: `${ring.overpressure_psi} psi`, font: '12px sans-serif', fillColor: Cesium.Color.fromCssColorString('#ffa34d'), showBackground: true, backgroundColor: Cesium.Color.fromAlpha(Cesium.Color.BLACK, 0.55), heightReference: Cesium.HeightReference.CLAMP_TO_GROUND } });
+          }
+        });
+        // One ring per thermal fluence threshold, labelled at its edge
+        const thermalZones: Array<{ key: string; label: string; radius_m: number; footprint?: ZoneFootprint }> = (res.thermal_zones && res.thermal_zones.length > 0)
+          ? res.thermal_zones
+          : [{ key: 'second_degree_burns', label: 'Thermal', radius_m: thermalM }];
+        viewer.entities.values
+          .filter(ent => String(ent.id).startsWith('thermalZone-'))
+          .forEach(ent => viewer.entities.remove(ent));
+        thermalZones.filter(z => z.radius_m > 0).forEach((zone, idx) => {
+          const fp = zone.footprint ?? ellipticalFootprint(zone.radius_m, 90);
+          const { position, ...shape } = footprintEntity(fp);
+          viewer.entities.add({ id: `thermalZone-${zone.key}`, position, ellipse: { ...shape, material: Cesium.Color.YELLOW.withAlpha(0.18 - idx * 0.05), outline: false } });
+          const edge = footprintEdge(fp, 180);
+          viewer.entities.add({ id: `thermalZone-${zone.key}-label`, position: Cesium.Cartesian3.fromDegrees(edge.lon, edge.lat, 0), label: { text: `${zone.label} ${(zone.radius_m / 1000).toFixed(1)} km`, font: '12px sans-serif', fillColor: Cesium.Color.fromCssColorString('#ffe680'), showBackground: true, backgroundColor: Cesium.Color.fromAlpha(Cesium.Color.BLACK, 0.55), heightReference: Cesium.HeightReference.CLAMP_TO_GROUND } });
+        });
+
+        // Monte Carlo runs: P5 and P95 of the outermost blast footprint
+        viewer.entities.values
+          .filter(ent => String(ent.id).startsWith('uncertainty-'))
+          .forEach(ent => viewer.entities.remove(ent));
+        if (res.uncertainty) {
+          const bounds: Array<[string, number, string]> = [
+            ['inner', res.uncertainty.blast_radius_km.p5, 'P5'],
+            ['outer', res.uncertainty.blast_radius_km.p95, 'P95']
+          ];
+          bounds.filter(([, radiusKm]) => radiusKm > 0).forEach(([which, radiusKm, tag]) => {
+            const fp = ellipticalFootprint(radiusKm * 1000, res.angle_deg ?? 90);
+            const { position, ...shape } = footprintEntity(fp);
+            viewer.entities.add({ id: `uncertainty-${which}`, position, ellipse: { ...shape, height: 0, fill: false, outline: true, outlineColor: Cesium.Color.WHITE.withAlpha(0.8), outlineWidth: 2 } });
+            const edge = footprintEdge(fp, 90);
+            viewer.entities.add({ id: `uncertainty-${which}-label`, position: Cesium.Cartesian3.fromDegrees(edge.lon, edge.lat, 0), label: { text: `Blast ${tag} ${radiusKm.toFixed(1)} km`, font: '12px sans-serif', fillColor: Cesium.Color.WHITE, showBackground: true, backgroundColor: Cesium.Color.fromAlpha(Cesium.Color.BLACK, 0.55), heightReference: Cesium.HeightReference.CLAMP_TO_GROUND } });
+          });
+        }
+
+        // Modified Mercalli intensity rings from the attenuated impact magnitude
+        viewer.entities.values
+          .filter(ent => String(ent.id).startsWith('mmiRing-'))
+          .forEach(ent => viewer.entities.remove(ent));
+        (res.mmi_rings || []).filter(r => r.radius_m > 0).forEach((ring, idx) => {
+          viewer.entities.add({ id: `mmiRing-${ring.mmi}`, position: center, ellipse: { semiMajorAxis: ring.radius_m, semiMinorAxis: ring.radius_m, material: Cesium.Color.VIOLET.withAlpha(0.12 - idx * 0.03), outline: false } });
+          const ringLon = lon + (ring.radius_m / 1000) / (111 * Math.max(Math.cos((lat * Math.PI) / 180), 0.1));
+          viewer.entities.add({ id: `mmiRing-${ring.mmi}-label`, position: Cesium.Cartesian3.fromDegrees(ringLon, lat, 0), label: { text: `MMI ${ring.roman}`, font: '12px sans-serif', fillColor: Cesium.Color.fromCssColorString('#d8b4fe'), showBackground: true, backgroundColor: Cesium.Color.fromAlpha(Cesium.Color.BLACK, 0.55), heightReference: Cesium.HeightReference.CLAMP_TO_GROUND } });
+        });
 
         // Remove old zone labels if exist
         const oldCraterLabel = viewer.entities.getById('craterLabel'); if (oldCraterLabel) viewer.entities.remove(oldCraterLabel);
         const oldBlastLabel = viewer.entities.getById('blastLabel'); if (oldBlastLabel) viewer.entities.remove(oldBlastLabel);
-        const oldThermalLabel = viewer.entities.getById('thermalLabel'); if (oldThermalLabel) viewer.entities.remove(oldThermalLabel);
 
         // Place labels at zone edges with geographic offset to avoid overlap
         const kmToDeg = (km: number) => km / 111; // approx conversion for small distances
         const craterLat = lat + kmToDeg((craterM/1000) + 5);
         const blastLat = lat + kmToDeg((blastM/1000) + 10);
-        const thermalLat = lat + kmToDeg((thermalM/1000) + 15);
-        viewer.entities.add({ id: 'craterLabel', position: Cesium.Cartesian3.fromDegrees(lon, craterLat, 0), label: { text: `Crater ${(craterM/1000).toFixed(1)} km radius`, font: '14px sans-serif', pixelOffset: new Cesium.Cartesian2(0, -10), fillColor: Cesium.Color.WHITE, showBackground: true, backgroundColor: Cesium.Color.fromAlpha(Cesium.Color.BLACK, 0.55), heightReference: Cesium.HeightReference.CLAMP_TO_GROUND } });
+        const craterLabelText = res.is_airburst
+          ? `Airburst at ${(burstAltitudeM / 1000).toFixed(1)} km altitude`
+          : `Crater ${(craterM/1000).toFixed(1)} km radius`;
+        viewer.entities.add({ id: 'craterLabel', position: Cesium.Cartesian3.fromDegrees(lon, craterLat, 0), label: { text: craterLabelText, font: '14px sans-serif', pixelOffset: new Cesium.Cartesian2(0, -10), fillColor: Cesium.Color.WHITE, showBackground: true, backgroundColor: Cesium.Color.fromAlpha(Cesium.Color.BLACK, 0.55), heightReference: Cesium.HeightReference.CLAMP_TO_GROUND } });
         viewer.entities.add({ id: 'blastLabel', position: Cesium.Cartesian3.fromDegrees(lon, blastLat, 0), label: { text: `Blast ${(blastM/1000).toFixed(1)} km`, font: '13px sans-serif', pixelOffset: new Cesium.Cartesian2(0, -10), fillColor: Cesium.Color.fromCssColorString('#ffa34d'), showBackground: true, backgroundColor: Cesium.Color.fromAlpha(Cesium.Color.BLACK, 0.55), heightReference: Cesium.HeightReference.CLAMP_TO_GROUND } });
-        viewer.entities.add({ id: 'thermalLabel', position: Cesium.Cartesian3.fromDegrees(lon, thermalLat, 0), label: { text: `Thermal ${(thermalM/1000).toFixed(1)} km`, font: '13px sans-serif', pixelOffset: new Cesium.Cartesian2(0, -10), fillColor: Cesium.Color.fromCssColorString('#ffe680'), showBackground: true, backgroundColor: Cesium.Color.fromAlpha(Cesium.Color.BLACK, 0.55), heightReference: Cesium.HeightReference.CLAMP_TO_GROUND } });
 
         // Final camera to show all zones
-        const maxRadius = Math.max(craterM, blastM, thermalM);
+        const footprintReach = [...blastRings, ...thermalZones]
+          .map(z => z.footprint ? z.footprint.semi_major_m + z.footprint.downrange_offset_m : z.radius_m);
+        const maxRadius = Math.max(craterM, blastM, thermalM, ...footprintReach, (res.uncertainty?.blast_radius_km.p95 ?? 0) * 1000);
         const altitude = Math.max(maxRadius * 2.0, 300000);
         viewer.camera.flyTo({ destination: Cesium.Cartesian3.fromDegrees(lon, lat, altitude), duration: 1.2 });
 
@@ -295,39 +474,61 @@ export default function CesiumGlobe({
         (async () => {
           try {
             // Ensure cities are loaded from the same dataset used by geocoding for consistency
-            await preloadCities();
+            await Promise.all([preloadCities(), preloadPopulationGrid()]);
             const cities = getLoadedCities();
-            const pointCities = cities
-              .map((c: any) => ({
-                geometry: { coordinates: [c.lon, c.lat] as [number, number] },
-                properties: { city: c.name, country: c.country, population: c.population || 0 }
-              }))
-              .filter((p: any) => Number.isFinite(p.geometry.coordinates[0]) && Number.isFinite(p.geometry.coordinates[1]));
-
-            const zones = populationAffectedByZones(
-              pointCities,
-              lat,
-              lon,
-              res.blast_radius_km,
-              res.thermal_radius_km,
-              res.crater_km / 2
-            );
+            const zones = estimatePopulation(toCityFeatures(cities), res);
 
             const topCities = zones.cityResults.slice(0, 10).map(c => ({
               name: c.city,
               country: c.country || '',
               population: c.population || 0,
               distance: c.distance_km,
-              zones: c.zones
+              zones: c.zones,
+              mmi: mmiAt(res.seismic_magnitude, c.distance_km),
+              arrivals: arrivalTimesAt(res, c.distance_km)
             }));
 
+            // Ocean impacts: propagate the tsunami to coastal cities and draw wave fronts
+            const tsunami = (res.tsunami_amplitude_m ?? 0) > 0
+              ? propagateTsunami({
+                  lat,
+                  lng: lon,
+                  amplitude_m: res.tsunami_amplitude_m ?? 0,
+                  sourceRadius_m: res.tsunami_source_radius_m ?? 0
+                }, cities)
+              : null;
+            viewer.entities.values
+              .filter(ent => String(ent.id).startsWith('tsunami-'))
+              .forEach(ent => viewer.entities.remove(ent));
+            if (tsunami) {
+              tsunami.isochrones.forEach((iso, isoIdx) => {
+                const alpha = Math.max(0.25, 0.9 - isoIdx * 0.07);
+                iso.lines.forEach((line, lineIdx) => {
+                  if (line.length < 2) return;
+                  viewer.entities.add({
+                    id: `tsunami-${iso.hours}h-${lineIdx}`,
+                    polyline: {
+                      positions: Cesium.Cartesian3.fromDegreesArray(line.flat()),
+                      width: 2,
+                      material: Cesium.Color.fromCssColorString('#38bdf8').withAlpha(alpha)
+                    }
+                  });
+                });
+                const longest = iso.lines.reduce((a, b) => (b.length > a.length ? b : a), iso.lines[0]);
+                const mid = longest[Math.floor(longest.length / 2)];
+                viewer.entities.add({ id: `tsunami-${iso.hours}h-label`, position: Cesium.Cartesian3.fromDegrees(mid[0], mid[1], 0), label: { text: `${iso.hours} h`, font: '12px sans-serif', fillColor: Cesium.Color.fromCssColorString('#bae6fd'), showBackground: true, backgroundColor: Cesium.Color.fromAlpha(Cesium.Color.BLACK, 0.55), heightReference: Cesium.HeightReference.CLAMP_TO_GROUND } });
+              });
+            }
+
             const withPop: SimulationResult = {
               ...res, 
-              population_affected: zones.thermalPop,
+              population_affected: affectedPopulation(zones),
               affectedCities: topCities,
               crater_population_total: zones.craterPop,
               blast_population_total: zones.blastPop,
-              thermal_population_total: zones.thermalPop
+              thermal_population_total: zones.thermalPop,
+              population_source: zones.source,
+              ...(tsunami ? { tsunami_arrivals: tsunami.arrivals, tsunami_isochrones: tsunami.isochrones } : {})
             } as SimulationResult;
             onRunSimulation?.(withPop);
           } catch {
@@ -367,10 +568,13 @@ export default function CesiumGlobe({
           const viewer = viewerRef.current;
           if (!viewer) return;
           // Clear previous impact entities
-          ['craterZone','blastZone','thermalZone','craterLabel','blastLabel','thermalLabel','meteor','meteor-trail'].forEach(id => {
+          ['craterZone','craterLabel','blastLabel','burstFlash','meteor','meteor-trail'].forEach(id => {
             const ent = viewer.entities.getById(id as any);
             if (ent) viewer.entities.remove(ent);
           });
+          viewer.entities.values
+            .filter(ent => ['tsunami-', 'blastRing-', 'thermalZone-', 'mmiRing-', 'ejectaZone-', 'strewnField-', 'uncertainty-'].some(prefix => String(ent.id).startsWith(prefix)))
+            .forEach(ent => viewer.entities.remove(ent));
           // Fly back to a staging view
           viewer.camera.flyTo({ destination: Cesium.Cartesian3.fromDegrees(0, 20, 45_000_000), duration: 0.8 });
         }}
@@ -0,0 +1,55 @@
+import React from 'react';
+import type { ClimateMonth } from '../types';
+
+interface ClimateChartProps {
+  months: ClimateMonth[];
+  width?: number;
+  height?: number;
+}
+
+const PADDING = { top: 12, right: 40, bottom: 24, left: 40 };
+
+// Month-by-month sunlight (bars, left axis) and temperature anomaly (line, right axis)
+export default function ClimateChart({ months, width = 360, height = 180 }: ClimateChartProps) {
+  if (months.length === 0) return null;
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const barWidth = plotWidth / months.length;
+  const minAnomaly = Math.min(-1, ...months.map(m => m.temperature_anomaly_k));
+  const xAt = (index: number) => PADDING.left + (index + 0.5) * barWidth;
+  const sunlightY = (fraction: number) => PADDING.top + (1 - fraction) * plotHeight;
+  const anomalyY = (k: number) => PADDING.top + (k / minAnomaly) * plotHeight;
+  const temperaturePath = months
+    .map((m, i) => `${i === 0 ? 'M' : 'L'}${xAt(i).toFixed(1)},${anomalyY(m.temperature_anomaly_k).toFixed(1)}`)
+    .join(' ');
+  const yearTicks = months.filter(m => m.month % 12 === 0);
+
+  return (
+    <svg className="climate-chart" width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img" aria-label="Sunlight and temperature after the impact">
+      {months.map((m, i) => (
+        <rect
+          key={m.month}
+          x={PADDING.left + i * barWidth}
+          y={sunlightY(m.sunlight_fraction)}
+          width={Math.max(barWidth - 1, 1)}
+          height={plotHeight * m.sunlight_fraction}
+          fill="#facc15"
+          opacity={0.35 + 0.5 * m.growing_season_loss}
+        />
+      ))}
+      <path d={temperaturePath} fill="none" stroke="#60a5fa" strokeWidth={2} />
+
+      <line x1={PADDING.left} y1={PADDING.top + plotHeight} x2={PADDING.left + plotWidth} y2={PADDING.top + plotHeight} stroke="#6b7280" />
+      {yearTicks.map(m => (
+        <text key={m.month} x={PADDING.left + m.month * barWidth} y={height - 6} fill="#9ca3af" fontSize={10}>
+          {m.month === 0 ? 'Impact' : `Yr ${m.month / 12}`}
+        </text>
+      ))}
+      <text x={4} y={PADDING.top + 8} fill="#facc15" fontSize={10}>100%</text>
+      <text x={4} y={PADDING.top + plotHeight} fill="#facc15" fontSize={10}>0%</text>
+      <text x={width - PADDING.right + 4} y={PADDING.top + 8} fill="#60a5fa" fontSize={10}>0 K</text>
+      <text x={width - PADDING.right + 4} y={PADDING.top + plotHeight} fill="#60a5fa" fontSize={10}>{minAnomaly.toFixed(0)} K</text>
+    </svg>
+  );
+}
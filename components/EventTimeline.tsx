@@ -0,0 +1,70 @@
+import React from 'react';
+import type { TimedEffect, TimelineEvent } from '../types';
+
+interface EventTimelineProps {
+  events: TimelineEvent[];
+  width?: number;
+}
+
+const PADDING = { top: 8, right: 16, bottom: 20, left: 16 };
+const ROW_HEIGHT = 18;
+const MIN_TIME_S = 1;
+
+export const EFFECT_COLORS: Record<TimedEffect, string> = {
+  thermal: '#f97316',
+  seismic: '#ec4899',
+  air_blast: '#facc15',
+  ejecta: '#a0643a'
+};
+
+const TICKS: Array<[number, string]> = [
+  [1, '1 s'], [10, '10 s'], [60, '1 min'], [600, '10 min'], [3600, '1 h'], [36000, '10 h']
+];
+
+// Arrival of each effect on a log time axis, one row per event; the thermal pulse
+// is drawn as a bar spanning its duration
+export default function EventTimeline({ events, width = 360 }: EventTimelineProps) {
+  if (events.length === 0) return null;
+
+  const height = PADDING.top + PADDING.bottom + events.length * ROW_HEIGHT;
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const maxTime = Math.max(MIN_TIME_S * 10, ...events.map(e => e.arrival_s + (e.duration_s ?? 0)));
+  const span = Math.log10(maxTime / MIN_TIME_S);
+  const xAt = (seconds: number) => PADDING.left + (Math.log10(Math.max(seconds, MIN_TIME_S) / MIN_TIME_S) / span) * plotWidth;
+  const yAt = (index: number) => PADDING.top + (index + 0.5) * ROW_HEIGHT;
+
+  return (
+    <svg className="event-timeline" width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img" aria-label="Arrival time of each effect">
+      {TICKS.filter(([t]) => t <= maxTime).map(([t, label]) => (
+        <g key={t}>
+          <line x1={xAt(t)} y1={PADDING.top} x2={xAt(t)} y2={height - PADDING.bottom} stroke="#374151" />
+          <text x={xAt(t)} y={height - 6} fill="#9ca3af" fontSize={10} textAnchor="middle">{label}</text>
+        </g>
+      ))}
+      {events.map((event, i) => (
+        <g key={`${event.effect}-${i}`}>
+          {event.duration_s ? (
+            <rect
+              x={xAt(event.arrival_s)}
+              y={yAt(i) - 4}
+              width={Math.max(xAt(event.arrival_s + event.duration_s) - xAt(event.arrival_s), 2)}
+              height={8}
+              fill={EFFECT_COLORS[event.effect]}
+            />
+          ) : (
+            <circle cx={xAt(event.arrival_s)} cy={yAt(i)} r={4} fill={EFFECT_COLORS[event.effect]} />
+          )}
+          <text
+            x={xAt(event.arrival_s) + (xAt(event.arrival_s) > PADDING.left + plotWidth / 2 ? -8 : 8)}
+            y={yAt(i) + 3}
+            fill="#e5e7eb"
+            fontSize={10}
+            textAnchor={xAt(event.arrival_s) > PADDING.left + plotWidth / 2 ? 'end' : 'start'}
+          >
+            {event.label}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
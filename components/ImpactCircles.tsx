@@ -18,7 +18,7 @@ export default function ImpactCircles({ mission, showResults = true, visualEffec
     <>
       {damageZones.map((zone, index) => (
         <Circle
-          key={zone.type}
+          key={`${zone.type}-${index}`}
           center={[mission.lat, mission.lng]}
           radius={zone.radius_m}
           pathOptions={{
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import type { ImpactParameters, KineticImpactor, NuclearStandoff, GravityTractor, DeflectionMethod } from '../types';
+import { DART_IMPACTOR, DEFAULT_NUCLEAR_STANDOFF, DEFAULT_GRAVITY_TRACTOR, compareDeflections } from '../lib/deflection';
+import type { DeflectionGeometry } from '../lib/deflection';
+import { massFromDiameter } from '../lib/physics';
+
+interface MitigationPanelProps {
+  parameters: ImpactParameters;
+  geometry?: DeflectionGeometry; // from the close approach when one is shown
+}
+
+interface Field<T> {
+  key: keyof T;
+  label: string;
+  unit: string;
+  step: number;
+  scale?: number; // stored value per displayed unit
+}
+
+const DAYS_PER_YEAR = 365.25;
+
+const KINETIC_FIELDS: Field<KineticImpactor>[] = [
+  { key: 'spacecraft_mass_kg', label: 'Spacecraft mass', unit: 'kg', step: 10 },
+  { key: 'relative_velocity_kms', label: 'Relative velocity', unit: 'km/s', step: 0.1 },
+  { key: 'beta', label: 'Momentum factor β', unit: '', step: 0.1 }
+];
+
+const NUCLEAR_FIELDS: Field<NuclearStandoff>[] = [
+  { key: 'yield_kt', label: 'Yield', unit: 'kt', step: 10 },
+  { key: 'standoff_m', label: 'Standoff distance', unit: 'm', step: 10 },
+  { key: 'coupling_efficiency', label: 'Coupling efficiency', unit: '', step: 0.01 }
+];
+
+const TRACTOR_FIELDS: Field<GravityTractor>[] = [
+  { key: 'spacecraft_mass_kg', label: 'Spacecraft mass', unit: 'kg', step: 1000 },
+  { key: 'hover_distance_m', label: 'Hover distance', unit: 'm', step: 10 },
+  { key: 'duration_days', label: 'Towing time', unit: 'years', step: 0.5, scale: DAYS_PER_YEAR }
+];
+
+const METHOD_LABELS: Record<DeflectionMethod, string> = {
+  kinetic_impactor: 'Kinetic impactor',
+  nuclear_standoff: 'Nuclear standoff',
+  gravity_tractor: 'Gravity tractor'
+};
+
+const RISK_COLORS = { low: 'text-green-400', moderate: 'text-yellow-400', high: 'text-red-400' };
+
+const formatKm = (km: number) => `${Math.round(km).toLocaleString()} km`;
+
+const formatDeltaV = (mps: number) => (mps >= 0.01 ? `${mps.toFixed(3)} m/s` : `${(mps * 1000).toFixed(3)} mm/s`);
+
+function NumberFields<T extends object>({ fields, value, onChange }: { fields: Field<T>[]; value: T; onChange: (next: T) => void }) {
+  return (
+    <>
+      {fields.map(field => (
+        <label key={String(field.key)} className="grid grid-cols-2 gap-2 items-center text-sm text-gray-300">
+          {field.label}{field.unit ? ` (${field.unit})` : ''}
+          <input
+            type="number"
+            min={0}
+            step={field.step}
+            value={Math.round((Number(value[field.key]) / (field.scale ?? 1)) * 1000) / 1000}
+            onChange={(e) => onChange({ ...value, [field.key]: Number(e.target.value) * (field.scale ?? 1) })}
+            className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+      ))}
+    </>
+  );
+}
+
+function OutcomeCell({ misses }: { misses: boolean }) {
+  return (
+    <span className={`font-semibold ${misses ? 'text-green-400' : 'text-red-400'}`}>
+      {misses ? 'Miss' : 'Hit'}
+    </span>
+  );
+}
+
+// Deflection options for the current asteroid and warning time, side by side with doing nothing
+export default function MitigationPanel({ parameters, geometry }: MitigationPanelProps) {
+  const [warningDays, setWarningDays] = useState(DART_IMPACTOR.lead_time_days);
+  const [kinetic, setKinetic] = useState<KineticImpactor>(DART_IMPACTOR);
+  const [nuclear, setNuclear] = useState<NuclearStandoff>(DEFAULT_NUCLEAR_STANDOFF);
+  const [tractor, setTractor] = useState<GravityTractor>(DEFAULT_GRAVITY_TRACTOR);
+
+  const outcomes = compareDeflections(parameters, warningDays, { kinetic, nuclear, tractor }, geometry);
+  // Every outcome shares the undeflected miss distance and capture radius
+  const [kineticOutcome, nuclearOutcome] = outcomes;
+  const asteroidMass = massFromDiameter(parameters.diameter_m, parameters.density_kgm3);
+  const spacecraftNeeded = Math.ceil(
+    (kineticOutcome.required_delta_v_mps * asteroidMass) / (kinetic.beta * kinetic.relative_velocity_kms * 1000) / kinetic.spacecraft_mass_kg
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-400">
+        Each option acts on the {parameters.diameter_m.toLocaleString()} m asteroid as soon as it is found, nudging it
+        along its orbit so that it arrives early or late and passes Earth by.
+      </p>
+      <label className="grid grid-cols-2 gap-2 items-center text-sm font-medium text-white">
+        Warning time (years)
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          value={Math.round((warningDays / DAYS_PER_YEAR) * 100) / 100}
+          onChange={(e) => setWarningDays(Number(e.target.value) * DAYS_PER_YEAR)}
+          className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-gray-400 uppercase">Kinetic impactor</p>
+        <NumberFields fields={KINETIC_FIELDS} value={kinetic} onChange={setKinetic} />
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-gray-400 uppercase">Nuclear standoff</p>
+        <NumberFields fields={NUCLEAR_FIELDS} value={nuclear} onChange={setNuclear} />
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-gray-400 uppercase">Gravity tractor</p>
+        <NumberFields fields={TRACTOR_FIELDS} value={tractor} onChange={setTractor} />
+      </div>
+
+      <table className="w-full text-sm text-gray-300">
+        <thead>
+          <tr className="text-xs text-gray-400">
+            <th className="text-left font-medium">Option</th>
+            <th className="text-right font-medium">Δv</th>
+            <th className="text-right font-medium">Miss</th>
+            <th className="text-right font-medium"></th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>No action</td>
+            <td className="text-right">—</td>
+            <td className="text-right">{formatKm(kineticOutcome.undeflected_miss_km)}</td>
+            <td className="text-right"><OutcomeCell misses={kineticOutcome.undeflected_miss_km > kineticOutcome.capture_radius_km} /></td>
+          </tr>
+          {outcomes.map(outcome => (
+            <tr key={outcome.method}>
+              <td>{METHOD_LABELS[outcome.method]}</td>
+              <td className="text-right">{formatDeltaV(outcome.delta_v_mps)}</td>
+              <td className="text-right">{formatKm(outcome.deflected_miss_km)}</td>
+              <td className="text-right"><OutcomeCell misses={outcome.misses_earth} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="space-y-1 text-xs text-gray-400">
+        <p>Capture radius {formatKm(kineticOutcome.capture_radius_km)} (Earth's radius widened by its gravity) • needs Δv {formatDeltaV(kineticOutcome.required_delta_v_mps)}</p>
+        {nuclearOutcome.fragmentation_risk && (
+          <p>
+            Nuclear fragmentation risk:{' '}
+            <span className={RISK_COLORS[nuclearOutcome.fragmentation_risk]}>{nuclearOutcome.fragmentation_risk}</span>
+            {' '}({((nuclearOutcome.disruption_energy_ratio ?? 0) * 100).toFixed(0)}% of the disruption energy)
+          </p>
+        )}
+        {!kineticOutcome.misses_earth && Number.isFinite(spacecraftNeeded) && (
+          <p>Kinetic impactor needs about {spacecraftNeeded.toLocaleString()} such spacecraft at this warning time</p>
+        )}
+      </div>
+    </div>
+  );
+}
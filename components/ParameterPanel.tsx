@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import type { ImpactParameters, ImpactorPreset } from '../types';
+import type { ImpactParameters, ImpactorPreset, TargetMaterial, ImpactorComposition } from '../types';
 import { IMPACTOR_PRESETS } from '../types';
+import { TARGET_MATERIALS, DEFAULT_TARGET_MATERIAL } from '../data/targetMaterials';
+import { IMPACTOR_COMPOSITIONS, getImpactorComposition } from '../data/impactorCompositions';
+import { DEFAULT_AZIMUTH_DEG } from '../lib/footprint';
 import { geocodeSearch } from '../lib/geocoding';
 
 interface ParameterPanelProps {
@@ -201,7 +204,7 @@ export default function ParameterPanel({
   }, [])
 
   // Update parameters with debouncing
-  const updateParameters = (key: keyof ImpactParameters, value: number) => {
+  const updateParameters = <K extends keyof ImpactParameters>(key: K, value: ImpactParameters[K]) => {
     // Clear existing debounce timer
     if (parameterDebounceRef.current) {
       clearTimeout(parameterDebounceRef.current)
@@ -339,6 +342,28 @@ export default function ParameterPanel({
         </div>
       </div>
 
+      <div className="parameter-group">
+        <label className="parameter-label">Composition</label>
+        <select
+          value={parameters.composition ?? ''}
+          onChange={(e) => {
+            const composition = getImpactorComposition(e.target.value as ImpactorComposition)
+            onParametersChange(composition
+              ? { ...parameters, composition: composition.id, density_kgm3: composition.density_kgm3 }
+              : { ...parameters, composition: undefined })
+          }}
+          className="preset-select"
+          style={{ width: '100%' }}
+        >
+          <option value="">Solid body (strength from density)</option>
+          {Object.values(IMPACTOR_COMPOSITIONS).map(composition => (
+            <option key={composition.id} value={composition.id} title={composition.description}>
+              {composition.name} ({composition.density_kgm3.toLocaleString('en-US')} kg/m³, {Math.round(composition.porosity * 100)}% porous)
+            </option>
+          ))}
+        </select>
+      </div>
+
       <div className="parameter-group">
         <label className="parameter-label">Impact Velocity (km/s)</label>
         <input 
@@ -373,6 +398,65 @@ export default function ParameterPanel({
         </div>
       </div>
 
+      <div className="parameter-group">
+        <label className="parameter-label">Approach Azimuth (degrees from north)</label>
+        <input 
+          type="range" 
+          min="0" 
+          max="359" 
+          value={parameters.azimuth_deg ?? DEFAULT_AZIMUTH_DEG} 
+          onChange={(e) => updateParameters('azimuth_deg', Number(e.target.value))}
+          className="parameter-slider"
+        />
+        <div className="slider-labels">
+          <span>0°</span>
+          <span>{parameters.azimuth_deg ?? DEFAULT_AZIMUTH_DEG}°</span>
+          <span>359°</span>
+        </div>
+      </div>
+
+      <div className="parameter-group">
+        <label className="parameter-label">Target Material</label>
+        <select
+          value={parameters.target ?? DEFAULT_TARGET_MATERIAL}
+          onChange={(e) => updateParameters('target', e.target.value as TargetMaterial)}
+          className="preset-select"
+          style={{ width: '100%' }}
+        >
+          {Object.values(TARGET_MATERIALS).map(material => (
+            <option key={material.id} value={material.id} title={material.description}>
+              {material.name} ({material.density_kgm3.toLocaleString('en-US')} kg/m³)
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="parameter-group">
+        <label className="parameter-label">Impact Probability (%)</label>
+        <input
+          type="number"
+          min="0"
+          max="100"
+          step="any"
+          value={parameters.impact_probability !== undefined ? parameters.impact_probability * 100 : ''}
+          placeholder="Not predicted"
+          onChange={(e) => updateParameters('impact_probability', e.target.value === '' ? undefined : Math.min(Math.max(Number(e.target.value), 0), 100) / 100)}
+          className="preset-select"
+          style={{ width: '100%' }}
+        />
+      </div>
+
+      <div className="parameter-group">
+        <label className="parameter-label">Impact Date</label>
+        <input
+          type="date"
+          value={parameters.impact_date ?? ''}
+          onChange={(e) => updateParameters('impact_date', e.target.value || undefined)}
+          className="preset-select"
+          style={{ width: '100%' }}
+        />
+      </div>
+
       {/* Preset Selection */}
       <div className="parameter-group">
         <label className="parameter-label">Historic Asteroid Presets</label>
@@ -1,12 +1,18 @@
 import React from 'react';
-import type { SimulationResult, Mission } from '../types';
+import type { SimulationResult, Mission, EffectArrivals } from '../types';
+import { toRomanMmi } from '../lib/seismic';
+import { GLOBAL_EFFECTS_THRESHOLD_MT } from '../lib/climate';
+import { TORINO_DESCRIPTIONS } from '../lib/hazard';
+import ClimateChart from './ClimateChart';
+import EventTimeline, { EFFECT_COLORS } from './EventTimeline';
 
 interface ResultsPanelProps {
   mission: Mission;
   isVisible: boolean;
+  globalEffectsThresholdMt?: number; // hide Global Effects for smaller events
 }
 
-export default function ResultsPanel({ mission, isVisible }: ResultsPanelProps) {
+export default function ResultsPanel({ mission, isVisible, globalEffectsThresholdMt = GLOBAL_EFFECTS_THRESHOLD_MT }: ResultsPanelProps) {
   if (!isVisible || !mission.result) {
     return (
       <div className="results-panel">
@@ -30,6 +36,50 @@ export default function ResultsPanel({ mission, isVisible }: ResultsPanelProps)
     return 'Global extinction';
   };
 
+  const formatArrival = (seconds: number): string => {
+    if (seconds < 60) return `${Math.round(seconds)} s`;
+    const h = Math.floor(seconds / 3600);
+    const m = Math.round((seconds % 3600) / 60);
+    return h > 0 ? `${h} h ${m} min` : `${m} min`;
+  };
+
+  // "Seconds until" summary of a city's arrivals, earliest effect first
+  const formatCityArrivals = (arrivals: EffectArrivals): string =>
+    ([
+      ['Heat', arrivals.thermal_s],
+      ['Shaking', arrivals.seismic_s],
+      ['Blast', arrivals.air_blast_s],
+      ['Ejecta', arrivals.ejecta_s]
+    ] as Array<[string, number | null]>)
+      .filter((entry): entry is [string, number] => entry[1] !== null)
+      .sort((a, b) => a[1] - b[1])
+      .map(([label, seconds]) => `${label} ${seconds < 1 ? 'now' : `in ${formatArrival(seconds)}`}`)
+      .join(' • ');
+
+  const formatLength = (meters: number): string =>
+    meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`;
+
+  const formatMass = (kg: number): string =>
+    kg >= 1000 ? `${(kg / 1000).toLocaleString('en-US', { maximumFractionDigits: 0 })} t` : `${Math.round(kg)} kg`;
+
+  const formatRangeValue = (value: number): string =>
+    value.toLocaleString('en-US', { maximumSignificantDigits: 3 });
+
+  const formatYears = (years: number): string => {
+    if (years >= 1e9) return `${(years / 1e9).toLocaleString('en-US', { maximumSignificantDigits: 2 })} billion years`;
+    if (years >= 1e6) return `${(years / 1e6).toLocaleString('en-US', { maximumSignificantDigits: 2 })} million years`;
+    if (years >= 1) return `${years.toLocaleString('en-US', { maximumSignificantDigits: 2 })} years`;
+    return `${Math.max(Math.round(years * 365.25), 1)} days`;
+  };
+
+  const getTorinoColor = (level: number): string => {
+    if (level === 0) return '#ffffff';
+    if (level === 1) return '#22c55e';
+    if (level <= 4) return '#facc15';
+    if (level <= 7) return '#f97316';
+    return '#ef4444';
+  };
+
   const getSeismicDescription = (magnitude: number): string => {
     if (magnitude < 3) return 'Minor earthquake';
     if (magnitude < 5) return 'Moderate earthquake';
@@ -48,6 +98,17 @@ export default function ResultsPanel({ mission, isVisible }: ResultsPanelProps)
         )}
       </div>
 
+      {result.flags && result.flags.length > 0 && (
+        <div className="result-section">
+          <h3>Model Warnings</h3>
+          <ul className="result-flags">
+            {result.flags.map((flag, index) => (
+              <li key={`${flag.code}-${index}`}>{flag.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="result-section">
         <h3>Impact Energy</h3>
         <div className="metric-grid">
@@ -56,18 +117,123 @@ export default function ResultsPanel({ mission, isVisible }: ResultsPanelProps)
             <div className="metric-label">Megatons TNT Equivalent</div>
           </div>
           <div className="metric">
-            <div className="metric-value">{getImpactLevel(result.crater_km)}</div>
+            <div className="metric-value">{result.is_airburst ? 'Airburst' : getImpactLevel(result.crater_km)}</div>
             <div className="metric-label">Impact Level</div>
           </div>
           {typeof result.population_affected === 'number' && (
             <div className="metric">
               <div className="metric-value">{result.population_affected.toLocaleString('en-US')}</div>
-              <div className="metric-label">Estimated Population Affected</div>
+              <div className="metric-label">
+                Estimated Population Affected
+                {result.population_source && (
+                  <> ({result.population_source.kind === 'grid'
+                    ? `${result.population_source.name} grid, ${result.population_source.resolution_deg}°`
+                    : result.population_source.name})</>
+                )}
+              </div>
             </div>
           )}
         </div>
       </div>
 
+      {/* Recurrence and hazard scales */}
+      {result.hazard && (
+        <div className="result-section">
+          <h3>Impact Hazard</h3>
+          <div className="metric-grid">
+            <div className="metric">
+              <div className="metric-value">Every {formatYears(result.hazard.recurrence_interval_years)}</div>
+              <div className="metric-label">Typical Recurrence (this energy or more)</div>
+            </div>
+            {result.hazard.recurrence_interval_diameter_years !== undefined && (
+              <div className="metric">
+                <div className="metric-value">Every {formatYears(result.hazard.recurrence_interval_diameter_years)}</div>
+                <div className="metric-label">Typical Recurrence (this size or larger)</div>
+              </div>
+            )}
+            <div className="metric">
+              <div className="metric-value">{(result.hazard.annual_probability * 100).toLocaleString('en-US', { maximumSignificantDigits: 2 })}%</div>
+              <div className="metric-label">Chance in Any Given Year</div>
+            </div>
+            {result.hazard.torino_scale !== undefined && (
+              <div className="metric">
+                <div className="metric-value" style={{ color: getTorinoColor(result.hazard.torino_scale) }}>{result.hazard.torino_scale}</div>
+                <div className="metric-label">Torino Scale • {TORINO_DESCRIPTIONS[result.hazard.torino_scale]}</div>
+              </div>
+            )}
+            {result.hazard.palermo_scale !== undefined && (
+              <div className="metric">
+                <div className="metric-value">{result.hazard.palermo_scale.toFixed(2)}</div>
+                <div className="metric-label">Palermo Scale{(result.hazard.years_to_impact ?? 0) > 0 ? ` • ${formatYears(result.hazard.years_to_impact ?? 0)} ahead` : ''}</div>
+              </div>
+            )}
+          </div>
+          {result.hazard.palermo_scale !== undefined && (
+            <div className="scaling-note">
+              <p><strong>Palermo:</strong> Below −2 no concern • −2 to 0 merits monitoring • Above 0 exceeds the background impact risk until that date</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Monte Carlo ranges */}
+      {result.uncertainty && (
+        <div className="result-section">
+          <h3>Uncertainty Ranges</h3>
+          <p className="panel-subtitle">
+            5th–95th percentile over {result.uncertainty.samples.toLocaleString('en-US')} runs (seed {result.uncertainty.seed}); median in brackets
+          </p>
+          <div className="zones-legend">
+            {[
+              { label: 'Energy', range: result.uncertainty.impact_energy_mt, unit: 'Mt' },
+              { label: 'Crater Diameter', range: result.uncertainty.crater_km, unit: 'km' },
+              { label: 'Blast Radius', range: result.uncertainty.blast_radius_km, unit: 'km' },
+              { label: 'Thermal Radius', range: result.uncertainty.thermal_radius_km, unit: 'km' },
+              ...(result.uncertainty.population_affected
+                ? [{ label: 'Population Affected', range: result.uncertainty.population_affected, unit: 'people' }]
+                : [])
+            ].map(({ label, range, unit }) => (
+              <div key={label} className="zone-item">
+                <div className="zone-label">{label}</div>
+                <div className="zone-description">
+                  {formatRangeValue(range.p5)} – {formatRangeValue(range.p95)} {unit} ({formatRangeValue(range.p50)})
+                </div>
+              </div>
+            ))}
+            {Object.entries(result.uncertainty.zone_radii_km)
+              .filter(([, range]) => range.p95 > 0)
+              .map(([key, range]) => (
+                <div key={key} className="zone-item">
+                  <div className="zone-label">{key.replace(/_/g, ' ')}</div>
+                  <div className="zone-description">
+                    {formatRangeValue(range.p5)} – {formatRangeValue(range.p95)} km ({formatRangeValue(range.p50)})
+                  </div>
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+
+      {/* Arrival of each effect */}
+      {result.timeline && result.timeline.length > 0 && (
+        <div className="result-section">
+          <h3>Event Timeline</h3>
+          <EventTimeline events={result.timeline} />
+          <div className="zones-list">
+            {result.timeline.map((event, index) => (
+              <div key={`${event.effect}-${index}`} className="zone-item">
+                <div className="zone-color" style={{ backgroundColor: EFFECT_COLORS[event.effect] }}></div>
+                <div className="zone-label">{event.label}</div>
+                <div className="zone-description">
+                  {event.distance_km > 0 ? `Reaches ${event.distance_km.toFixed(1)} km after ${formatArrival(event.arrival_s)}` : 'At impact'}
+                  {event.duration_s ? ` • lasts ${formatArrival(event.duration_s)}` : ''}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Top Affected Cities */}
       {result.affectedCities && result.affectedCities.length > 0 && (
         <div className="result-section">
@@ -86,6 +252,12 @@ export default function ResultsPanel({ mission, isVisible }: ResultsPanelProps)
                   {city.zones && city.zones.length > 0 && (
                     <div className="city-zones">Zones: {city.zones.join(', ')}</div>
                   )}
+                  {typeof city.mmi === 'number' && (
+                    <div className="city-zones">Shaking: MMI {toRomanMmi(city.mmi)}</div>
+                  )}
+                  {city.arrivals && (
+                    <div className="city-zones">{formatCityArrivals(city.arrivals)}</div>
+                  )}
                 </div>
               </div>
             ))}
@@ -97,13 +269,35 @@ export default function ResultsPanel({ mission, isVisible }: ResultsPanelProps)
       <div className="result-section">
         <h3>Physical Effects</h3>
         <div className="effects-grid">
-          <div className="effect-item">
-            <div className="effect-icon crater">●</div>
-            <div className="effect-details">
-              <div className="effect-name">Crater</div>
-              <div className="effect-value">{result.crater_km.toFixed(1)} km diameter</div>
+          {result.is_airburst ? (
+            <div className="effect-item">
+              <div className="effect-icon crater">●</div>
+              <div className="effect-details">
+                <div className="effect-name">Airburst</div>
+                <div className="effect-value">{((result.burst_altitude_m ?? 0) / 1000).toFixed(1)} km altitude • no crater</div>
+              </div>
             </div>
-          </div>
+          ) : (
+            <div className="effect-item">
+              <div className="effect-icon crater">●</div>
+              <div className="effect-details">
+                <div className="effect-name">Crater</div>
+                <div className="effect-value">{result.crater_km.toFixed(1)} km diameter</div>
+              </div>
+            </div>
+          )}
+          {typeof result.surface_energy_mt === 'number' && (
+            <div className="effect-item">
+              <div className="effect-icon crater">●</div>
+              <div className="effect-details">
+                <div className="effect-name">Energy at Surface</div>
+                <div className="effect-value">
+                  {result.surface_energy_mt.toLocaleString('en-US', { maximumFractionDigits: 2 })} Mt
+                  {typeof result.surface_velocity_kms === 'number' ? ` • ${result.surface_velocity_kms.toFixed(1)} km/s` : ''}
+                </div>
+              </div>
+            </div>
+          )}
           <div className="effect-item">
             <div className="effect-icon blast">●</div>
             <div className="effect-details">
@@ -115,7 +309,10 @@ export default function ResultsPanel({ mission, isVisible }: ResultsPanelProps)
             <div className="effect-icon thermal">●</div>
             <div className="effect-details">
               <div className="effect-name">Thermal Radius</div>
-              <div className="effect-value">{result.thermal_radius_km.toFixed(1)} km</div>
+              <div className="effect-value">
+                {result.thermal_radius_km.toFixed(1)} km
+                {result.fireball_radius_m ? ` • fireball ${(result.fireball_radius_m / 1000).toFixed(1)} km` : ''}
+              </div>
             </div>
           </div>
           <div className="effect-item">
@@ -128,28 +325,179 @@ export default function ResultsPanel({ mission, isVisible }: ResultsPanelProps)
         </div>
       </div>
 
+      {/* Crater Breakdown */}
+      {result.crater_details && (
+        <div className="result-section">
+          <h3>Crater Breakdown</h3>
+          <div className="metric-grid">
+            <div className="metric">
+              <div className="metric-value">{result.crater_details.morphology === 'complex' ? 'Complex' : 'Simple'}</div>
+              <div className="metric-label">Morphology</div>
+            </div>
+            <div className="metric">
+              <div className="metric-value">{formatLength(result.crater_details.transient_diameter_m)}</div>
+              <div className="metric-label">Transient Diameter</div>
+            </div>
+            <div className="metric">
+              <div className="metric-value">{formatLength(result.crater_details.final_diameter_m)}</div>
+              <div className="metric-label">Final Rim Diameter</div>
+            </div>
+            <div className="metric">
+              <div className="metric-value">{formatLength(result.crater_details.final_depth_m)}</div>
+              <div className="metric-label">Final Depth</div>
+            </div>
+            {result.crater_details.morphology === 'simple' && (
+              <div className="metric">
+                <div className="metric-value">{formatLength(result.crater_details.breccia_thickness_m)}</div>
+                <div className="metric-label">Breccia Lens Thickness</div>
+              </div>
+            )}
+            <div className="metric">
+              <div className="metric-value">{(result.crater_details.melt_volume_m3 / 1e9).toLocaleString('en-US', { maximumSignificantDigits: 3 })} km³</div>
+              <div className="metric-label">Impact Melt Volume</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Meteorite Strewn Field */}
+      {result.strewn_field && (
+        <div className="result-section">
+          <h3>Meteorite Strewn Field</h3>
+          <p className="panel-subtitle">
+            {formatMass(result.strewn_field.total_mass_kg)} in about {Math.round(result.strewn_field.fragment_count).toLocaleString('en-US')} meteorites
+            over a {(result.strewn_field.semi_major_km * 2).toFixed(1)} × {(result.strewn_field.semi_minor_km * 2).toFixed(1)} km ellipse
+          </p>
+          <div className="zones-legend">
+            {result.strewn_field.bins.map(bin => (
+              <div key={bin.label} className="zone-item">
+                <div className="zone-color strewn"></div>
+                <div className="zone-label">{bin.label} • {Math.round(bin.count).toLocaleString('en-US')} pieces</div>
+                <div className="zone-description">
+                  {formatMass(bin.total_mass_kg)} • centred {Math.abs(bin.downrange_km).toFixed(1)} km {bin.downrange_km >= 0 ? 'downrange' : 'uprange'} • {(bin.semi_major_km * 2).toFixed(1)} × {(bin.semi_minor_km * 2).toFixed(1)} km
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Ocean Impact */}
+      {(result.target_surface === 'shallow_sea' || result.target_surface === 'deep_ocean') && !result.is_airburst && (
+        <div className="result-section">
+          <h3>Ocean Impact</h3>
+          <div className="effects-grid">
+            <div className="effect-item">
+              <div className="effect-icon seismic">●</div>
+              <div className="effect-details">
+                <div className="effect-name">Water Depth</div>
+                <div className="effect-value">{(result.water_depth_m ?? 0).toLocaleString('en-US')} m • {result.target_surface === 'deep_ocean' ? 'Deep ocean' : 'Shallow sea'}</div>
+              </div>
+            </div>
+            <div className="effect-item">
+              <div className="effect-icon crater">●</div>
+              <div className="effect-details">
+                <div className="effect-name">Water Cavity</div>
+                <div className="effect-value">{((result.water_cavity_diameter_m ?? 0) / 1000).toFixed(1)} km wide • {((result.water_cavity_depth_m ?? 0) / 1000).toFixed(1)} km deep</div>
+              </div>
+            </div>
+            <div className="effect-item">
+              <div className="effect-icon crater">●</div>
+              <div className="effect-details">
+                <div className="effect-name">Seafloor Crater</div>
+                <div className="effect-value">{result.seafloor_crater_m ? `${(result.seafloor_crater_m / 1000).toFixed(1)} km diameter` : 'None (water too deep)'}</div>
+              </div>
+            </div>
+            <div className="effect-item">
+              <div className="effect-icon blast">●</div>
+              <div className="effect-details">
+                <div className="effect-name">Initial Tsunami Amplitude</div>
+                <div className="effect-value">{(result.tsunami_amplitude_m ?? 0).toFixed(0)} m</div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Tsunami Arrivals */}
+      {result.tsunami_arrivals && result.tsunami_arrivals.length > 0 && (
+        <div className="result-section">
+          <h3>Tsunami Arrivals</h3>
+          <div className="cities-list">
+            {result.tsunami_arrivals.slice(0, 15).map((city, index) => (
+              <div key={`${city.name}-${index}`} className="city-item">
+                <div className="city-rank">{formatArrival(city.arrival_s)}</div>
+                <div className="city-details">
+                  <div className="city-name">{city.name}</div>
+                  <div className="city-country">{city.country}</div>
+                </div>
+                <div className="city-stats">
+                  <div className="city-population">{city.runup_m.toFixed(1)} m run-up</div>
+                  <div className="city-distance">{city.distance_km.toFixed(0)} km away</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Damage Zones Legend */}
       <div className="result-section">
         <h3>Damage Zones</h3>
         <div className="zones-legend">
-          <div className="zone-item">
-            <div className="zone-color crater"></div>
-            <div className="zone-label">Crater Zone</div>
-            <div className="zone-description">{(result.crater_km / 2).toFixed(1)} km radius • {result.crater_km.toFixed(1)} km diameter</div>
-          </div>
-          <div className="zone-item">
-            <div className="zone-color blast"></div>
-            <div className="zone-label">Blast Zone</div>
-            <div className="zone-description">{result.blast_radius_km.toFixed(1)} km radius • {(result.blast_radius_km * 2).toFixed(1)} km diameter</div>
-          </div>
-          <div className="zone-item">
-            <div className="zone-color thermal"></div>
-            <div className="zone-label">Thermal Radiation Zone</div>
-            <div className="zone-description">{result.thermal_radius_km.toFixed(1)} km radius • {(result.thermal_radius_km * 2).toFixed(1)} km diameter</div>
-          </div>
+          {!result.is_airburst && (
+            <div className="zone-item">
+              <div className="zone-color crater"></div>
+              <div className="zone-label">Crater Zone</div>
+              <div className="zone-description">{(result.crater_km / 2).toFixed(1)} km radius • {result.crater_km.toFixed(1)} km diameter</div>
+            </div>
+          )}
+          {result.ejecta_zones && result.ejecta_zones.filter(zone => zone.radius_km > 0).map(zone => (
+            <div key={zone.key} className="zone-item">
+              <div className="zone-color ejecta"></div>
+              <div className="zone-label">Ejecta • {zone.label}</div>
+              <div className="zone-description">
+                {zone.radius_km.toFixed(1)} km from centre • fragments ~{zone.fragment_size_m >= 1 ? `${zone.fragment_size_m.toFixed(1)} m` : `${(zone.fragment_size_m * 100).toFixed(1)} cm`}
+              </div>
+            </div>
+          ))}
+          {result.blast_rings && result.blast_rings.length > 0 ? (
+            result.blast_rings.map(ring => (
+              <div key={ring.overpressure_psi} className="zone-item">
+                <div className="zone-color blast"></div>
+                <div className="zone-label">Blast {ring.overpressure_psi} psi • {ring.label}</div>
+                <div className="zone-description">
+                  {ring.radius_km > 0 ? `${ring.radius_km.toFixed(1)} km radius` : 'Not reached at ground level'} • winds {Math.round(ring.peak_wind_mps * 3.6).toLocaleString('en-US')} km/h
+                </div>
+              </div>
+            ))
+          ) : (
+            <div className="zone-item">
+              <div className="zone-color blast"></div>
+              <div className="zone-label">Blast Zone</div>
+              <div className="zone-description">{result.blast_radius_km.toFixed(1)} km radius • {(result.blast_radius_km * 2).toFixed(1)} km diameter</div>
+            </div>
+          )}
+          {result.thermal_zones && result.thermal_zones.length > 0 ? (
+            result.thermal_zones.map(zone => (
+              <div key={zone.key} className="zone-item">
+                <div className="zone-color thermal"></div>
+                <div className="zone-label">Thermal • {zone.label}</div>
+                <div className="zone-description">
+                  {zone.radius_km > 0 ? `${zone.radius_km.toFixed(1)} km radius` : 'Not reached at ground level'} • {(zone.fluence_jm2 / 1e6).toFixed(2)} MJ/m²
+                </div>
+              </div>
+            ))
+          ) : (
+            <div className="zone-item">
+              <div className="zone-color thermal"></div>
+              <div className="zone-label">Thermal Radiation Zone</div>
+              <div className="zone-description">{result.thermal_radius_km.toFixed(1)} km radius • {(result.thermal_radius_km * 2).toFixed(1)} km diameter</div>
+            </div>
+          )}
         </div>
         <div className="scaling-note">
-          <p><strong>Scaling:</strong> Blast radius = 3× crater radius • Thermal radius = 1.8× crater radius</p>
+          <p><strong>Scaling:</strong> Blast rings from overpressure yield scaling (1, 5 and 20 psi) • Thermal zones from fireball fluence, limited by the horizon</p>
           <p><strong>Note:</strong> All radii are capped at Earth's radius (6,371 km) for realism.</p>
         </div>
       </div>
@@ -166,8 +514,50 @@ export default function ResultsPanel({ mission, isVisible }: ResultsPanelProps)
             {getSeismicDescription(result.seismic_magnitude)}
           </div>
         </div>
+        {result.mmi_rings && result.mmi_rings.some(ring => ring.radius_km > 0) && (
+          <div className="zones-legend">
+            {result.mmi_rings.filter(ring => ring.radius_km > 0).map(ring => (
+              <div key={ring.mmi} className="zone-item">
+                <div className="zone-color seismic"></div>
+                <div className="zone-label">MMI {ring.roman} • {ring.label}</div>
+                <div className="zone-description">
+                  {ring.radius_km.toFixed(1)} km radius • waves arrive in {formatArrival(ring.arrival_s)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
+      {/* Global Effects */}
+      {result.climate && energyMegatons >= globalEffectsThresholdMt && (
+        <div className="result-section">
+          <h3>Global Effects</h3>
+          <div className="metric-grid">
+            <div className="metric">
+              <div className="metric-value">{formatMass(result.climate.dust_mass_kg)} • {formatMass(result.climate.soot_mass_kg)}</div>
+              <div className="metric-label">Stratospheric Dust • Soot</div>
+            </div>
+            <div className="metric">
+              <div className="metric-value">{(result.climate.min_sunlight_fraction * 100).toLocaleString('en-US', { maximumSignificantDigits: 2 })}%</div>
+              <div className="metric-label">Lowest Sunlight (of normal)</div>
+            </div>
+            <div className="metric">
+              <div className="metric-value">−{result.climate.peak_cooling_k.toFixed(1)} K</div>
+              <div className="metric-label">Peak Global Cooling</div>
+            </div>
+            <div className="metric">
+              <div className="metric-value">{result.climate.growing_season_loss_months.toFixed(1)} months</div>
+              <div className="metric-label">Growing Season Lost</div>
+            </div>
+          </div>
+          <ClimateChart months={result.climate.months} />
+          <div className="scaling-note">
+            <p><strong>Chart:</strong> Bars show monthly sunlight, darker where more of the growing season is lost • The line shows the global mean temperature anomaly</p>
+          </div>
+        </div>
+      )}
+
       {/* Population Totals by Zone */}
       {(typeof result.crater_population_total === 'number' || typeof result.blast_population_total === 'number' || typeof result.thermal_population_total === 'number') && (
         <div className="result-section">
@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import type { ImpactParameters, SimulationResult, UncertainParameter } from '../types';
+import { runSweep1D, runSweep2D, tornadoSensitivity, SWEEP_OUTPUTS, DEFAULT_SWEEP_STEPS, DEFAULT_TORNADO_SWING } from '../lib/sweep';
+import type { Sweep1D, Sweep2D, SweepOutput, SweepRange, TornadoSensitivity } from '../lib/sweep';
+import { toCityFeatures, affectedPopulation } from '../lib/impact';
+import { estimatePopulation } from '../lib/models';
+import { preloadCities, getLoadedCities } from '../utils/geocoding';
+import { preloadPopulationGrid } from '../lib/population';
+
+interface SweepPanelProps {
+  parameters: ImpactParameters;
+  lat?: number;
+  lng?: number;
+}
+
+const PARAMETER_LABELS: Record<UncertainParameter, { label: string; unit: string }> = {
+  diameter_m: { label: 'Diameter', unit: 'm' },
+  density_kgm3: { label: 'Density', unit: 'kg/m³' },
+  velocity_kms: { label: 'Velocity', unit: 'km/s' },
+  angle_deg: { label: 'Angle', unit: '°' }
+};
+
+const CHART = { width: 360, height: 200 };
+const PADDING = { top: 12, right: 12, bottom: 28, left: 52 };
+const HEAT_COLORS: Array<[number, number, number]> = [[30, 58, 138], [124, 58, 237], [239, 68, 68], [250, 204, 21]];
+
+const inputClass = 'bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClass = 'px-3 py-2 rounded bg-gray-900/80 hover:bg-gray-900 border border-gray-700 text-sm font-medium text-white transition-colors';
+
+// A decade either side of the current diameter; the physical span for the rest
+function defaultRange(parameter: UncertainParameter, params: ImpactParameters): SweepRange {
+  switch (parameter) {
+    case 'diameter_m':
+      return { parameter, min: params.diameter_m / 10, max: params.diameter_m * 10, log: true };
+    case 'density_kgm3':
+      return { parameter, min: 1000, max: 8000 };
+    case 'velocity_kms':
+      return { parameter, min: 11, max: 72 };
+    case 'angle_deg':
+      return { parameter, min: 5, max: 90 };
+  }
+}
+
+const formatValue = (value: number) => value.toLocaleString('en-US', { maximumSignificantDigits: 3 });
+
+// Values spanning more than two decades are shown on a log scale
+function scaleFor(values: number[], forceLog = false): { position: (value: number) => number; log: boolean } {
+  const finite = values.filter(Number.isFinite);
+  const min = Math.min(...finite);
+  const max = Math.max(...finite);
+  const log = min > 0 && (forceLog || max / min > 100);
+  const [lo, hi] = log ? [Math.log10(min), Math.log10(max)] : [min, max];
+  const span = hi - lo || 1;
+  return { position: value => ((log ? Math.log10(Math.max(value, min)) : value) - lo) / span, log };
+}
+
+function heatColor(t: number): string {
+  const scaled = Math.min(Math.max(t, 0), 1) * (HEAT_COLORS.length - 1);
+  const i = Math.min(Math.floor(scaled), HEAT_COLORS.length - 2);
+  const f = scaled - i;
+  const [a, b] = [HEAT_COLORS[i], HEAT_COLORS[i + 1]];
+  return `rgb(${a.map((c, k) => Math.round(c + (b[k] - c) * f)).join(',')})`;
+}
+
+// One output against the swept input
+function LineChart({ sweep, output }: { sweep: Sweep1D; output: SweepOutput }) {
+  const ys = sweep.outputs[output] ?? [];
+  if (ys.length === 0) return null;
+  const plotWidth = CHART.width - PADDING.left - PADDING.right;
+  const plotHeight = CHART.height - PADDING.top - PADDING.bottom;
+  const xScale = scaleFor(sweep.values, sweep.range.log);
+  const yScale = scaleFor(ys);
+  const path = sweep.values
+    .map((x, i) => `${i === 0 ? 'M' : 'L'}${(PADDING.left + xScale.position(x) * plotWidth).toFixed(1)},${(PADDING.top + (1 - yScale.position(ys[i])) * plotHeight).toFixed(1)}`)
+    .join(' ');
+  const { label, unit } = PARAMETER_LABELS[sweep.range.parameter];
+
+  return (
+    <svg width={CHART.width} height={CHART.height} viewBox={`0 0 ${CHART.width} ${CHART.height}`} role="img" aria-label={`${SWEEP_OUTPUTS[output].label} against ${label.toLowerCase()}`}>
+      <path d={path} fill="none" stroke="#60a5fa" strokeWidth={2} />
+      <line x1={PADDING.left} y1={PADDING.top + plotHeight} x2={PADDING.left + plotWidth} y2={PADDING.top + plotHeight} stroke="#6b7280" />
+      <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={PADDING.top + plotHeight} stroke="#6b7280" />
+      <text x={4} y={PADDING.top + 8} fill="#9ca3af" fontSize={10}>{formatValue(Math.max(...ys))}</text>
+      <text x={4} y={PADDING.top + plotHeight} fill="#9ca3af" fontSize={10}>{formatValue(Math.min(...ys))}</text>
+      <text x={PADDING.left} y={CHART.height - 6} fill="#9ca3af" fontSize={10}>{formatValue(sweep.values[0])}</text>
+      <text x={PADDING.left + plotWidth} y={CHART.height - 6} fill="#9ca3af" fontSize={10} textAnchor="end">{formatValue(sweep.values[sweep.values.length - 1])}</text>
+      <text x={PADDING.left + plotWidth / 2} y={CHART.height - 6} fill="#9ca3af" fontSize={10} textAnchor="middle">
+        {label} ({unit}){xScale.log ? ', log' : ''}
+      </text>
+    </svg>
+  );
+}
+
+// One output over two swept inputs
+function HeatMap({ sweep, output }: { sweep: Sweep2D; output: SweepOutput }) {
+  const grid = sweep.outputs[output] ?? [];
+  if (grid.length === 0) return null;
+  const plotWidth = CHART.width - PADDING.left - PADDING.right;
+  const plotHeight = CHART.height - PADDING.top - PADDING.bottom;
+  const cellWidth = plotWidth / sweep.xValues.length;
+  const cellHeight = plotHeight / sweep.yValues.length;
+  const values = grid.flat();
+  const scale = scaleFor(values);
+  const x = PARAMETER_LABELS[sweep.x.parameter];
+  const y = PARAMETER_LABELS[sweep.y.parameter];
+
+  return (
+    <svg width={CHART.width} height={CHART.height} viewBox={`0 0 ${CHART.width} ${CHART.height}`} role="img" aria-label={`${SWEEP_OUTPUTS[output].label} over ${x.label.toLowerCase()} and ${y.label.toLowerCase()}`}>
+      {grid.map((row, j) => row.map((value, i) => (
+        <rect
+          key={`${i}-${j}`}
+          x={PADDING.left + i * cellWidth}
+          y={PADDING.top + (sweep.yValues.length - 1 - j) * cellHeight}
+          width={cellWidth + 0.5}
+          height={cellHeight + 0.5}
+          fill={heatColor(scale.position(value))}
+        >
+          <title>{`${x.label} ${formatValue(sweep.xValues[i])} ${x.unit}, ${y.label} ${formatValue(sweep.yValues[j])} ${y.unit}: ${formatValue(value)} ${SWEEP_OUTPUTS[output].unit}`}</title>
+        </rect>
+      )))}
+      <text x={4} y={PADDING.top + 8} fill="#9ca3af" fontSize={10}>{formatValue(sweep.yValues[sweep.yValues.length - 1])}</text>
+      <text x={4} y={PADDING.top + plotHeight} fill="#9ca3af" fontSize={10}>{formatValue(sweep.yValues[0])}</text>
+      <text x={PADDING.left} y={CHART.height - 6} fill="#9ca3af" fontSize={10}>{formatValue(sweep.xValues[0])}</text>
+      <text x={PADDING.left + plotWidth} y={CHART.height - 6} fill="#9ca3af" fontSize={10} textAnchor="end">{formatValue(sweep.xValues[sweep.xValues.length - 1])}</text>
+      <text x={PADDING.left + plotWidth / 2} y={CHART.height - 6} fill="#9ca3af" fontSize={10} textAnchor="middle">{x.label} ({x.unit}) × {y.label} ({y.unit})</text>
+    </svg>
+  );
+}
+
+// Output range as each input swings alone, widest bar on top
+function TornadoChart({ tornado }: { tornado: TornadoSensitivity }) {
+  const barHeight = 22;
+  const height = PADDING.top + tornado.bars.length * barHeight + PADDING.bottom;
+  const plotWidth = CHART.width - 80 - PADDING.right;
+  const extent = Math.max(...tornado.bars.flatMap(b => [Math.abs(b.low - tornado.nominal), Math.abs(b.high - tornado.nominal)])) || 1;
+  const xAt = (value: number) => 80 + plotWidth / 2 + ((value - tornado.nominal) / extent) * (plotWidth / 2);
+
+  return (
+    <svg width={CHART.width} height={height} viewBox={`0 0 ${CHART.width} ${height}`} role="img" aria-label={`Sensitivity of ${SWEEP_OUTPUTS[tornado.output].label.toLowerCase()}`}>
+      {tornado.bars.map((bar, i) => {
+        const y = PADDING.top + i * barHeight;
+        return (
+          <g key={bar.parameter}>
+            <text x={4} y={y + barHeight / 2 + 3} fill="#d1d5db" fontSize={11}>{PARAMETER_LABELS[bar.parameter].label}</text>
+            <rect x={Math.min(xAt(bar.low), xAt(tornado.nominal))} y={y + 3} width={Math.abs(xAt(bar.low) - xAt(tornado.nominal))} height={barHeight - 6} fill="#60a5fa" />
+            <rect x={Math.min(xAt(bar.high), xAt(tornado.nominal))} y={y + 3} width={Math.abs(xAt(bar.high) - xAt(tornado.nominal))} height={barHeight - 6} fill="#f87171" />
+          </g>
+        );
+      })}
+      <line x1={xAt(tornado.nominal)} y1={PADDING.top} x2={xAt(tornado.nominal)} y2={height - PADDING.bottom} stroke="#9ca3af" />
+      <text x={xAt(tornado.nominal)} y={height - 8} fill="#9ca3af" fontSize={10} textAnchor="middle">
+        {formatValue(tornado.nominal)} {SWEEP_OUTPUTS[tornado.output].unit}
+      </text>
+    </svg>
+  );
+}
+
+function RangeInputs({ range, onChange }: { range: SweepRange; onChange: (next: SweepRange) => void }) {
+  return (
+    <div className="grid grid-cols-3 gap-2 items-center">
+      <select
+        value={range.parameter}
+        onChange={(e) => onChange({ ...range, parameter: e.target.value as UncertainParameter })}
+        className={inputClass}
+      >
+        {(Object.keys(PARAMETER_LABELS) as UncertainParameter[]).map(key => (
+          <option key={key} value={key}>{PARAMETER_LABELS[key].label}</option>
+        ))}
+      </select>
+      <input type="number" value={range.min} onChange={(e) => onChange({ ...range, min: Number(e.target.value) })} className={inputClass} title={`From (${PARAMETER_LABELS[range.parameter].unit})`} />
+      <input type="number" value={range.max} onChange={(e) => onChange({ ...range, max: Number(e.target.value) })} className={inputClass} title={`To (${PARAMETER_LABELS[range.parameter].unit})`} />
+    </div>
+  );
+}
+
+// Sweeps of one or two inputs and a tornado ranking around the current parameters
+export default function SweepPanel({ parameters, lat = 0, lng = 0 }: SweepPanelProps) {
+  const [twoD, setTwoD] = useState(false);
+  const [xRange, setXRange] = useState<SweepRange>(() => defaultRange('diameter_m', parameters));
+  const [yRange, setYRange] = useState<SweepRange>(() => defaultRange('velocity_kms', parameters));
+  const [steps, setSteps] = useState(DEFAULT_SWEEP_STEPS);
+  const [output, setOutput] = useState<SweepOutput>('crater_km');
+  const [sweep1D, setSweep1D] = useState<Sweep1D | null>(null);
+  const [sweep2D, setSweep2D] = useState<Sweep2D | null>(null);
+  const [tornado, setTornado] = useState<TornadoSensitivity | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const base = { ...parameters, lat, lng };
+
+  const populationOptions = async () => {
+    if (output !== 'population_affected') return {};
+    await Promise.all([preloadCities(), preloadPopulationGrid()]);
+    const cities = toCityFeatures(getLoadedCities());
+    return { populationOf: (res: SimulationResult) => affectedPopulation(estimatePopulation(cities, res)) };
+  };
+
+  const runSweep = async () => {
+    setIsRunning(true);
+    try {
+      const options = await populationOptions();
+      if (twoD) {
+        setSweep2D(runSweep2D(base, { ...xRange, steps }, { ...yRange, steps }, options));
+      } else {
+        setSweep1D(runSweep1D(base, { ...xRange, steps }, options));
+      }
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const rankSensitivity = async () => {
+    setIsRunning(true);
+    try {
+      setTornado(tornadoSensitivity(base, output, DEFAULT_TORNADO_SWING, await populationOptions()));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-400">
+        Steps one or two inputs over a range at the selected location, holding the rest at their current values.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        <select value={output} onChange={(e) => setOutput(e.target.value as SweepOutput)} className={inputClass}>
+          {(Object.keys(SWEEP_OUTPUTS) as SweepOutput[]).map(key => (
+            <option key={key} value={key}>{SWEEP_OUTPUTS[key].label} ({SWEEP_OUTPUTS[key].unit})</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={twoD} onChange={(e) => setTwoD(e.target.checked)} />
+          Two inputs (heat map)
+        </label>
+      </div>
+      <RangeInputs range={xRange} onChange={next => setXRange(next.parameter === xRange.parameter ? next : defaultRange(next.parameter, parameters))} />
+      {twoD && (
+        <RangeInputs range={yRange} onChange={next => setYRange(next.parameter === yRange.parameter ? next : defaultRange(next.parameter, parameters))} />
+      )}
+      <label className="grid grid-cols-2 gap-2 items-center text-sm text-gray-300">
+        Steps per input
+        <input
+          type="number"
+          min={2}
+          max={twoD ? 30 : 100}
+          value={steps}
+          onChange={(e) => setSteps(Math.min(Math.max(Math.round(Number(e.target.value)), 2), twoD ? 30 : 100))}
+          className={inputClass}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={runSweep} disabled={isRunning} className={buttonClass}>Run Sweep</button>
+        <button onClick={rankSensitivity} disabled={isRunning} className={buttonClass}>Rank Sensitivity</button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {!twoD && sweep1D && <LineChart sweep={sweep1D} output={output} />}
+      {twoD && sweep2D && <HeatMap sweep={sweep2D} output={output} />}
+      {tornado && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-400">
+            {SWEEP_OUTPUTS[tornado.output].label} with each input ±{Math.round(DEFAULT_TORNADO_SWING * 100)}% (blue low, red high)
+          </p>
+          <TornadoChart tornado={tornado} />
+        </div>
+      )}
+    </div>
+  );
+}
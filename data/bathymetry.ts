@@ -0,0 +1,116 @@
+// Coarse global land / bathymetry mask used to classify impact targets and to
+// estimate ocean depth for water impacts and tsunami wave speed.
+//
+// 2° × 2° cells, rows run north → south starting at 90°N, columns run
+// west → east starting at 180°W. Each character is one cell:
+//   '#' land, '*' ice sheet, 'a'–'g' ocean depth classes (see BATHYMETRY_DEPTH_M).
+// Shelf seas follow the major continental shelves; elsewhere depth increases
+// with distance from the nearest coast. Values are cell means, not soundings.
+
+export const BATHYMETRY_RESOLUTION_DEG = 2;
+
+export const BATHYMETRY_DEPTH_M: Record<string, number> = {
+  a: 50,
+  b: 150,
+  c: 500,
+  d: 1500,
+  e: 3000,
+  f: 4000,
+  g: 5000
+};
+
+export const LAND_CELL = '#';
+export const ICE_CELL = '*';
+
+export const BATHYMETRY_ROWS: string[] = [
+  'eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee', // 90°
+  'eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee', // 88°
+  'eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeecccccccccceeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee', // 86°
+  'eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeecccccccccccccccccccccccccc********ccccccceeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee', // 84°
+  'eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeecccc###############************************ceeeeeeeeeeeeeccccccccceeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee', // 82°
+  'fffffffffffffffffffffffffeeeeeedccccccc################**************************cdefffgggfffedc*******cdeffffffffeedaaaaaabfffbbbbbbaaaaaaaaaaaaaaabbbbbfffffffffffffffffffffffffff', // 80°
+  'ffffffffeeeeeeeefffffffffeddddddc##################ccccc************************ccdefffffffffedcc***aaaaabbfffffffbaaaaaaaabbbbbaaaaaaaaaaaaa##aaaaaaaaabbbbbbbbbbbbbbbbbfffffffffff', // 78°
+  'eeeffeeeeddddddeeeeeeeeeeedcccccccccccccccc###ccccccdddcccccc*******************cddefffffffffeddccccaaaaaabbbbbfffbaaa###aaaaaaaaaaaaaa###########aaaaaaaaaaaaaaaaaaaaaabbbbbbbbbbbb', // 76°
+  'aabbbbaaaaaaccdddddddddddddc###########cddcccccc###ccccdddddcc******************cdeefffffffffeedddddaaaaaaaaaabbbbbaa###aaaaaaaaaa####################aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', // 74°
+  'aaaaaaaaaaa##cccccccccccccccc##########cdddddc########cccddddc*****************ccdeeeeffffffeeeddcccaaa#aaaaaaaaaaaaaaaaaaaa##a#######################################aaaaaaaaaaaaaa', // 72°
+  'aaaaaaaa###############################cccccdccccc######cccddcc*************ccccdddddefffffeedddcc##########aaaaaaaaaaaaaaa#########################################################', // 70°
+  '###aaa#####################################cdddddcc#######cdddc**********cccccccccccdeffffeeddccc#############cc####################################################################', // 68°
+  'aa##aaaa###################################aabbbaaaa######cdedcc******ccccdddc#####cdeffffeddcc#####cc######ccc#####################################################################', // 66°
+  'aaaaaaaa###################################aabbbbaaacc###ccdeddcc****ccddddedcccccccdeeeeeedcc#####aa##############################################################################a', // 64°
+  'aaaaaaaa###################################aaabbbaa####ccccddeddcc***cddeeeeddddddddddddaaaaa######aa###################################################################cc######aaaa', // 62°
+  'abbbbbaaaa####ccccccc######################aaaaaaaa#######ccddeddcccccdeeffeeeeeeeeeedccaaaaa######aaa###########################################################cccccccc###cccaaaaa', // 60°
+  'bbfffbaaaa##cccdddddccc#####################aaaaaaa########ccddedddddddeffffffffffedddc##aaaaa#a##aaa###########################################################ccdddddc###ccdddddee', // 58°
+  'fffffeeedccccdddeeedddcc########################aaa#########ccdeeeeeeeeeffffffffffedcccc#aaaaa#aaaaa###########################################################ccccdeedc###cddeeeeef', // 56°
+  'fffffffeddddddeeefeeeddcc########################aa##########cdeffffffffffffffffffedc##c##aaa###################################################################c#cdeedc##ccdeefffff', // 54°
+  'fffffffeeeeeeeefffffeeddcc###################################cdefffffffffffggggfffedcccc##a#####################################################################c#cdeedccccddeffffff', // 52°
+  'fffffffffffffffffffffeeddccc##############################ccccdefffffffffffggggfffeddddccc######################################################################c#cdeeddddddeeffffff', // 50°
+  'ggggffffffffffffffffffeedddc#############################ccdaaabfffggggggggggggfffeeddddc######################################################################cc#cdeeeeeeeeefffffgg', // 48°
+  'ggggfffffffffffffffffffeeedc##############################cdbbbbfffggggggggggggfffeddcccc################aaaa#####aa##########################################cccccdeffffffffffffggg', // 46°
+  'ggggggggggggggggggfffffffedc###########################ccccdbffffffggggggggggggfffedcc######ccc##c######aaaaaa####aa########################################cccc##cdeffffffffffffggg', // 44°
+  'gggggggggggggggggggffffffedc##########################ccddddeffffffggggggggggggfffedc######ccdccc##c##############aa#######################################ccddc#ccdefffffffffffgggg', // 42°
+  'ggggggggggggggggggggfffffedc#########################ccddeeeeffffffggggggggggfffffedc#####cccccccc#c##c############aa################################aaa##ccddcc#cddefffgggggggggggg', // 40°
+  'ggggggggggggggggggggggfffedcc#######################ccddeeffffffgggggggggggggfffffedccc##cccc##cdccccccc###########c##################################aaa##cccc#ccdeefffgggggggggggg', // 38°
+  'ggggggggggggggggggggggfffeddcc######################cddeefffffffggggggggggggffffffeddcc########ccddddddccccc##########################################aaa#cc####cddeffffgggggggggggg', // 36°
+  'ggggggggggggggggggggggfffeeddcc###################cccdeeffffffffggggggggggggffffeeedcc##########cccccccccccc##########################################aaacc#cccccdeeffffgggggggggggg', // 34°
+  'ggggggggggggggggggggggffffeeddcc#c################cdddeffffffgggggggggggggggffffedddc#############cc####c#c############################################aadcccdddddefffffgggggggggggg', // 32°
+  'ggggggggggggggggggggggfffffeeddc#c#########aaaaa##cdeeeffffffggggggggggggggffffeedccc#####################c#######a####################################aadddddeeeeeffffggggggggggggg', // 30°
+  'ggggggggggggggggggggggffffffeedcc#c######aaaaaaaa#cdeeeffffffggggggggggggggffffeddc########################c#######aa#################################ccdeeeeeeffffffffggggggggggggg', // 28°
+  'gggggggggggggggggggggggffffffeddcc#c#####cdddddaaacdddeeeefffggggggggggggggffffedcc########################cc#######a#ccccc##########################ccddeffffffffffffgggggggggggggg', // 26°
+  'ggggggggggggggggggggggggfffffeeddcccc####cdaaaaddccccddddefffggggggggggggggfffeedc##########################c###########cdcc########################ccddeeffffffffffffgggggggggggggg', // 24°
+  'gggggggggggggggggggggggggfffffeeddddc####ccaa#addc##ccccdeffffffffgggggggggfffeddc##########################cc##########cddccc########cc########cccccddddeffffffffgggggggggggggggggg', // 22°
+  'ggggggggggggggggggggggggggfffffeeeedcc####ca##addcccc##cdefffffffffggggggggfffedcc###########################cc########ccddddcc#####ccccc######ccddddcccdefffffggggggggggggggggggggg', // 20°
+  'ggggggggggggggggggggggggggffffffffeddccc######cccdddccccdeffffffffffffgggggfffedc############################cc######cccddeeddc####ccdddc#######cddedc#cdeeffffggggggggggggggggggggg', // 18°
+  'gggggggggggggggggggggggggggfffffffeedddcccc#####cdeddddddeeeeeeffffffffggggfffedc#############################c####cccdddeeeedc###ccddedccc#####ccdedc#cddeefffggggggggggggggggggggg', // 16°
+  'ggggggggggggggggggggggggggggfffffffeeeddddcccc##cdddcccdddddddeefffffffggggfffedc##############################c#ccccddeeeffedcc##cddeedddc######cdedccccddefffggggggggggggggggggggg', // 14°
+  'gggggggggggggggggggggggggggggggffffffeeeeddddcc#ccccc#cccccccddeeeefffffgggfffedcc##############################cc##cdeeffffeddc##cddeeeedccc###aadeddc#ccdefffggggggggggggggggggggg', // 12°
+  'gggggggggggggggggggggggggggggggfffffffffeeeeddcc###c########ccddddeeffffffffffeddcc################################ccdefffffeedc#cccdefeddc#aaaaaaadddc##cdefffffffffffggggggggggggg', // 10°
+  'ggggggggggggggggggggggggggggggggfffffffffffeeddcccc##########ccccddeffffffffffeeddcc###############################cddeffffffedccc#cdefedcca#aaaaaaaccc##cdefffffffffffffggggggggggg', // 8°
+  'ggggggggggggggggggggggggggggggggggffffffffffeeddddc#############ccdeeffffffffffeeddccc#c#cccc#####################ccdeeffffffedddcccdefedc#a##aaaaaa#cccccdeffffffffffffffgggggggggg', // 6°
+  'gggggggggggggggggggggggggggggggggggggffffffffeeedcc##############cddeeeeefffffffeedddcccccddccc##################ccddefffffffeeedddddefedcc#a#aaaa###ccccddeeeeeeeeeffffffgggggggggg', // 4°
+  'ggggggggggggggggggggggggggggggggggggggggfffffffedc###############ccdddddeeeffffffeeeddddddddddc#################ccddeefffffffffeeeeeeefeddca#aaaa####c##cddddddddddeeeffffgggggggggg', // 2°
+  'gggggggggggggggggggggggggggggggggggggggggffffffedc################cccccdddeefffffffeeeeeeeeeedc################ccddeeffffffffffffffffffeedda##aaa####c#ccddcccccccdddeefffgggggggggg', // 0°
+  'ggggggggggggggggggggggggggggggggggggggggggfffffedc####################cccddeffffffffffffffffedcc##############ccddeefffffgffffffffffffffeedaa##aa###aa#cdddc#####cccddefffgggggggggg', // -2°
+  'ggggggggggggggggggggggggggggggggggggggggggggfffedc######################ccdeffffffffffffffffeddc##############cddeeffffffgggfffffffffffffedaaa#aaaaaaaccdedcccc####ccdefffgggggggggg', // -4°
+  'ggggggggggggggggggggggggggggggggggggggggggggfffedc#######################cdefffgffffffffffffeedc##############cdeefffffffgggggggggggfffffeeaaaa###aaaadddeddddc#####cdefffgggggggggg', // -6°
+  'ggggggggggggggggggggggggggggggggggggggggggggfffedc######################ccdefffggggggggggffffedc##############cdeeeeeefffggggggggggggfffffeeddcccccdeeeeedaaaaaa##c#cdeffffggggggggg', // -8°
+  'ggggggggggggggggggggggggggggggggggggggggggggfffedcc####################ccddefffggggggggggffffedcc#############cddddddefffgggggggggggggfffffeedddddddeeedddaaaaaaaccccdefffffgggggggg', // -10°
+  'ggggggggggggggggggggggggggggggggggggggggggggfffeddcc###################cddeefffggggggggggffffedcc#############cddcccdefffgggggggggggggffffffeeeeeeeeeeddcca###aaa#cdddefffffgggggggg', // -12°
+  'ggggggggggggggggggggggggggggggggggggggggggggfffeeddcc#################ccdeeffffgggggggggggfffedc##############cccc#cdefffggggggggggggggffffffffffeeedddcc#####aaa#ccdeeefffffggggggg', // -14°
+  'ggggggggggggggggggggggggggggggggggggggggggggffffeeddcc################cddefffffgggggggggggfffedc#############ccc###cdefffgggggggggggggggffffffffeedddccc#######a###cdddeeffffggggggg', // -16°
+  'ggggggggggggggggggggggggggggggggggggggggggggfffffeeddcc###############cdeefffffgggggggggggfffedc############ccdc##ccdefffggggggggggggggggfffffffeddccc#############cccddeffffggggggg', // -18°
+  'ggggggggggggggggggggggggggggggggggggggggggggffffffeeddc###############cdefffffggggggggggggfffedcc###########cddc##cddefffggggggggggggggggggggfffedcc#################ccdeefffggggggg', // -20°
+  'gggggggggggggggggggggggggggggggggggggggggggggffffffeedc##############ccdeffffgggggggggggggfffeddc###########cddc##cdeefffggggggggggggggggggggfffedc###################cddefffggggggg', // -22°
+  'ggggggggggggggggggggggggggggggggggggggggggggggfffffeddc############cccddeffffgggggggggggggfffeedc##########ccddccccdeffffggggggggggggggggggggfffedc###################ccdefffggggggg', // -24°
+  'fffffggggggggggggggggggggggggggggggggggggggggggffffedcc###########ccdddeefffggggggggggggggffffedcc########ccddddddddeffffggggggggggggggggggggfffedc####################cdeffffffffff', // -26°
+  'fffffggggggggggggggggggggggggggggggggggggggggggffffedc###########ccddeeeffffggggggggggggggffffeddc########cddeeeeeeeeffffggggggggggggggggggggfffedc####################cdeffffffffff', // -28°
+  'fffffggggggggggggggggggggggggggggggggggggggggggfffeedc##########ccddeeffffffggggggggggggggffffeedcc######ccdeeffffffffffgggggggggggggggggggggfffedc###################ccdeffffffffff', // -30°
+  'eefffggggggggggggggggggggggggggggggggggggggggggfffeddc##########cddeefffffffgggggggggggggggffffeddc#####ccddefffffffffffgggggggggggggggggggggfffedc#####ccccc#########cddeffffeeeeee', // -32°
+  'defffggggggggggggggggggggggggggggggggggggggggggfffedcc########cccdeefffffffggggggggggggggggffffeedcccccccddeefffffffffffgggggggggggggggggggggfffedcccccccdddccc######ccdeefffeeddddd', // -34°
+  'defffggggggggggggggggggggggggggggggggggggggggggfffedc########acdddeffffffggggggggggggggggggfffffedddddddddeefffffggggggggggggggggggggggggggggfffedddddddddedddcc#####cddefffeeddcccc', // -36°
+  'defffggggggggggggggggggggggggggggggggggggggggggfffedc######aaaddeeefffffggggggggggggggggggggffffeeeeeeeeeeefffffgggggggggggggggggggggggggggggfffeeeeeeeeeeeeeddcccccccdeeffeeddcc##c', // -38°
+  'defffggggggggggggggggggggggggggggggggggggggggggfffedc######aaddeeffffffgggggggggggggggggggggffffffffffffffffffffgggggggggggggggggggggggggggggfffffffffffffffeeddddc#cddefffeddcc#ccc', // -40°
+  'defffggggggggggggggggggggggggggggggggggggggggggfffedc####aaaaeeeffffffgggggggggggggggggggggggffffffffffffffffffggggggggggggggggggggggggggggggffffffffffffffffeeeedc#cdeefffedcc##cdd', // -42°
+  'eefffggggggggggggggggggggggggggggggggggggggggggfffedc####aaaaeffffffffgggggggggggggggggggggggfffffffffffffffffgggggggggggggggggggggggggggggggfffffffffffffffffffedcccdeffffedc#cccde', // -44°
+  'fffffggggggggggggggggggggggggggggggggggggggggggfffedc###aaabbeffffffgggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggfffffffedddddeffffedcccddde', // -46°
+  'fffffggggggggggggggggggggggggggggggggggggggggggfffedc###aaabfffffffgggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggffffffeeeeeeeffffedddddeee', // -48°
+  'fffffggggggggggggggggggggggggggggggggggggggggggfffedc###aabbfffffggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggffffffffffffffeeeeeeeff', // -50°
+  'fffggggggggggggggggggggggggggggggggggggggggggggfffedc###aabffffffffggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggggfffffffffffffffffffffff', // -52°
+  'fffggggggggggggggggggggggggggggggggggggggggggggfffedccc#aabffffffffggggggggggggggggggggggggggggggggggggggggggfffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff', // -54°
+  'fggggggggggggggggggggggggggggggggggggggggggggggfffedddcccdeffffffffgggggggggggggggggggggggggggggggggggggffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff', // -56°
+  'gggggggggggggggggggggggggggggggggggggggggggggggfffeeedddddeeeeeefffggggggggggggffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffggg', // -58°
+  'ggggggggggggggggggggggggggggggggggffffffffffffffffffeeeedddddddefffggggggfffffffffffffffffffffffffffffffffffffffeeeeeeeeeeeffffeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeffffffffffffffff', // -60°
+  'fffggggggggggggggfffffffffffffffffffffffffffffffffffeeeddcccccdefffgggfffffffffffffffffffffffffffffffffffffeeeeeedddddddddeeeeeedddddddddddddddddddddddddddddddddddeeeeeeeffffffffff', // -62°
+  'fffffggggfffffffffffffffffffffffffffffffffffffffffeeedddcc***cdeffffffffffffffffffeeeeeeeeeeeeeeeeeeeeeeeeeeddddddcccccccddddddddcccccccccccccccccccccccccccccccccdddddddeeeeeffffff', // -64°
+  'fffffffffffffffffffffffffffffffffffffeeeeeeeeeeeeeedddccc***ccdeffffffffffffeeeeeeeddddddddddddddddddddddddddcccccc*****cccccccccc*******************************cccccccdddddeeeefff', // -66°
+  'ffffffffffffffffffffeeeeeeeeeeeeeeeeeeddddddddddddddccc****ccddefffffffffeeeedddddddcccccccccccccccccccccccccc*********************************************************cccccddddeeee', // -68°
+  'eeffffffffffeeeeeeeeeddddddddddddddddddcccccccccccccc******ccdeeeeeeeeeeeeddddccccccc**************************************************************************************ccccdddde', // -70°
+  'deeeeeeeeeeeedddddddddcccccccccccccccccc********************cddddddeeddddddcccc***********************************************************************************************ccccdd', // -72°
+  'ddddddddddddddccccccccc*************************************ccccccddddcccccc*****************************************************************************************************ccc', // -74°
+  'ccccccccccccccc**************************************************cccccc************************************************************************************************************c', // -76°
+  '************************************************************************************************************************************************************************************', // -78°
+  '************************************************************************************************************************************************************************************', // -80°
+  '************************************************************************************************************************************************************************************', // -82°
+  '************************************************************************************************************************************************************************************', // -84°
+  '************************************************************************************************************************************************************************************', // -86°
+  '************************************************************************************************************************************************************************************' // -88°
+];
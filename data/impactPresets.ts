@@ -1,4 +1,9 @@
-import { ImpactorPreset } from '../types';
+import { ImpactorPreset, HazardAssessment } from '../types';
+import { calculateImpactEnergy, joulestoMegatons } from '../lib/physics';
+import { assessHazard } from '../lib/hazard';
+
+// Historical events are rated as certain collisions announced this far ahead
+const HISTORICAL_WARNING_YEARS = 1;
 
 // Extended interface for historical impact presets
 export interface HistoricalImpactPreset extends ImpactorPreset {
@@ -13,9 +18,10 @@ export interface HistoricalImpactPreset extends ImpactorPreset {
     customEffects?: string[];  // Additional visual effects to apply
   };
   icon?: string;              // Optional icon identifier for UI
+  hazard: HazardAssessment;    // Recurrence interval and hazard scales
 }
 
-export const HISTORICAL_PRESETS: HistoricalImpactPreset[] = [
+const HISTORICAL_EVENTS: Omit<HistoricalImpactPreset, 'hazard'>[] = [
   {
     name: 'Dinosaur Extinction (Chicxulub)',
     description: 'The impact that ended the age of dinosaurs and changed Earth forever',
@@ -25,7 +31,9 @@ export const HISTORICAL_PRESETS: HistoricalImpactPreset[] = [
       diameter_m: 14000,
       density_kgm3: 3000,
       velocity_kms: 45,
-      angle_deg: 60
+      angle_deg: 60,
+      target: 'carbonate',
+      composition: 'chondrite'
     },
     craterSize: '150 km wide crater',
     energyComparison: 'Equivalent to 10 billion Hiroshima bombs',
@@ -49,7 +57,9 @@ export const HISTORICAL_PRESETS: HistoricalImpactPreset[] = [
       diameter_m: 60,
       density_kgm3: 3000,
       velocity_kms: 15,
-      angle_deg: 30
+      angle_deg: 30,
+      target: 'permafrost',
+      composition: 'chondrite'
     },
     craterSize: 'No crater (airburst)',
     energyComparison: 'Equal to 1,000 Hiroshima bombs',
@@ -73,7 +83,9 @@ export const HISTORICAL_PRESETS: HistoricalImpactPreset[] = [
       diameter_m: 20,
       density_kgm3: 3000,
       velocity_kms: 19,
-      angle_deg: 45
+      angle_deg: 45,
+      target: 'sedimentary',
+      composition: 'chondrite'
     },
     craterSize: 'No crater (airburst)',
     energyComparison: '30 times stronger than Hiroshima bomb',
@@ -97,7 +109,9 @@ export const HISTORICAL_PRESETS: HistoricalImpactPreset[] = [
       diameter_m: 13500,
       density_kgm3: 3000,
       velocity_kms: 48,
-      angle_deg: 45
+      angle_deg: 45,
+      target: 'crystalline',
+      composition: 'chondrite'
     },
     craterSize: '250 km wide crater',
     energyComparison: 'Millions of times stronger than all nuclear weapons combined',
@@ -121,7 +135,9 @@ export const HISTORICAL_PRESETS: HistoricalImpactPreset[] = [
       diameter_m: 500,
       density_kgm3: 3000,
       velocity_kms: 17,
-      angle_deg: 45
+      angle_deg: 45,
+      target: 'sedimentary',
+      composition: 'chondrite'
     },
     craterSize: 'Underwater crater',
     energyComparison: 'Similar to 50-100 nuclear weapons',
@@ -136,4 +152,17 @@ export const HISTORICAL_PRESETS: HistoricalImpactPreset[] = [
     },
     icon: '🌊'
   }
-];
\ No newline at end of file
+];
+
+export const HISTORICAL_PRESETS: HistoricalImpactPreset[] = HISTORICAL_EVENTS.map(event => {
+  const { diameter_m, density_kgm3, velocity_kms } = event.parameters;
+  return {
+    ...event,
+    hazard: assessHazard({
+      energy_mt: joulestoMegatons(calculateImpactEnergy(diameter_m, density_kgm3, velocity_kms)),
+      diameter_m,
+      impact_probability: 1,
+      years_to_impact: HISTORICAL_WARNING_YEARS
+    })
+  };
+});
\ No newline at end of file
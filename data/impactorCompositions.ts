@@ -0,0 +1,60 @@
+import type { ImpactorComposition } from '../types';
+
+// Impactor composition presets. Densities are bulk values (pore space included);
+// tensile strengths are effective bulk strengths of metre-scale and larger bodies,
+// well below those of hand samples because of cracks and joints.
+export interface ImpactorCompositionPreset {
+  id: ImpactorComposition;
+  name: string;
+  description: string;
+  density_kgm3: number;
+  tensile_strength_pa: number;
+  porosity: number; // pore volume fraction, 0–1
+}
+
+export const IMPACTOR_COMPOSITIONS: Record<ImpactorComposition, ImpactorCompositionPreset> = {
+  iron: {
+    id: 'iron',
+    name: 'Iron',
+    description: 'Iron-nickel metal (M-type)',
+    density_kgm3: 7800,
+    tensile_strength_pa: 5e7,
+    porosity: 0.0
+  },
+  stony_iron: {
+    id: 'stony_iron',
+    name: 'Stony-iron',
+    description: 'Pallasite and mesosiderite mixtures of metal and silicate',
+    density_kgm3: 4800,
+    tensile_strength_pa: 1e7,
+    porosity: 0.05
+  },
+  chondrite: {
+    id: 'chondrite',
+    name: 'Chondrite',
+    description: 'Coherent stony body (S- and C-type)',
+    density_kgm3: 3000,
+    tensile_strength_pa: 1e6,
+    porosity: 0.1
+  },
+  rubble_pile: {
+    id: 'rubble_pile',
+    name: 'Rubble pile',
+    description: 'Gravitationally bound aggregate of boulders',
+    density_kgm3: 2000,
+    tensile_strength_pa: 1e4,
+    porosity: 0.4
+  },
+  cometary_ice: {
+    id: 'cometary_ice',
+    name: 'Cometary ice',
+    description: 'Porous mix of water ice and dust',
+    density_kgm3: 600,
+    tensile_strength_pa: 1e4,
+    porosity: 0.7
+  }
+};
+
+export function getImpactorComposition(id?: ImpactorComposition): ImpactorCompositionPreset | undefined {
+  return id ? IMPACTOR_COMPOSITIONS[id] : undefined;
+}
@@ -0,0 +1,69 @@
+import type { TargetMaterial } from '../types';
+
+// Target rock presets for crater scaling. Strengths are effective cratering
+// strengths and coupling exponents follow Holsapple (1993); densities are bulk values.
+export interface TargetMaterialPreset {
+  id: TargetMaterial;
+  name: string;
+  description: string;
+  density_kgm3: number;
+  strength_pa: number;
+  coupling_exponent: number; // μ in point-source scaling
+}
+
+export const DEFAULT_TARGET_MATERIAL: TargetMaterial = 'crystalline';
+
+export const TARGET_MATERIALS: Record<TargetMaterial, TargetMaterialPreset> = {
+  crystalline: {
+    id: 'crystalline',
+    name: 'Crystalline shield',
+    description: 'Granite and gneiss basement rock',
+    density_kgm3: 2700,
+    strength_pa: 18e6,
+    coupling_exponent: 0.55
+  },
+  sedimentary: {
+    id: 'sedimentary',
+    name: 'Sedimentary basin',
+    description: 'Sandstone, shale and siltstone layers',
+    density_kgm3: 2500,
+    strength_pa: 7.6e6,
+    coupling_exponent: 0.55
+  },
+  carbonate: {
+    id: 'carbonate',
+    name: 'Carbonate platform',
+    description: 'Limestone, dolomite and evaporites',
+    density_kgm3: 2600,
+    strength_pa: 7.6e6,
+    coupling_exponent: 0.55
+  },
+  permafrost: {
+    id: 'permafrost',
+    name: 'Permafrost',
+    description: 'Ice-cemented soil and sediment',
+    density_kgm3: 1900,
+    strength_pa: 3e6,
+    coupling_exponent: 0.55
+  },
+  dry_soil: {
+    id: 'dry_soil',
+    name: 'Dry soil',
+    description: 'Unconsolidated alluvium and desert soil',
+    density_kgm3: 1600,
+    strength_pa: 0.18e6,
+    coupling_exponent: 0.41
+  },
+  ice: {
+    id: 'ice',
+    name: 'Glacial ice',
+    description: 'Ice sheets and glaciers',
+    density_kgm3: 917,
+    strength_pa: 1e6,
+    coupling_exponent: 0.55
+  }
+};
+
+export function getTargetMaterial(id?: TargetMaterial): TargetMaterialPreset {
+  return TARGET_MATERIALS[id ?? DEFAULT_TARGET_MATERIAL] ?? TARGET_MATERIALS[DEFAULT_TARGET_MATERIAL];
+}
@@ -0,0 +1,69 @@
+import {
+  airDensityAt,
+  yieldStrengthFromDensity,
+  simulateAtmosphericEntry,
+  SEA_LEVEL_AIR_DENSITY,
+  SCALE_HEIGHT_M
+} from '../atmosphere';
+
+describe('Atmosphere Module', () => {
+  describe('airDensityAt', () => {
+    test('returns sea-level density at the surface', () => {
+      expect(airDensityAt(0)).toBeCloseTo(SEA_LEVEL_AIR_DENSITY, 10);
+    });
+
+    test('falls by a factor of e per scale height', () => {
+      expect(airDensityAt(SCALE_HEIGHT_M)).toBeCloseTo(SEA_LEVEL_AIR_DENSITY / Math.E, 10);
+    });
+  });
+
+  describe('yieldStrengthFromDensity', () => {
+    test('denser bodies are stronger', () => {
+      expect(yieldStrengthFromDensity(8000)).toBeGreaterThan(yieldStrengthFromDensity(3000));
+    });
+  });
+
+  describe('simulateAtmosphericEntry', () => {
+    test('Chelyabinsk-size stony body bursts in the upper atmosphere', () => {
+      const entry = simulateAtmosphericEntry({ diameter_m: 20, density_kgm3: 3000, velocity_mps: 19000, angle_deg: 45 });
+      expect(entry.isAirburst).toBe(true);
+      expect(entry.burstAltitude_m).toBeGreaterThan(15000);
+      expect(entry.burstAltitude_m).toBeLessThan(50000);
+      expect(entry.surfaceEnergy_j).toBeLessThan(entry.burstEnergy_j * 0.01);
+    });
+
+    test('a body that ablates away aloft is an airburst at its peak deposition', () => {
+      // Too strong to break up, so the pancake never spreads
+      const entry = simulateAtmosphericEntry({ diameter_m: 1, density_kgm3: 3000, velocity_mps: 20000, angle_deg: 45, strength_pa: 1e12 });
+      const initialEnergy = 0.5 * (Math.PI / 6) * 3000 * 20000 * 20000;
+      expect(entry.breakupAltitude_m).toBeNull();
+      expect(entry.surfaceEnergy_j).toBe(0);
+      expect(entry.isAirburst).toBe(true);
+      expect(entry.burstAltitude_m).toBeGreaterThan(10000);
+      expect(entry.burstEnergy_j).toBeCloseTo(initialEnergy, -3);
+    });
+
+    test('Tunguska-size body bursts below Chelyabinsk', () => {
+      const chelyabinsk = simulateAtmosphericEntry({ diameter_m: 20, density_kgm3: 3000, velocity_mps: 19000, angle_deg: 45 });
+      const tunguska = simulateAtmosphericEntry({ diameter_m: 60, density_kgm3: 3000, velocity_mps: 15000, angle_deg: 30 });
+      expect(tunguska.isAirburst).toBe(true);
+      expect(tunguska.burstAltitude_m!).toBeLessThan(chelyabinsk.burstAltitude_m!);
+    });
+
+    test('large impactors reach the ground almost undecelerated', () => {
+      const entry = simulateAtmosphericEntry({ diameter_m: 1200, density_kgm3: 3000, velocity_mps: 17000, angle_deg: 45 });
+      expect(entry.isAirburst).toBe(false);
+      expect(entry.burstAltitude_m).toBeNull();
+      expect(entry.surfaceVelocity_mps).toBeGreaterThan(16000);
+      expect(entry.surfaceDiameter_m).toBeGreaterThan(1100);
+    });
+
+    test('strength override keeps a small body intact', () => {
+      const weak = simulateAtmosphericEntry({ diameter_m: 50, density_kgm3: 3000, velocity_mps: 15000, angle_deg: 45, strength_pa: 1e5 });
+      const strong = simulateAtmosphericEntry({ diameter_m: 50, density_kgm3: 3000, velocity_mps: 15000, angle_deg: 45, strength_pa: 1e9 });
+      expect(weak.isAirburst).toBe(true);
+      expect(strong.isAirburst).toBe(false);
+      expect(strong.breakupAltitude_m).toBeNull();
+    });
+  });
+});
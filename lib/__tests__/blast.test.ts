@@ -0,0 +1,40 @@
+import { computeBlastRings, peakOverpressurePa, blastRadiusForOverpressure, PSI_TO_PA } from '../blast';
+
+describe('Blast Module', () => {
+  const MT = 4.184e15;
+
+  test('orders the rings strongest first with the widest ring outermost', () => {
+    const rings = computeBlastRings(10 * MT);
+    expect(rings.map(r => r.overpressure_psi)).toEqual([20, 5, 1]);
+    expect(rings[0].radius_km).toBeLessThan(rings[1].radius_km);
+    expect(rings[1].radius_km).toBeLessThan(rings[2].radius_km);
+  });
+
+  test('a surface burst falls to each level exactly at its ring radius', () => {
+    const ring = computeBlastRings(MT)[2];
+    expect(peakOverpressurePa(ring.radius_m, MT) / (1 * PSI_TO_PA)).toBeCloseTo(1, 3);
+  });
+
+  test('a Tunguska-height burst forms a Mach stem that carries 1 psi past 20 km', () => {
+    // 10 Mt at 8.5 km: scaled burst height ~395 m, below the 550 m Mach limit
+    const rings = computeBlastRings(10 * MT, 8500);
+    expect(rings[0].radius_km).toBe(0);
+    expect(rings[1].radius_km).toBeGreaterThan(5);
+    expect(rings[2].radius_km).toBeGreaterThan(20);
+    // Beyond the Mach stem the ground sees the surface-burst overpressure
+    expect(rings[2].radius_km).toBeCloseTo(computeBlastRings(10 * MT)[2].radius_km, 3);
+  });
+
+  test('regular reflection under the burst weakens with burst height', () => {
+    const low = peakOverpressurePa(0, MT, 1000);
+    const high = peakOverpressurePa(0, MT, 5000);
+    expect(high).toBeLessThan(low);
+    expect(blastRadiusForOverpressure(5 * PSI_TO_PA, MT, 5000)).toBeLessThan(blastRadiusForOverpressure(5 * PSI_TO_PA, MT, 1000));
+  });
+
+  test('a Chelyabinsk-height burst forms no Mach stem and stays below 1 psi', () => {
+    // 0.54 Mt at 23.7 km: scaled burst height ~2.9 km
+    expect(peakOverpressurePa(0, 0.54 * MT, 23700)).toBeLessThan(1 * PSI_TO_PA);
+    expect(peakOverpressurePa(0, 0.54 * MT, 23700)).toBeGreaterThan(0);
+  });
+});
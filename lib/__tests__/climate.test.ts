@@ -0,0 +1,53 @@
+import {
+  fineDustMassKg,
+  burnedAreaM2,
+  sootMassKg,
+  climateTimeline,
+  computeClimateEffects
+} from '../climate';
+
+describe('Climate Module', () => {
+  describe('climateTimeline', () => {
+    test('cools more as the soot loading grows', () => {
+      const cooling = [0, 1e12, 1e13, 1e14, 1e15].map(soot =>
+        -Math.min(...climateTimeline(0, soot).map(m => m.temperature_anomaly_k))
+      );
+      expect(cooling[0]).toBeCloseTo(0, 6);
+      for (let i = 1; i < cooling.length; i++) {
+        expect(cooling[i]).toBeGreaterThan(cooling[i - 1]);
+      }
+    });
+
+    test('darkens most in the first month and recovers as the layers settle', () => {
+      const months = climateTimeline(1e14, 1e14);
+      expect(months[0].sunlight_fraction).toBeLessThan(months[months.length - 1].sunlight_fraction);
+      expect(months[months.length - 1].sunlight_fraction).toBeGreaterThan(0.9);
+    });
+  });
+
+  describe('source terms', () => {
+    test('ice targets loft less dust and nothing burns on an ice sheet', () => {
+      expect(fineDustMassKg(10_000, 2500, 'ice')).toBeLessThan(fineDustMassKg(10_000, 2500, 'crystalline'));
+      expect(burnedAreaM2(1e5, 50_000, 'ice_sheet')).toBe(0);
+    });
+
+    test('re-entering ejecta burn a global share of land above 10 million megatons', () => {
+      expect(burnedAreaM2(1e8, 0, 'land')).toBeGreaterThan(burnedAreaM2(1e6, 0, 'land'));
+      expect(sootMassKg(burnedAreaM2(1e8, 0, 'land'))).toBeGreaterThan(1e13);
+    });
+  });
+
+  test('a Chicxulub-scale impact cools the globe by tens of kelvin', () => {
+    const effects = computeClimateEffects({
+      energy_mt: 1e8,
+      transient_diameter_m: 100_000,
+      target_density_kgm3: 2500,
+      target_material: 'carbonate',
+      target_surface: 'land',
+      ignition_radius_m: 2_000_000
+    });
+    expect(effects.peak_cooling_k).toBeGreaterThan(10);
+    expect(effects.min_sunlight_fraction).toBeLessThan(0.1);
+    expect(effects.growing_season_loss_months).toBeGreaterThan(12);
+  });
+});
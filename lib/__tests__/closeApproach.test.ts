@@ -0,0 +1,82 @@
+import { findCloseApproach, presetCloseApproach, presetRiskCorridor, impactParametersFromApproach } from '../closeApproach';
+import { corridorExposure } from '../impact';
+import { simulateImpactor } from '../physics';
+import { DEFAULT_ORBITAL_ELEMENTS } from '../orbit';
+import { IMPACTOR_PRESETS } from '../../types';
+
+describe('Close Approach Module', () => {
+  const apophis = IMPACTOR_PRESETS.find(p => p.name === 'Apophis')!;
+
+  test('reproduces the April 2029 Apophis flyby as a miss', () => {
+    const approach = presetCloseApproach(apophis);
+    expect(approach.date.slice(0, 7)).toBe('2029-04');
+    expect(approach.v_infinity_kms).toBeCloseTo(5.85, 1);
+    expect(approach.perigee_km).toBeGreaterThan(30000);
+    expect(approach.perigee_km).toBeLessThan(45000);
+    expect(approach.is_impact).toBe(false);
+    expect(approach.impact).toBeUndefined();
+  });
+
+  test('gravitational focusing widens the capture radius beyond Earth', () => {
+    const approach = presetCloseApproach(apophis);
+    expect(approach.capture_radius_km).toBeGreaterThan(2 * 6371);
+    expect(approach.perigee_km).toBeLessThan(approach.miss_distance_km);
+  });
+
+  test('"what if it hit" strikes the ground at 45° and escape-boosted speed', () => {
+    const approach = presetCloseApproach(apophis, { aim_at_earth: true });
+    expect(approach.is_impact).toBe(true);
+    expect(approach.impact!.angle_deg).toBeCloseTo(45, 3);
+    expect(approach.impact!.velocity_kms).toBeCloseTo(Math.sqrt(5.85 * 5.85 + 11.186 * 11.186), 0);
+    expect(approach.path[approach.path.length - 1].altitude_km).toBeCloseTo(0, 1);
+
+    const params = impactParametersFromApproach(apophis.parameters, approach);
+    expect(params.lat).toBe(approach.impact!.lat);
+    expect(params.diameter_m).toBe(apophis.parameters.diameter_m);
+  });
+
+  test('needs a mean anomaly to propagate', () => {
+    expect(() => findCloseApproach(DEFAULT_ORBITAL_ELEMENTS, new Date('2013-01-01'), new Date('2013-03-01')))
+      .toThrow('mean anomaly');
+  });
+
+  test('impactParametersFromApproach rejects a miss', () => {
+    expect(() => impactParametersFromApproach(apophis.parameters, presetCloseApproach(apophis))).toThrow('no impact');
+  });
+
+  describe('risk corridor', () => {
+    test('timing and target-plane spreads of the same size give the same corridor', () => {
+      const timed = presetRiskCorridor(apophis, { timing_sigma_s: 300, aim_at_earth: true });
+      const planar = presetRiskCorridor(apophis, { bplane_sigma_km: timed.sigma_km, aim_at_earth: true });
+      expect(planar.points.length).toBe(timed.points.length);
+      expect(planar.impact_probability).toBeCloseTo(timed.impact_probability, 10);
+    });
+
+    test('a tight spread around a hit is nearly certain; the real flyby stays unlikely', () => {
+      const aimed = presetRiskCorridor(apophis, { bplane_sigma_km: 100, aim_at_earth: true });
+      expect(aimed.impact_probability).toBeGreaterThan(0.99);
+      const flyby = presetRiskCorridor(apophis, { bplane_sigma_km: 100 });
+      expect(flyby.impact_probability).toBe(0);
+      expect(flyby.points).toHaveLength(0);
+    });
+
+    test('needs an uncertainty', () => {
+      expect(() => presetRiskCorridor(apophis, {})).toThrow('uncertainty');
+    });
+
+    test('weights the population along the corridor by probability', () => {
+      const corridor = presetRiskCorridor(apophis, { timing_sigma_s: 300, aim_at_earth: true });
+      const point = corridor.points[Math.floor(corridor.points.length / 2)];
+      const cities = [
+        { geometry: { coordinates: [point.lng, point.lat] as [number, number] }, properties: { city: 'Under', population: 1000000 } },
+        { geometry: { coordinates: [point.lng + 90, -point.lat] as [number, number] }, properties: { city: 'Far', population: 1000000 } }
+      ];
+      const result = simulateImpactor({ ...apophis.parameters, lat: point.lat, lng: point.lng });
+      const exposure = corridorExposure(cities, corridor, result);
+      expect(exposure.cities.map(c => c.city)).toEqual(['Under']);
+      expect(exposure.cities[0].probability).toBeGreaterThanOrEqual(point.probability);
+      expect(exposure.cities[0].probability).toBeLessThanOrEqual(corridor.impact_probability);
+      expect(exposure.expected_blast_population).toBeLessThanOrEqual(1000000);
+    });
+  });
+});
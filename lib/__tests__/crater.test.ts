@@ -0,0 +1,70 @@
+import {
+  transientCraterDiameterMeters,
+  finalCraterDiameterMeters,
+  transientForFinalDiameterMeters,
+  strengthCorrection,
+  porosityCorrection,
+  describeCrater,
+  SIMPLE_COMPLEX_TRANSITION_M
+} from '../crater';
+import { TARGET_MATERIALS } from '../../data/targetMaterials';
+
+describe('Crater Module', () => {
+  const MT = 4.184e15;
+
+  describe('simple to complex transition', () => {
+    test('keeps simple craters at 1.25 × the transient diameter', () => {
+      const transient = 1000;
+      expect(finalCraterDiameterMeters(transient)).toBeCloseTo(1250, 6);
+      const crater = describeCrater(transient, 1 * MT, 45);
+      expect(crater.morphology).toBe('simple');
+      expect(crater.rim_height_m).toBeGreaterThan(0);
+      expect(crater.breccia_thickness_m).toBeGreaterThan(0);
+    });
+
+    test('collapses craters wider than the transition into shallow complex craters', () => {
+      const transient = 20_000;
+      const crater = describeCrater(transient, 1e5 * MT, 45);
+      expect(crater.morphology).toBe('complex');
+      expect(crater.final_diameter_m).toBeGreaterThan(SIMPLE_COMPLEX_TRANSITION_M);
+      expect(crater.final_depth_m / crater.final_diameter_m).toBeLessThan(0.05);
+      expect(crater.rim_height_m).toBe(0);
+    });
+
+    test('switches morphology where the simple rim reaches the transition diameter', () => {
+      const atTransition = SIMPLE_COMPLEX_TRANSITION_M / 1.25;
+      expect(describeCrater(atTransition * 0.99, MT, 45).morphology).toBe('simple');
+      expect(describeCrater(atTransition * 1.01, MT, 45).morphology).toBe('complex');
+    });
+
+    test('inverts the final diameter on both sides of the transition', () => {
+      [1000, 2000, 5000, 50_000].forEach(transient => {
+        expect(transientForFinalDiameterMeters(finalCraterDiameterMeters(transient))).toBeCloseTo(transient, 3);
+      });
+    });
+  });
+
+  describe('target and strength', () => {
+    test('strong rock shrinks small craters but not large ones', () => {
+      const small = strengthCorrection(50, 3000, 20_000, TARGET_MATERIALS.crystalline);
+      const large = strengthCorrection(5000, 3000, 20_000, TARGET_MATERIALS.crystalline);
+      expect(small).toBeLessThan(0.9);
+      expect(large).toBeGreaterThan(small);
+      expect(large).toBeGreaterThan(0.95);
+      expect(strengthCorrection(50, 3000, 20_000, { ...TARGET_MATERIALS.crystalline, strength_pa: 0 })).toBe(1);
+    });
+
+    test('weak soil gives a wider crater than crystalline rock', () => {
+      const soil = transientCraterDiameterMeters(100, 3000, 20_000, 45, TARGET_MATERIALS.dry_soil);
+      const rock = transientCraterDiameterMeters(100, 3000, 20_000, 45, TARGET_MATERIALS.crystalline);
+      expect(soil).toBeGreaterThan(rock);
+    });
+
+    test('porous impactors excavate less', () => {
+      expect(porosityCorrection(0)).toBe(1);
+      const solid = transientCraterDiameterMeters(100, 3000, 20_000, 45, TARGET_MATERIALS.sedimentary);
+      const porous = transientCraterDiameterMeters(100, 3000, 20_000, 45, TARGET_MATERIALS.sedimentary, 0.4);
+      expect(porous / solid).toBeCloseTo(Math.cbrt(0.6), 6);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  DART_IMPACTOR,
+  kineticImpactorDeltaV,
+  driftPerDeltaV,
+  kineticImpactorDeflection,
+  vInfinityFromImpactSpeed,
+  nuclearStandoffDeflection,
+  gravityTractorDeflection,
+  compareDeflections,
+  disruptionThresholdJkg,
+  DEFAULT_NUCLEAR_STANDOFF,
+  DEFAULT_GRAVITY_TRACTOR
+} from '../deflection';
+import { captureRadiusKm } from '../closeApproach';
+
+describe('Deflection Module', () => {
+  const apophis = { diameter_m: 370, density_kgm3: 3000, velocity_kms: 12.6, angle_deg: 45 };
+
+  test('reproduces the DART Δv on Dimorphos to within the right order', () => {
+    // Dimorphos: ~4.3e9 kg; DART changed its speed by a few mm/s
+    const deltaV = kineticImpactorDeltaV(DART_IMPACTOR, 4.3e9);
+    expect(deltaV).toBeGreaterThan(1e-3);
+    expect(deltaV).toBeLessThan(1e-2);
+  });
+
+  test('drift equals Δv·t for short lead times and approaches 3·Δv·t after many orbits', () => {
+    const day = 86400;
+    expect(driftPerDeltaV(day) / day).toBeCloseTo(1, 2);
+    const tenYears = 10 * 365.25 * day;
+    expect(driftPerDeltaV(tenYears) / (3 * tenYears)).toBeGreaterThan(0.95);
+  });
+
+  test('a single DART-class spacecraft does not save Earth from a centred Apophis hit', () => {
+    const outcome = kineticImpactorDeflection(DART_IMPACTOR, apophis);
+    expect(outcome.undeflected_miss_km).toBe(0);
+    expect(outcome.misses_earth).toBe(false);
+    expect(outcome.required_delta_v_mps).toBeGreaterThan(outcome.delta_v_mps);
+  });
+
+  test('enough momentum and lead time moves the encounter outside the capture radius', () => {
+    const outcome = kineticImpactorDeflection({ ...DART_IMPACTOR, spacecraft_mass_kg: 50000, lead_time_days: 20 * 365.25 }, apophis);
+    expect(outcome.misses_earth).toBe(true);
+    expect(outcome.deflected_miss_km).toBeGreaterThan(outcome.capture_radius_km);
+    expect(outcome.capture_radius_km).toBeCloseTo(captureRadiusKm(vInfinityFromImpactSpeed(12.6)), 6);
+  });
+
+  describe('nuclear standoff', () => {
+    test('puts the disruption threshold of a few-hundred-metre rock near 100 J/kg', () => {
+      expect(disruptionThresholdJkg(185, 3000)).toBeGreaterThan(50);
+      expect(disruptionThresholdJkg(185, 3000)).toBeLessThan(300);
+    });
+
+    test('moves the asteroid faster with a larger yield, at a rising fragmentation risk', () => {
+      const small = nuclearStandoffDeflection({ ...DEFAULT_NUCLEAR_STANDOFF, yield_kt: 1 }, apophis);
+      const large = nuclearStandoffDeflection({ ...DEFAULT_NUCLEAR_STANDOFF, yield_kt: 10000 }, apophis);
+      expect(large.delta_v_mps).toBeCloseTo(small.delta_v_mps * 10000, 8);
+      expect(small.fragmentation_risk).toBe('low');
+      expect(large.fragmentation_risk).toBe('high');
+    });
+  });
+
+  describe('gravity tractor', () => {
+    test('gives a 20 t tractor about a mm/s over ten years', () => {
+      const outcome = gravityTractorDeflection(DEFAULT_GRAVITY_TRACTOR, apophis);
+      expect(outcome.delta_v_mps).toBeGreaterThan(1e-3);
+      expect(outcome.delta_v_mps).toBeLessThan(1e-2);
+      expect(outcome.fragmentation_risk).toBeUndefined();
+    });
+
+    test('cannot tow for longer than the warning time', () => {
+      const capped = gravityTractorDeflection({ ...DEFAULT_GRAVITY_TRACTOR, duration_days: 10000, lead_time_days: 365 }, apophis);
+      const year = gravityTractorDeflection({ ...DEFAULT_GRAVITY_TRACTOR, duration_days: 365, lead_time_days: 365 }, apophis);
+      expect(capped.delta_v_mps).toBeCloseTo(year.delta_v_mps, 12);
+    });
+  });
+
+  test('compareDeflections applies the warning time to every method', () => {
+    const outcomes = compareDeflections(apophis, 3650);
+    expect(outcomes.map(o => o.method)).toEqual(['kinetic_impactor', 'nuclear_standoff', 'gravity_tractor']);
+    const later = compareDeflections(apophis, 365);
+    outcomes.forEach((outcome, i) => expect(outcome.shift_km).toBeGreaterThan(later[i].shift_km));
+  });
+});
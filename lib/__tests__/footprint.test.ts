@@ -0,0 +1,55 @@
+import {
+  ellipticalFootprint,
+  footprintElongation,
+  footprintEdgeDistanceM,
+  isInsideFootprint,
+  normalizeAzimuth
+} from '../footprint';
+
+describe('Footprint Module', () => {
+  test('vertical impacts stay circular and shallow ones stretch up to 1.5 ×', () => {
+    expect(footprintElongation(90)).toBeCloseTo(0, 12);
+    expect(footprintElongation(30)).toBeCloseTo(0.25, 12);
+    expect(footprintElongation(0)).toBeCloseTo(0.5, 12);
+
+    const circle = ellipticalFootprint(10_000, 90);
+    expect(circle.semi_major_m).toBeCloseTo(10_000, 6);
+    expect(circle.semi_minor_m).toBeCloseTo(10_000, 6);
+    expect(circle.downrange_offset_m).toBeCloseTo(0, 6);
+  });
+
+  test('keeps the uprange edge at the circular radius', () => {
+    const footprint = ellipticalFootprint(10_000, 30);
+    expect(footprint.semi_major_m).toBeCloseTo(12_500, 6);
+    expect(footprint.semi_minor_m).toBeCloseTo(8_000, 6);
+    expect(footprint.semi_major_m - footprint.downrange_offset_m).toBeCloseTo(10_000, 6);
+    expect(footprintEdgeDistanceM(footprint, 0)).toBeCloseTo(12_500, 6);
+    expect(footprintEdgeDistanceM(footprint, 90)).toBeCloseTo(8_000, 6);
+  });
+
+  describe('isInsideFootprint', () => {
+    const footprint = ellipticalFootprint(10_000, 30); // reaches 15 km downrange, 10 km uprange
+    const azimuth = 135;
+
+    test('reaches further downrange than uprange', () => {
+      expect(isInsideFootprint(footprint, 14, azimuth, azimuth)).toBe(true);
+      expect(isInsideFootprint(footprint, 14, azimuth + 180, azimuth)).toBe(false);
+      expect(isInsideFootprint(footprint, 9.9, azimuth + 180, azimuth)).toBe(true);
+      expect(isInsideFootprint(footprint, 15.1, azimuth, azimuth)).toBe(false);
+    });
+
+    test('is narrower across the track', () => {
+      expect(isInsideFootprint(footprint, 9, azimuth + 90, azimuth)).toBe(false);
+      expect(isInsideFootprint(footprint, 7, azimuth - 90, azimuth)).toBe(true);
+    });
+
+    test('is empty for a zero radius', () => {
+      expect(isInsideFootprint(ellipticalFootprint(0, 30), 0, 0, azimuth)).toBe(false);
+    });
+  });
+
+  test('normalizes azimuths into 0–360', () => {
+    expect(normalizeAzimuth(-90)).toBe(270);
+    expect(normalizeAzimuth(450)).toBe(90);
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  recurrenceIntervalForEnergy,
+  recurrenceIntervalForDiameter,
+  torinoScale,
+  palermoScale,
+  assessHazard
+} from '../hazard';
+
+describe('Hazard Module', () => {
+  describe('recurrence intervals', () => {
+    test('puts Chelyabinsk-size events at decades and 1 km impacts near a million years', () => {
+      expect(recurrenceIntervalForEnergy(0.5)).toBeGreaterThan(30);
+      expect(recurrenceIntervalForEnergy(0.5)).toBeLessThan(150);
+      expect(recurrenceIntervalForDiameter(1000)).toBeCloseTo(6e5, -3);
+    });
+
+    test('grows with energy and size', () => {
+      expect(recurrenceIntervalForEnergy(1e4)).toBeGreaterThan(recurrenceIntervalForEnergy(10));
+      expect(recurrenceIntervalForDiameter(140)).toBeGreaterThan(recurrenceIntervalForDiameter(40));
+    });
+  });
+
+  describe('torinoScale', () => {
+    test('rates certain collisions 8 to 10 by energy', () => {
+      expect(torinoScale(1, 100)).toBe(8);
+      expect(torinoScale(1, 1e4)).toBe(9);
+      expect(torinoScale(1, 1e6)).toBe(10);
+    });
+
+    test('rates small or unlikely events 0', () => {
+      expect(torinoScale(1, 0.5)).toBe(0);
+      expect(torinoScale(1e-9, 1e6)).toBe(0);
+    });
+
+    test('rates a 2.7% chance of a 1,000 Mt impact as threatening regional devastation', () => {
+      expect(torinoScale(0.027, 1200)).toBe(4);
+    });
+  });
+
+  describe('palermoScale', () => {
+    test('equals zero when the event matches the background risk', () => {
+      const energy = 100;
+      const years = 10;
+      const background = 0.03 * Math.pow(energy, -0.8) * years;
+      expect(palermoScale(background, energy, years)).toBeCloseTo(0, 10);
+    });
+  });
+
+  describe('assessHazard', () => {
+    test('adds scales only when a probability and date are supplied', () => {
+      const now = new Date('2030-01-01T00:00:00Z');
+      expect(assessHazard({ energy_mt: 500, now }).torino_scale).toBeUndefined();
+
+      const predicted = assessHazard({ energy_mt: 500, impact_probability: 0.01, impact_date: '2040-01-01', now });
+      expect(predicted.torino_scale).toBe(3);
+      expect(predicted.years_to_impact).toBeCloseTo(10, 1);
+      expect(predicted.palermo_scale).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { solveInverse } from '../inverse';
+import { simulateImpactor } from '../physics';
+
+describe('Inverse Module', () => {
+  const base = { diameter_m: 100, density_kgm3: 3000, velocity_kms: 20, angle_deg: 45, lat: 0, lng: 0 };
+
+  test('recovers the diameter that releases a chosen energy', () => {
+    const solution = solveInverse(base, 'impact_energy_mt', 100, 'diameter_m');
+    expect(solution.achieved / 100).toBeCloseTo(1, 2);
+    expect(simulateImpactor(solution.parameters).impact_energy_mt / 100).toBeCloseTo(1, 2);
+    expect(solution.parameters.velocity_kms).toBe(base.velocity_kms);
+  });
+
+  test('solves velocity for a crater with the diameter held fixed', () => {
+    const large = { ...base, diameter_m: 1000 };
+    const solution = solveInverse(large, 'crater_km', 2, 'velocity_kms');
+    expect(solution.value).toBeGreaterThanOrEqual(11);
+    expect(solution.value).toBeLessThanOrEqual(72);
+    expect(solution.achieved / 2).toBeCloseTo(1, 2);
+    expect(solution.parameters.diameter_m).toBe(1000);
+  });
+
+  test('reports a goal no input within bounds can reach', () => {
+    expect(() => solveInverse(base, 'crater_km', 5, 'velocity_kms')).toThrow('No velocity');
+    expect(() => solveInverse(base, 'crater_km', 0, 'diameter_m')).toThrow('greater than zero');
+  });
+
+  test('needs city data to solve for population', () => {
+    expect(() => solveInverse(base, 'population_affected', 1000, 'diameter_m')).toThrow('City data');
+    const solution = solveInverse(base, 'population_affected', 1000, 'diameter_m', {
+      populationOf: res => res.blast_radius_km * 100
+    });
+    expect(solution.achieved).toBeGreaterThanOrEqual(1000);
+  });
+});
@@ -0,0 +1,36 @@
+import { getModel, registerModel, listModels, DEFAULT_MODEL_IDS } from '../models';
+import { simulateImpactor } from '../physics';
+
+describe('Model Registry', () => {
+  const params = { diameter_m: 500, density_kgm3: 3000, velocity_kms: 20, angle_deg: 45, lat: 40, lng: -100 };
+
+  test('registers a default model for every stage', () => {
+    (Object.keys(DEFAULT_MODEL_IDS) as Array<keyof typeof DEFAULT_MODEL_IDS>).forEach(kind => {
+      expect(getModel(kind).id).toBe(DEFAULT_MODEL_IDS[kind]);
+      expect(listModels(kind).length).toBeGreaterThan(0);
+    });
+  });
+
+  test('rejects an unknown model id', () => {
+    expect(() => getModel('blast', 'no-such-model')).toThrow('Unknown blast model: no-such-model');
+  });
+
+  test('records model versions and swaps a stage by id', () => {
+    const base = getModel('crater');
+    registerModel('crater', {
+      ...base,
+      id: 'half-size',
+      version: '0.1',
+      label: 'Half-size craters',
+      finalDiameterMeters: transient => base.finalDiameterMeters(transient) / 2
+    });
+
+    const standard = simulateImpactor(params);
+    const swapped = simulateImpactor(params, { models: { crater: 'half-size' } });
+
+    expect(standard.model_versions?.crater).toEqual({ id: 'collins-2005', version: '1.0' });
+    expect(swapped.model_versions?.crater).toEqual({ id: 'half-size', version: '0.1' });
+    expect(swapped.model_versions?.blast).toEqual(standard.model_versions?.blast);
+    expect(swapped.crater_km).toBeCloseTo(standard.crater_km / 2, 6);
+  });
+});
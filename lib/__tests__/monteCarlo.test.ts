@@ -0,0 +1,77 @@
+import {
+  createRng,
+  sampleDistribution,
+  percentile,
+  runMonteCarlo,
+  distributionAround
+} from '../monteCarlo';
+
+describe('Monte Carlo Module', () => {
+  describe('createRng', () => {
+    test('repeats the same sequence for the same seed', () => {
+      const a = createRng(7);
+      const b = createRng(7);
+      for (let i = 0; i < 10; i++) {
+        expect(a()).toBe(b());
+      }
+    });
+
+    test('returns values in [0, 1)', () => {
+      const rng = createRng(123);
+      for (let i = 0; i < 1000; i++) {
+        const x = rng();
+        expect(x).toBeGreaterThanOrEqual(0);
+        expect(x).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('sampleDistribution', () => {
+    test('keeps uniform draws inside the bounds', () => {
+      const rng = createRng(1);
+      for (let i = 0; i < 500; i++) {
+        const x = sampleDistribution({ kind: 'uniform', min: 30, max: 60 }, rng);
+        expect(x).toBeGreaterThanOrEqual(30);
+        expect(x).toBeLessThanOrEqual(60);
+      }
+    });
+
+    test('centres log-normal draws on the median', () => {
+      const rng = createRng(2);
+      const draws = Array.from({ length: 4000 }, () => sampleDistribution({ kind: 'lognormal', median: 100, sigma: 0.5 }, rng));
+      const sorted = draws.sort((a, b) => a - b);
+      expect(percentile(sorted, 50)).toBeGreaterThan(90);
+      expect(percentile(sorted, 50)).toBeLessThan(110);
+    });
+  });
+
+  describe('percentile', () => {
+    test('interpolates between order statistics', () => {
+      expect(percentile([0, 10, 20, 30, 40], 50)).toBe(20);
+      expect(percentile([0, 10], 25)).toBeCloseTo(2.5, 10);
+    });
+  });
+
+  describe('runMonteCarlo', () => {
+    const base = { diameter_m: 500, density_kgm3: 3000, velocity_kms: 20, angle_deg: 45, lat: 40, lng: -100 };
+    const distributions = {
+      diameter_m: distributionAround(500, 'lognormal', 0.3),
+      velocity_kms: distributionAround(20, 'normal', 0.1)
+    };
+
+    test('orders the percentiles and is reproducible for a seed', () => {
+      const first = runMonteCarlo(base, distributions, { samples: 50, seed: 9 });
+      const second = runMonteCarlo(base, distributions, { samples: 50, seed: 9 });
+      expect(first).toEqual(second);
+      expect(first.impact_energy_mt.p5).toBeLessThan(first.impact_energy_mt.p50);
+      expect(first.impact_energy_mt.p50).toBeLessThan(first.impact_energy_mt.p95);
+      expect(first.zone_radii_km['blast_1psi'].p95).toBeGreaterThan(first.zone_radii_km['blast_1psi'].p5);
+    });
+
+    test('summarises the population step when one is supplied', () => {
+      const summary = runMonteCarlo(base, distributions, { samples: 20, populationOf: res => res.blast_radius_km * 100 });
+      expect(summary.population_affected).toBeDefined();
+      expect(summary.population_affected!.p95).toBeGreaterThanOrEqual(summary.population_affected!.p5);
+    });
+  });
+});
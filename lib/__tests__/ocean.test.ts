@@ -0,0 +1,42 @@
+import { simulateOceanImpact, waterCavityDiameterMeters, seafloorVelocityMps } from '../ocean';
+
+describe('Ocean Module', () => {
+  const body = { diameter_m: 500, density_kgm3: 3000, velocity_mps: 20000, angle_deg: 45 };
+  const cavityDepth = waterCavityDiameterMeters(500, 3000, 20000, 45) / (2 * Math.SQRT2);
+
+  describe('seafloor reach', () => {
+    test('reaches the seafloor only when the water is shallower than the cavity', () => {
+      const shallow = simulateOceanImpact({ ...body, waterDepth_m: cavityDepth * 0.99 });
+      const deep = simulateOceanImpact({ ...body, waterDepth_m: cavityDepth * 1.01 });
+      expect(shallow.reachesSeafloor).toBe(true);
+      expect(shallow.seafloorVelocity_mps).toBeGreaterThan(0);
+      expect(deep.reachesSeafloor).toBe(false);
+      expect(deep.seafloorVelocity_mps).toBe(0);
+    });
+
+    test('loses more speed through a deeper water column', () => {
+      const v1 = seafloorVelocityMps(500, 3000, 20000, 45, 500);
+      const v2 = seafloorVelocityMps(500, 3000, 20000, 45, 2000);
+      expect(v1).toBeLessThan(20000);
+      expect(v2).toBeLessThan(v1);
+    });
+  });
+
+  describe('rim wave', () => {
+    test('starts at a fourteenth of the cavity and never exceeds the water depth', () => {
+      const open = simulateOceanImpact({ ...body, waterDepth_m: 4000 });
+      expect(open.tsunamiAmplitude_m).toBeCloseTo(open.cavityDiameter_m / 14.1, 6);
+      expect(open.tsunamiSourceRadius_m).toBeCloseTo(open.cavityDiameter_m / 2, 6);
+
+      const coastal = simulateOceanImpact({ ...body, waterDepth_m: 50 });
+      expect(coastal.tsunamiAmplitude_m).toBe(50);
+    });
+
+    test('grows with impactor size', () => {
+      const small = simulateOceanImpact({ ...body, diameter_m: 100, waterDepth_m: 4000 });
+      const large = simulateOceanImpact({ ...body, diameter_m: 1000, waterDepth_m: 4000 });
+      expect(large.cavityDiameter_m).toBeGreaterThan(small.cavityDiameter_m);
+      expect(large.tsunamiAmplitude_m).toBeGreaterThan(small.tsunamiAmplitude_m);
+    });
+  });
+});
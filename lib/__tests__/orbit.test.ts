@@ -0,0 +1,40 @@
+import { computeEncounter, impactParametersFromOrbit, DEFAULT_ORBITAL_ELEMENTS } from '../orbit';
+
+describe('Orbit Module', () => {
+  const chelyabinsk = { lat: 55.15, lng: 61.41 };
+
+  describe('computeEncounter', () => {
+    test('recovers the Chelyabinsk speed, radiant and date from its orbit', () => {
+      const encounter = computeEncounter(DEFAULT_ORBITAL_ELEMENTS, chelyabinsk);
+      // Observed: 19.0 km/s, radiant RA 333.8°, Dec +0.3°, 15 February 2013
+      expect(encounter.impact_velocity_kms).toBeGreaterThan(18.5);
+      expect(encounter.impact_velocity_kms).toBeLessThan(19.5);
+      expect(encounter.radiant_ra_deg).toBeCloseTo(333.8, 0);
+      expect(Math.abs(encounter.radiant_dec_deg - 0.3)).toBeLessThan(1);
+      expect(encounter.impact_date.slice(0, 7)).toBe('2013-02');
+    });
+
+    test('reproduces the shallow westward entry at the observed time', () => {
+      const encounter = computeEncounter(DEFAULT_ORBITAL_ELEMENTS, chelyabinsk, { time_utc_hours: 3.33 });
+      expect(encounter.impact_angle_deg).toBeGreaterThan(14);
+      expect(encounter.impact_angle_deg).toBeLessThan(24);
+      expect(encounter.azimuth_deg).toBeGreaterThan(270);
+      expect(encounter.azimuth_deg).toBeLessThan(295);
+    });
+
+    test('rejects orbits that never reach 1 AU', () => {
+      expect(() => computeEncounter({ ...DEFAULT_ORBITAL_ELEMENTS, a_au: 2.7, e: 0.1 }, chelyabinsk))
+        .toThrow('Orbit does not cross');
+    });
+  });
+
+  test('impactParametersFromOrbit keeps the body and sets the encounter geometry', () => {
+    const base = { diameter_m: 20, density_kgm3: 3300, velocity_kms: 30, angle_deg: 90 };
+    const params = impactParametersFromOrbit(base, DEFAULT_ORBITAL_ELEMENTS, chelyabinsk);
+    expect(params.diameter_m).toBe(20);
+    expect(params.velocity_kms).toBeLessThan(30);
+    expect(params.angle_deg).toBeLessThanOrEqual(90);
+    expect(params.lat).toBe(chelyabinsk.lat);
+    expect(params.impact_date).toBeDefined();
+  });
+});
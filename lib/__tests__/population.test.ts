@@ -0,0 +1,70 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseAsciiGrid, gridPopulationByZones, gridPopulationForResult, setPopulationGrid } from '../population';
+import { estimatePopulation } from '../models';
+import { simulateImpactor } from '../physics';
+
+const KM_PER_DEGREE = (6371 * Math.PI) / 180;
+
+// Cells of 0.5° from 10°S to 10°N and 10°W to 10°E, all at the same density
+function uniformGrid(peoplePerKm2: number): string {
+  const cellsize = 0.5;
+  const rows: string[] = [];
+  for (let row = 0; row < 40; row++) {
+    const lat = 10 - (row + 0.5) * cellsize;
+    const area = Math.pow(cellsize * KM_PER_DEGREE, 2) * Math.cos((lat * Math.PI) / 180);
+    rows.push(Array(40).fill((peoplePerKm2 * area).toFixed(3)).join(' '));
+  }
+  return ['ncols 40', 'nrows 40', 'xllcorner -10', 'yllcorner -10', `cellsize ${cellsize}`, 'NODATA_value -9999', ...rows].join('\n');
+}
+
+describe('Population Grid', () => {
+  const grid = parseAsciiGrid(uniformGrid(100), 'uniform');
+
+  afterEach(() => setPopulationGrid(null));
+
+  test('reads an ESRI ASCII grid and zeroes no-data cells', () => {
+    const small = parseAsciiGrid('ncols 2\nnrows 1\nxllcorner 0\nyllcorner 0\ncellsize 1\nNODATA_value -9999\n5 -9999', 'small');
+    expect(small.values[0]).toBe(5);
+    expect(small.values[1]).toBe(0);
+    expect(() => parseAsciiGrid('ncols 2\nnrows 2\nxllcorner 0\nyllcorner 0\ncellsize 1\n1 2 3', 'short')).toThrow('expected 4');
+  });
+
+  test('weights partial cells so a zone holds density × area', () => {
+    const counts = gridPopulationByZones(grid, 0.1, 0.2, 300, 120, 5);
+    expect(counts.blastPop / (100 * Math.PI * 300 * 300)).toBeCloseTo(1, 1);
+    expect(counts.thermalPop / (100 * Math.PI * 120 * 120)).toBeCloseTo(1, 1);
+    // A crater far smaller than one cell still takes its share of the cell
+    expect(counts.craterPop / (100 * Math.PI * 5 * 5)).toBeGreaterThan(0.9);
+    expect(counts.craterPop / (100 * Math.PI * 5 * 5)).toBeLessThan(1.1);
+  });
+
+  test('records the grid as the source and keeps the affected city list', () => {
+    const result = simulateImpactor({ diameter_m: 200, density_kgm3: 3000, velocity_kms: 20, angle_deg: 45, lat: 0, lng: 0 });
+    const cities = [{ geometry: { coordinates: [0, 0] as [number, number] }, properties: { city: 'Centre', population: 1000 } }];
+    const estimate = gridPopulationForResult(grid, cities, result);
+    expect(estimate.source).toEqual({ kind: 'grid', name: 'uniform', resolution_deg: 0.5 });
+    expect(estimate.cityResults.map(c => c.city)).toEqual(['Centre']);
+    expect(estimate.thermalPop).toBeGreaterThan(1000);
+  });
+
+  test('the bundled grid holds the world population and counts rural areas', () => {
+    const bundled = parseAsciiGrid(readFileSync(join(__dirname, '../../public/data/population/population_count_1deg.asc'), 'utf8'), 'bundled');
+    const total = bundled.values.reduce((sum, v) => sum + v, 0);
+    expect(total).toBeGreaterThan(7e9);
+    expect(total).toBeLessThan(8e9);
+
+    // Central Iowa holds no city of the point dataset but a few hundred thousand people
+    const counts = gridPopulationByZones(bundled, 42.0, -93.5, 50, 50, 1);
+    expect(counts.blastPop).toBeGreaterThan(5e4);
+    expect(gridPopulationByZones(bundled, 30, -40, 50, 50, 1).blastPop).toBe(0); // open Atlantic
+  });
+
+  test('the default population model falls back to city points without a grid', () => {
+    const result = simulateImpactor({ diameter_m: 200, density_kgm3: 3000, velocity_kms: 20, angle_deg: 45, lat: 0, lng: 0 });
+    const cities = [{ geometry: { coordinates: [0, 0] as [number, number] }, properties: { city: 'Centre', population: 1000 } }];
+    expect(estimatePopulation(cities, result).source?.kind).toBe('city_points');
+    setPopulationGrid(grid);
+    expect(estimatePopulation(cities, result).source?.kind).toBe('grid');
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  computeMmiRings,
+  magnitudeFromEnergy,
+  mmiAt,
+  radiusForMmi,
+  toRomanMmi,
+  seismicArrivalSeconds
+} from '../seismic';
+
+describe('Seismic Module', () => {
+  test('magnitude follows Collins eq. 40 and is clamped to 0–12', () => {
+    expect(magnitudeFromEnergy(1e18)).toBeCloseTo(0.67 * 18 - 5.87, 6);
+    expect(magnitudeFromEnergy(1)).toBe(0);
+    expect(magnitudeFromEnergy(1e40)).toBe(12);
+  });
+
+  test('intensity falls off with distance', () => {
+    expect(mmiAt(8, 0)).toBeGreaterThanOrEqual(mmiAt(8, 100));
+    expect(mmiAt(8, 100)).toBeGreaterThanOrEqual(mmiAt(8, 1000));
+    expect(mmiAt(8, 1000)).toBeGreaterThan(mmiAt(8, 10000));
+    expect(mmiAt(0, 0)).toBe(1);
+  });
+
+  describe('computeMmiRings', () => {
+    test('orders rings strongest and smallest first', () => {
+      const rings = computeMmiRings(8);
+      expect(rings.map(r => r.mmi)).toEqual([9, 7, 5]);
+      expect(rings.map(r => r.roman)).toEqual(['IX', 'VII', 'V']);
+      expect(rings[0].radius_km).toBeGreaterThan(0);
+      expect(rings[0].radius_km).toBeLessThan(rings[1].radius_km);
+      expect(rings[1].radius_km).toBeLessThan(rings[2].radius_km);
+      rings.forEach(r => {
+        expect(r.radius_m).toBeCloseTo(r.radius_km * 1000, 6);
+        expect(r.arrival_s).toBeCloseTo(seismicArrivalSeconds(r.radius_km), 6);
+      });
+    });
+
+    test('each ring edge sits at its intensity level', () => {
+      const radius = radiusForMmi(8, 7);
+      expect(mmiAt(8, radius * 0.99)).toBeGreaterThanOrEqual(7);
+      expect(mmiAt(8, radius * 1.01)).toBeLessThan(7);
+    });
+
+    test('small impacts leave the strongest rings empty', () => {
+      const rings = computeMmiRings(4);
+      expect(rings[0].radius_km).toBe(0);
+      expect(radiusForMmi(4, 9)).toBe(0);
+    });
+  });
+
+  test('Roman numerals are clamped to I–XII', () => {
+    expect(toRomanMmi(0)).toBe('I');
+    expect(toRomanMmi(7.6)).toBe('VII');
+    expect(toRomanMmi(15)).toBe('XII');
+  });
+});
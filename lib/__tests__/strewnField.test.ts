@@ -0,0 +1,53 @@
+import { computeStrewnField, landFragments, fragmentStrengthPa, STREWN_FIELD_MASS_BINS } from '../strewnField';
+import { simulateImpactor } from '../physics';
+import { IMPACTOR_PRESETS } from '../../types';
+
+describe('Strewn Field Module', () => {
+  const chelyabinsk = IMPACTOR_PRESETS.find(p => p.name === 'Chelyabinsk')!;
+  const result = simulateImpactor({ ...chelyabinsk.parameters, lat: chelyabinsk.location!.lat, lng: chelyabinsk.location!.lon });
+
+  test('Chelyabinsk bursts in the air and drops meteorites', () => {
+    expect(result.is_airburst).toBe(true);
+    const field = result.strewn_field;
+    expect(field).toBeTruthy();
+    expect(field!.bins.length).toBeGreaterThan(0);
+    expect(field!.total_mass_kg).toBeGreaterThan(0);
+    expect(field!.fragment_count).toBeGreaterThan(0);
+  });
+
+  test('bins run heaviest first and heavier pieces land further downrange', () => {
+    const bins = result.strewn_field!.bins;
+    const order = STREWN_FIELD_MASS_BINS.map(b => b.label);
+    for (let i = 1; i < bins.length; i++) {
+      expect(order.indexOf(bins[i].label)).toBeGreaterThan(order.indexOf(bins[i - 1].label));
+      expect(bins[i].downrange_km).toBeLessThan(bins[i - 1].downrange_km);
+    }
+  });
+
+  test('the overall ellipse encloses every bin', () => {
+    const field = result.strewn_field!;
+    field.bins.forEach(bin => {
+      expect(bin.downrange_km - bin.semi_major_km).toBeGreaterThanOrEqual(field.downrange_km - field.semi_major_km - 1e-9);
+      expect(bin.downrange_km + bin.semi_major_km).toBeLessThanOrEqual(field.downrange_km + field.semi_major_km + 1e-9);
+      expect(bin.semi_minor_km).toBeLessThanOrEqual(field.semi_minor_km);
+    });
+  });
+
+  test('smaller fragments are stronger', () => {
+    expect(fragmentStrengthPa(1, 1e6, 1e6)).toBeGreaterThan(fragmentStrengthPa(1000, 1e6, 1e6));
+    expect(fragmentStrengthPa(1e6, 1e6, 1e6)).toBe(1e6);
+  });
+
+  test('a body too small to leave fragments has no strewn field', () => {
+    const input = {
+      breakupAltitude_m: 40_000,
+      breakupVelocity_mps: 19_000,
+      breakupMass_kg: 0.001,
+      strength_pa: 1e6,
+      density_kgm3: 3300,
+      angle_deg: 45
+    };
+    expect(landFragments(input)).toEqual([]);
+    expect(computeStrewnField(input)).toBeNull();
+  });
+});
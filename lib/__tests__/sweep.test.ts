@@ -0,0 +1,42 @@
+import { sweepValues, runSweep1D, runSweep2D, tornadoSensitivity } from '../sweep';
+
+describe('Sweep Module', () => {
+  const base = { diameter_m: 200, density_kgm3: 3000, velocity_kms: 20, angle_deg: 45, lat: 0, lng: 0 };
+
+  test('spaces values geometrically on a log range and clamps to the valid bounds', () => {
+    const values = sweepValues({ parameter: 'diameter_m', min: 10, max: 1000, steps: 3, log: true });
+    expect(values[1]).toBeCloseTo(100, 8);
+    const angles = sweepValues({ parameter: 'angle_deg', min: 0, max: 120, steps: 5 });
+    expect(angles[0]).toBe(1);
+    expect(angles[angles.length - 1]).toBe(90);
+  });
+
+  test('energy grows with diameter along a 1D sweep', () => {
+    const sweep = runSweep1D(base, { parameter: 'diameter_m', min: 50, max: 500, steps: 5 });
+    const energy = sweep.outputs.impact_energy_mt!;
+    expect(energy).toHaveLength(5);
+    energy.slice(1).forEach((e, i) => expect(e).toBeGreaterThan(energy[i]));
+    expect(sweep.outputs.population_affected).toBeUndefined();
+  });
+
+  test('a 2D sweep fills a row per y value and matches the 1D sweep along its edge', () => {
+    const x = { parameter: 'diameter_m' as const, min: 50, max: 500, steps: 4 };
+    const y = { parameter: 'velocity_kms' as const, min: 15, max: 30, steps: 3 };
+    const grid = runSweep2D(base, x, y).outputs.crater_km!;
+    expect(grid).toHaveLength(3);
+    expect(grid[0]).toHaveLength(4);
+    const edge = runSweep1D({ ...base, velocity_kms: 15 }, x).outputs.crater_km!;
+    grid[0].forEach((value, i) => expect(value).toBeCloseTo(edge[i], 10));
+    expect(() => runSweep2D(base, x, { ...x })).toThrow('two different parameters');
+  });
+
+  test('ranks diameter above density for impact energy', () => {
+    const tornado = tornadoSensitivity(base, 'impact_energy_mt');
+    const order = tornado.bars.map(b => b.parameter);
+    expect(order[0]).toBe('diameter_m');
+    expect(order.indexOf('diameter_m')).toBeLessThan(order.indexOf('density_kgm3'));
+    // Energy does not depend on the entry angle
+    expect(tornado.bars.find(b => b.parameter === 'angle_deg')!.swing).toBe(0);
+    expect(() => tornadoSensitivity(base, 'population_affected')).toThrow('City data');
+  });
+});
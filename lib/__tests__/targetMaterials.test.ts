@@ -0,0 +1,32 @@
+import { TARGET_MATERIALS, DEFAULT_TARGET_MATERIAL, getTargetMaterial } from '../../data/targetMaterials';
+import type { TargetMaterial } from '../../types';
+import { simulateImpactor } from '../physics';
+
+describe('Target Materials', () => {
+  test('every preset is keyed by its own id with physical properties', () => {
+    Object.entries(TARGET_MATERIALS).forEach(([key, material]) => {
+      expect(material.id).toBe(key);
+      expect(material.density_kgm3).toBeGreaterThan(0);
+      expect(material.strength_pa).toBeGreaterThan(0);
+      expect(material.coupling_exponent).toBeGreaterThan(0);
+      expect(material.coupling_exponent).toBeLessThan(1);
+    });
+  });
+
+  test('falls back to crystalline rock', () => {
+    expect(DEFAULT_TARGET_MATERIAL).toBe('crystalline');
+    expect(getTargetMaterial().id).toBe('crystalline');
+    expect(getTargetMaterial('no-such-target' as TargetMaterial).id).toBe('crystalline');
+    expect(getTargetMaterial('ice')).toBe(TARGET_MATERIALS.ice);
+  });
+
+  test('the selected target changes the crater and is recorded on the result', () => {
+    const params = { diameter_m: 100, density_kgm3: 7800, velocity_kms: 17, angle_deg: 45, lat: 35, lng: -111 };
+    const rock = simulateImpactor({ ...params, target: 'crystalline' });
+    const soil = simulateImpactor({ ...params, target: 'dry_soil' });
+    expect(rock.target_material).toBe('crystalline');
+    expect(soil.target_material).toBe('dry_soil');
+    expect(soil.crater_km).toBeGreaterThan(rock.crater_km);
+    expect(simulateImpactor(params).crater_km).toBeCloseTo(rock.crater_km, 6);
+  });
+});
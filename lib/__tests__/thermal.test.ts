@@ -0,0 +1,49 @@
+import { computeThermalZones, thermalFluenceAt, scaledThresholdFluence, fireballRadiusMeters, AIRBURST_LUMINOUS_EFFICIENCY } from '../thermal';
+import { simulateImpactor } from '../physics';
+import { populationForResult, affectedPopulation } from '../impact';
+
+describe('Thermal Module', () => {
+  const MT = 4.184e15;
+
+  test('ground impacts form zones strongest first, each at its threshold fluence', () => {
+    const { zones, fireballRadius_m } = computeThermalZones({ energy_j: 100 * MT, velocity_mps: 20000 });
+    expect(fireballRadius_m).toBeCloseTo(fireballRadiusMeters(100 * MT), 6);
+    expect(zones.map(z => z.key)).toEqual(['clothing_ignition', 'third_degree_burns', 'second_degree_burns']);
+    expect(zones[0].radius_km).toBeGreaterThan(0);
+    expect(zones[0].radius_km).toBeLessThan(zones[2].radius_km);
+    expect(thermalFluenceAt(zones[2].radius_m, 100 * MT) / zones[2].fluence_jm2).toBeCloseTo(1, 3);
+  });
+
+  test('ground impacts below 15 km/s form no fireball', () => {
+    const { zones, thermalEnergy_j } = computeThermalZones({ energy_j: 100 * MT, velocity_mps: 13000 });
+    expect(thermalEnergy_j).toBe(0);
+    zones.forEach(z => expect(z.radius_m).toBe(0));
+  });
+
+  test('airbursts radiate a larger share of their energy from the burst point', () => {
+    // Tunguska-like: 10 Mt at 8.5 km
+    const { zones, thermalEnergy_j } = computeThermalZones({ energy_j: 10 * MT, burstAltitude_m: 8500 });
+    expect(thermalEnergy_j).toBeCloseTo(AIRBURST_LUMINOUS_EFFICIENCY * 10 * MT, 0);
+    expect(zones[0].radius_km).toBeGreaterThan(0);
+    expect(zones[0].radius_km).toBeLessThan(zones[2].radius_km);
+    expect(thermalFluenceAt(zones[2].radius_m, 10 * MT, 8500) / zones[2].fluence_jm2).toBeCloseTo(1, 3);
+  });
+
+  test('a small, high airburst leaves the ground below every threshold', () => {
+    // Chelyabinsk-like: 0.5 Mt at 30 km
+    const { zones } = computeThermalZones({ energy_j: 0.5 * MT, burstAltitude_m: 30000 });
+    zones.forEach(z => expect(z.radius_m).toBe(0));
+    expect(thermalFluenceAt(0, 0.5 * MT, 30000)).toBeLessThan(scaledThresholdFluence(0.25, 0.5 * MT));
+  });
+
+  test('people in the blast zone still count as affected when there is no thermal zone', () => {
+    const slow = simulateImpactor({ diameter_m: 300, density_kgm3: 3000, velocity_kms: 13, angle_deg: 90, lat: 0, lng: 0 });
+    expect(slow.thermal_radius_km).toBe(0);
+    expect(slow.blast_radius_km).toBeGreaterThan(0);
+
+    const cities = [{ geometry: { coordinates: [0.05, 0] as [number, number] }, properties: { city: 'Near', population: 50000 } }];
+    const estimate = populationForResult(cities, slow);
+    expect(estimate.thermalPop).toBe(0);
+    expect(affectedPopulation(estimate)).toBe(50000);
+  });
+});
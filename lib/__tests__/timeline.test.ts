@@ -0,0 +1,57 @@
+import { arrivalTimesAt, computeEventTimeline, thermalDurationSeconds } from '../timeline';
+import { simulateImpactor } from '../physics';
+
+describe('Timeline Module', () => {
+  // 300 m stony body on land: crater, fireball, blast, shaking and ejecta
+  const result = simulateImpactor({ diameter_m: 300, density_kgm3: 3000, velocity_kms: 20, angle_deg: 90, lat: 0, lng: 0 });
+
+  describe('arrivalTimesAt', () => {
+    test('heat arrives first, then shaking, then the air blast', () => {
+      const arrivals = arrivalTimesAt(result, 5);
+      expect(arrivals.thermal_s).not.toBeNull();
+      expect(arrivals.seismic_s).toBeCloseTo(1, 6); // 5 km at 5 km/s
+      expect(arrivals.air_blast_s).not.toBeNull();
+      expect(arrivals.thermal_s!).toBeLessThan(1e-4);
+      expect(arrivals.seismic_s!).toBeLessThan(arrivals.air_blast_s!);
+      expect(arrivals.thermal_duration_s).toBeCloseTo(thermalDurationSeconds(result), 6);
+    });
+
+    test('later arrivals further out', () => {
+      const near = arrivalTimesAt(result, 2);
+      const far = arrivalTimesAt(result, 8);
+      expect(far.seismic_s!).toBeGreaterThan(near.seismic_s!);
+      expect(far.air_blast_s!).toBeGreaterThan(near.air_blast_s!);
+    });
+
+    test('no ejecta inside the crater and nothing beyond the reach of every effect', () => {
+      expect(arrivalTimesAt(result, result.crater_km / 4).ejecta_s).toBeNull();
+      expect(arrivalTimesAt(result, 19_000)).toEqual({
+        thermal_s: null,
+        thermal_duration_s: null,
+        seismic_s: null,
+        air_blast_s: null,
+        ejecta_s: null
+      });
+    });
+  });
+
+  describe('computeEventTimeline', () => {
+    test('lists every effect earliest first, starting with the thermal pulse at impact', () => {
+      const events = computeEventTimeline(result);
+      expect(events.length).toBeGreaterThan(0);
+      expect(events[0].effect).toBe('thermal');
+      expect(events[0].arrival_s).toBe(0);
+      for (let i = 1; i < events.length; i++) {
+        expect(events[i].arrival_s).toBeGreaterThanOrEqual(events[i - 1].arrival_s);
+      }
+      const effects = new Set(events.map(e => e.effect));
+      expect(effects.has('seismic')).toBe(true);
+      expect(effects.has('air_blast')).toBe(true);
+    });
+
+    test('leaves out the thermal pulse when there is no fireball', () => {
+      const slow = simulateImpactor({ diameter_m: 300, density_kgm3: 3000, velocity_kms: 13, angle_deg: 90, lat: 0, lng: 0 });
+      expect(computeEventTimeline(slow).some(e => e.effect === 'thermal')).toBe(false);
+    });
+  });
+});
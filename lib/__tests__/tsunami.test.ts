@@ -0,0 +1,70 @@
+import {
+  tsunamiAmplitudeAt,
+  runupHeightMeters,
+  waveSpeedMps,
+  tsunamiTravelTimes,
+  propagateTsunami
+} from '../tsunami';
+import { classifyTargetSurface } from '../bathymetry';
+
+describe('Tsunami Module', () => {
+  const source = { lat: 30, lng: -140, amplitude_m: 500, sourceRadius_m: 5000 };
+
+  describe('tsunamiAmplitudeAt', () => {
+    test('equals the source amplitude inside the cavity rim', () => {
+      expect(tsunamiAmplitudeAt(source, 1)).toBeCloseTo(500, 6);
+    });
+
+    test('decays as 1/r beyond the rim', () => {
+      expect(tsunamiAmplitudeAt(source, 100)).toBeCloseTo(25, 6);
+      expect(tsunamiAmplitudeAt(source, 1000)).toBeCloseTo(2.5, 6);
+    });
+  });
+
+  describe('runupHeightMeters', () => {
+    test('grows faster than linearly with amplitude', () => {
+      const small = runupHeightMeters(1, 1000);
+      const large = runupHeightMeters(2, 1000);
+      expect(large / small).toBeGreaterThan(2);
+    });
+
+    test('is zero without a wave', () => {
+      expect(runupHeightMeters(0, 1000)).toBe(0);
+    });
+  });
+
+  describe('waveSpeedMps', () => {
+    test('uses the shallow-water speed sqrt(g·h)', () => {
+      expect(waveSpeedMps(4000)).toBeCloseTo(Math.sqrt(9.81 * 4000), 6);
+    });
+  });
+
+  describe('tsunamiTravelTimes', () => {
+    test('returns no arrivals for a land source', () => {
+      expect(classifyTargetSurface(40, -100).surface).toBe('land');
+      const times = tsunamiTravelTimes(40, -100);
+      expect(times.every(t => t === Infinity)).toBe(true);
+    });
+  });
+
+  describe('propagateTsunami', () => {
+    const cities = [
+      { name: 'Honolulu', country: 'United States', lat: 21.3, lon: -157.85, population: 1_000_000 },
+      { name: 'Tokyo', country: 'Japan', lat: 35.68, lon: 139.7, population: 37_000_000 },
+      { name: 'Denver', country: 'United States', lat: 39.7, lon: -105, population: 700_000 }
+    ];
+
+    test('orders coastal cities by arrival time and skips inland cities', () => {
+      const result = propagateTsunami(source, cities);
+      expect(result.arrivals.map(a => a.name)).toEqual(['Honolulu', 'Tokyo']);
+      expect(result.arrivals[0].arrival_s).toBeLessThan(result.arrivals[1].arrival_s);
+      expect(result.arrivals[0].runup_m).toBeGreaterThan(result.arrivals[1].runup_m);
+    });
+
+    test('produces wave-front isochrones', () => {
+      const result = propagateTsunami(source, cities);
+      expect(result.isochrones.length).toBeGreaterThan(0);
+      expect(result.isochrones[0].lines[0].length).toBeGreaterThan(1);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+// Atmospheric entry of an impactor: exponential atmosphere, drag deceleration,
+// ablation and pancake-style fragmentation (Chyba et al. 1993; Collins et al. 2005).
+
+// Atmosphere and entry constants
+export const SEA_LEVEL_AIR_DENSITY = 1.225; // kg/m^3
+export const SCALE_HEIGHT_M = 8000; // m
+export const ENTRY_ALTITUDE_M = 100_000; // top of the modelled atmosphere
+const DRAG_COEFFICIENT = 2.0;
+const HEAT_TRANSFER_COEFFICIENT = 0.1;
+const HEAT_OF_ABLATION = 8e6; // J/kg
+const PANCAKE_FACTOR = 7; // spread diameter at which the debris cloud is considered burst
+const ALTITUDE_STEP_M = 50; // vertical integration step
+
+export interface AtmosphericEntryInput {
+  diameter_m: number;
+  density_kgm3: number;
+  velocity_mps: number;
+  angle_deg: number;
+  strength_pa?: number; // yield strength; derived from density when omitted
+}
+
+export interface AtmosphericEntryResult {
+  isAirburst: boolean;
+  breakupAltitude_m: number | null; // where ram pressure first exceeds strength
+  breakupVelocity_mps: number | null;
+  breakupMass_kg: number | null;
+  strength_pa: number; // yield strength used for breakup
+  burstAltitude_m: number | null; // where the pancake reaches PANCAKE_FACTOR × initial diameter, or of peak deposition for a body stopped aloft
+  burstEnergy_j: number; // kinetic energy deposited in the atmosphere
+  surfaceVelocity_mps: number;
+  surfaceMass_kg: number;
+  surfaceEnergy_j: number;
+  surfaceDiameter_m: number; // equivalent intact diameter of the mass reaching the ground
+}
+
+export function airDensityAt(altitude_m: number): number {
+  return SEA_LEVEL_AIR_DENSITY * Math.exp(-Math.max(altitude_m, 0) / SCALE_HEIGHT_M);
+}
+
+// Collins et al. (2005) eq. 10: empirical yield strength from bulk density
+export function yieldStrengthFromDensity(density_kgm3: number): number {
+  return Math.pow(10, 2.107 + 0.0624 * Math.sqrt(density_kgm3));
+}
+
+export function simulateAtmosphericEntry(input: AtmosphericEntryInput): AtmosphericEntryResult {
+  const { diameter_m, density_kgm3, velocity_mps, angle_deg } = input;
+  const strength = input.strength_pa ?? yieldStrengthFromDensity(density_kgm3);
+  const sinTheta = Math.max(Math.sin((Math.abs(angle_deg) * Math.PI) / 180), 0.05);
+
+  const initialMass = (Math.PI / 6) * Math.pow(diameter_m, 3) * density_kgm3;
+  const initialEnergy = 0.5 * initialMass * velocity_mps * velocity_mps;
+
+  let z = ENTRY_ALTITUDE_M;
+  let v = velocity_mps;
+  let m = initialMass;
+  let L = diameter_m; // current (possibly flattened) diameter
+  let dLdt = 0;
+  let breakupAltitude: number | null = null;
+  let breakupVelocity: number | null = null;
+  let breakupMass: number | null = null;
+  let burstAltitude: number | null = null;
+  let burstEnergy = 0;
+  let peakDeposition = 0;
+  let peakDepositionAltitude: number | null = null;
+  const maxL = PANCAKE_FACTOR * diameter_m;
+
+  while (z > 0 && v > 1 && m > 0) {
+    const step = Math.min(ALTITUDE_STEP_M, z);
+    const dt = step / (v * sinTheta);
+    const rhoA = airDensityAt(z);
+    const area = (Math.PI / 4) * L * L;
+    const ramPressure = rhoA * v * v;
+
+    // Drag and ablation
+    const dv = (-(DRAG_COEFFICIENT * rhoA * area * v * v) / (2 * m)) * dt;
+    const dm = (-(HEAT_TRANSFER_COEFFICIENT * rhoA * area * v * v * v) / (2 * HEAT_OF_ABLATION)) * dt;
+
+    // Pancake spreading once ram pressure exceeds strength
+    if (breakupAltitude === null && ramPressure > strength) {
+      breakupAltitude = z;
+      breakupVelocity = v;
+      breakupMass = m;
+    }
+    if (breakupAltitude !== null && L < maxL) {
+      const d2Ldt2 = (DRAG_COEFFICIENT * rhoA * v * v) / (density_kgm3 * L);
+      dLdt += d2Ldt2 * dt;
+      L = Math.min(L + dLdt * dt, maxL);
+      if (L >= maxL && burstAltitude === null) {
+        burstAltitude = z;
+      }
+    }
+
+    const energyBefore = 0.5 * m * v * v;
+    v = Math.max(v + dv, 0);
+    m = Math.max(m + dm, 0);
+    // Steps are equal in altitude, so the largest loss marks the peak of dE/dz
+    const deposited = energyBefore - 0.5 * m * v * v;
+    if (deposited > peakDeposition) {
+      peakDeposition = deposited;
+      peakDepositionAltitude = z;
+    }
+    // Step by altitude directly: recomputing it from the updated speed can leave a
+    // residue that never reaches zero
+    z -= step;
+  }
+
+  const surfaceVelocity = z <= 0 ? v : 0;
+  const surfaceMass = z <= 0 ? m : 0;
+  const surfaceEnergy = 0.5 * surfaceMass * surfaceVelocity * surfaceVelocity;
+  // A body brought to rest or ablated away above ground before the pancake fully
+  // spreads still released its energy aloft, centred where deposition peaked
+  if (burstAltitude === null && z > 0) {
+    burstAltitude = peakDepositionAltitude;
+  }
+  const isAirburst = burstAltitude !== null && burstAltitude > 0;
+  if (isAirburst) {
+    burstEnergy = initialEnergy - surfaceEnergy;
+  }
+
+  return {
+    isAirburst,
+    breakupAltitude_m: breakupAltitude,
+    breakupVelocity_mps: breakupVelocity,
+    breakupMass_kg: breakupMass,
+    strength_pa: strength,
+    burstAltitude_m: isAirburst ? burstAltitude : null,
+    burstEnergy_j: burstEnergy,
+    surfaceVelocity_mps: surfaceVelocity,
+    surfaceMass_kg: surfaceMass,
+    surfaceEnergy_j: surfaceEnergy,
+    surfaceDiameter_m: Math.cbrt((6 * surfaceMass) / (Math.PI * density_kgm3))
+  };
+}
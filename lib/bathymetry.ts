@@ -0,0 +1,60 @@
+import type { TargetSurface } from '../types';
+import {
+  BATHYMETRY_ROWS,
+  BATHYMETRY_RESOLUTION_DEG,
+  BATHYMETRY_DEPTH_M,
+  LAND_CELL,
+  ICE_CELL
+} from '../data/bathymetry';
+
+// Water deeper than this is treated as open ocean rather than shelf sea
+export const SHALLOW_SEA_MAX_DEPTH_M = 1000;
+
+export interface SurfaceSample {
+  surface: TargetSurface;
+  depth_m: number; // water depth, 0 on land and ice
+}
+
+export const GRID_ROWS = BATHYMETRY_ROWS.length;
+export const GRID_COLS = BATHYMETRY_ROWS[0].length;
+
+// Row / column of the grid cell containing a point
+export function cellIndexOf(lat: number, lng: number): { row: number; col: number } {
+  const wrappedLng = ((((lng + 180) % 360) + 360) % 360) - 180;
+  const row = Math.min(Math.max(Math.floor((90 - lat) / BATHYMETRY_RESOLUTION_DEG), 0), GRID_ROWS - 1);
+  const col = Math.min(Math.max(Math.floor((wrappedLng + 180) / BATHYMETRY_RESOLUTION_DEG), 0), GRID_COLS - 1);
+  return { row, col };
+}
+
+export function cellCenter(row: number, col: number): { lat: number; lng: number } {
+  return {
+    lat: 90 - (row + 0.5) * BATHYMETRY_RESOLUTION_DEG,
+    lng: -180 + (col + 0.5) * BATHYMETRY_RESOLUTION_DEG
+  };
+}
+
+// Water depth of a grid cell (0 for land and ice)
+export function cellDepth(row: number, col: number): number {
+  return BATHYMETRY_DEPTH_M[BATHYMETRY_ROWS[row][col]] ?? 0;
+}
+
+function cellAt(lat: number, lng: number): string {
+  const { row, col } = cellIndexOf(lat, lng);
+  return BATHYMETRY_ROWS[row][col];
+}
+
+// Water depth in meters at a point (0 over land or ice)
+export function waterDepthAt(lat: number, lng: number): number {
+  return BATHYMETRY_DEPTH_M[cellAt(lat, lng)] ?? 0;
+}
+
+export function classifyTargetSurface(lat: number, lng: number): SurfaceSample {
+  const cell = cellAt(lat, lng);
+  if (cell === LAND_CELL) return { surface: 'land', depth_m: 0 };
+  if (cell === ICE_CELL) return { surface: 'ice_sheet', depth_m: 0 };
+  const depth = BATHYMETRY_DEPTH_M[cell] ?? 0;
+  return {
+    surface: depth <= SHALLOW_SEA_MAX_DEPTH_M ? 'shallow_sea' : 'deep_ocean',
+    depth_m: depth
+  };
+}
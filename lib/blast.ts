@@ -0,0 +1,131 @@
+// Air blast from cube-root yield scaling of a 1 kt surface burst
+// (Glasstone & Dolan 1977, as fitted by Collins et al. 2005, eqs. 54–57), with regular
+// and Mach reflection of the shock under elevated bursts.
+
+import type { BlastRing } from '../types';
+
+export const PSI_TO_PA = 6894.76;
+const KT_JOULES = 4.184e12; // 1 kiloton TNT in joules
+const AMBIENT_PRESSURE_PA = 1.01e5;
+const SOUND_SPEED_MPS = 330;
+const CROSSOVER_PRESSURE_PA = 75000; // p_x in the 1 kt fit
+const CROSSOVER_DISTANCE_M = 290; // r_x in the 1 kt fit
+const MAX_BLAST_RANGE_M = 6371 * 1000; // Earth radius; beyond this the fit is meaningless
+const ARRIVAL_STEPS = 200;
+
+// Standard overpressure levels, strongest first
+export const BLAST_OVERPRESSURE_LEVELS: Array<{ psi: number; label: string }> = [
+  { psi: 20, label: 'Reinforced concrete collapse' },
+  { psi: 5, label: 'Residential collapse' },
+  { psi: 1, label: 'Window breakage' }
+];
+
+// Elevated bursts (Collins et al. 2005, eqs. 54b–c): under the burst the shock reflects
+// regularly off the ground and the overpressure falls off exponentially; further out the
+// incident and reflected shocks merge into a Mach stem and the surface-burst law applies
+// at ground range. Scaled burst heights of 550 m or more never form a Mach stem.
+const MACH_MAX_SCALED_ALTITUDE_M = 550;
+
+function yieldCubeRoot(energy_j: number): number {
+  return Math.cbrt(Math.max(energy_j / KT_JOULES, 1e-9));
+}
+
+// Surface-burst overpressure at scaled (1 kt) distance
+function surfaceBurstPa(r1: number): number {
+  return ((CROSSOVER_PRESSURE_PA * CROSSOVER_DISTANCE_M) / (4 * r1))
+    * (1 + 3 * Math.pow(CROSSOVER_DISTANCE_M / r1, 1.3));
+}
+
+// Scaled ground range where the Mach stem forms (Infinity when it never does)
+function machOnsetScaled(zb1: number): number {
+  if (zb1 <= 0) return 0;
+  if (zb1 >= MACH_MAX_SCALED_ALTITUDE_M) return Infinity;
+  return (MACH_MAX_SCALED_ALTITUDE_M * zb1) / (1.2 * (MACH_MAX_SCALED_ALTITUDE_M - zb1));
+}
+
+// Regular-reflection overpressure p0·e^(−β·r1) under an elevated burst
+function regularReflection(zb1: number): { p0: number; beta: number } {
+  return { p0: 3.14e11 * Math.pow(zb1, -2.6), beta: 34.87 * Math.pow(zb1, -1.73) };
+}
+
+// Peak overpressure at ground distance from a burst of given energy and altitude
+export function peakOverpressurePa(distance_m: number, energy_j: number, burstAltitude_m = 0): number {
+  const cubeRoot = yieldCubeRoot(energy_j);
+  const r1 = Math.max(distance_m, 1) / cubeRoot; // scaled distance for 1 kt
+  const zb1 = Math.max(burstAltitude_m, 0) / cubeRoot;
+  if (r1 >= machOnsetScaled(zb1)) return surfaceBurstPa(r1);
+  const { p0, beta } = regularReflection(zb1);
+  return p0 * Math.exp(-beta * r1);
+}
+
+// Time for the shock front to reach a ground distance: the front travels at the
+// Rankine–Hugoniot shock speed for the local overpressure, slowing to the speed of
+// sound far out, integrated along the slant range from the burst point
+export function blastArrivalSeconds(distance_m: number, energy_j: number, burstAltitude_m = 0): number {
+  const slant = Math.sqrt(distance_m * distance_m + burstAltitude_m * burstAltitude_m);
+  if (slant <= 1 || energy_j <= 0) return 0;
+  let time = 0;
+  let r = 1;
+  const growth = Math.pow(slant, 1 / ARRIVAL_STEPS); // log-spaced steps from 1 m
+  for (let i = 0; i < ARRIVAL_STEPS; i++) {
+    const next = r * growth;
+    const pressure = peakOverpressurePa(Math.sqrt(r * next), energy_j);
+    const shockSpeed = SOUND_SPEED_MPS * Math.sqrt(1 + (6 * pressure) / (7 * AMBIENT_PRESSURE_PA));
+    time += (next - r) / shockSpeed;
+    r = next;
+  }
+  return time;
+}
+
+// Peak wind speed behind the shock front
+export function peakWindSpeedMps(overpressure_pa: number): number {
+  const ratio = overpressure_pa / AMBIENT_PRESSURE_PA;
+  return ((5 * ratio) / 7) * SOUND_SPEED_MPS / Math.sqrt(1 + (6 * ratio) / 7);
+}
+
+// Ground distance at which the overpressure falls to the given level (0 if never reached)
+export function blastRadiusForOverpressure(overpressure_pa: number, energy_j: number, burstAltitude_m = 0): number {
+  const cubeRoot = yieldCubeRoot(energy_j);
+  const zb1 = Math.max(burstAltitude_m, 0) / cubeRoot;
+  const minR1 = 1 / cubeRoot;
+  const maxR1 = MAX_BLAST_RANGE_M / cubeRoot;
+  const machOnset = machOnsetScaled(zb1);
+
+  // Mach region (all of the ground for a surface burst): the surface-burst law, which
+  // falls steadily with range
+  if (machOnset < maxR1) {
+    const start = Math.max(machOnset, minR1);
+    if (surfaceBurstPa(maxR1) >= overpressure_pa) return MAX_BLAST_RANGE_M;
+    if (surfaceBurstPa(start) >= overpressure_pa) {
+      let lo = start;
+      let hi = maxR1;
+      for (let i = 0; i < 60; i++) {
+        const mid = (lo + hi) / 2;
+        if (surfaceBurstPa(mid) >= overpressure_pa) lo = mid;
+        else hi = mid;
+      }
+      return lo * cubeRoot;
+    }
+  }
+  if (zb1 <= 0) return 0;
+
+  // Regular reflection region, up to the Mach stem if one forms
+  const { p0, beta } = regularReflection(zb1);
+  if (p0 < overpressure_pa) return 0;
+  return Math.min(Math.log(p0 / overpressure_pa) / beta, machOnset, maxR1) * cubeRoot;
+}
+
+export function computeBlastRings(energy_j: number, burstAltitude_m = 0): BlastRing[] {
+  return BLAST_OVERPRESSURE_LEVELS.map(({ psi, label }) => {
+    const overpressure = psi * PSI_TO_PA;
+    const radius = blastRadiusForOverpressure(overpressure, energy_j, burstAltitude_m);
+    return {
+      overpressure_psi: psi,
+      overpressure_pa: overpressure,
+      radius_m: radius,
+      radius_km: radius / 1000,
+      peak_wind_mps: peakWindSpeedMps(overpressure),
+      label
+    };
+  });
+}
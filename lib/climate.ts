@@ -0,0 +1,120 @@
+// Global climate effects: impact winter from stratospheric dust and soot.
+//
+// Fine (sub-micron) dust is a small fraction of the material thrown out of the
+// transient crater (Toon et al. 1997; Pope 2002). Soot comes from fires lit by the
+// fireball and, for the largest impacts, by ejecta re-entering the atmosphere
+// worldwide (Melosh et al. 1990). Both spread over the globe within weeks, so the
+// model treats them as uniform layers that settle out exponentially. The optical
+// depth sets the surviving sunlight, which drives a one-box energy balance for the
+// global mean surface temperature (Bardeen et al. 2017 give ~28 K of cooling for
+// Chicxulub-scale soot loading).
+
+import type { ClimateEffects, ClimateMonth, TargetMaterial, TargetSurface } from '../types';
+
+const EARTH_SURFACE_M2 = 5.1e14;
+const EARTH_LAND_M2 = 1.49e14;
+const SECONDS_PER_MONTH = 2.63e6;
+export const CLIMATE_MONTHS = 60;
+export const GLOBAL_EFFECTS_THRESHOLD_MT = 1e4; // below this the Global Effects section stays hidden
+
+// Sub-micron dust as a fraction of the ejected mass, by target rock
+const FINE_DUST_FRACTION: Record<TargetMaterial, number> = {
+  crystalline: 1e-3,
+  sedimentary: 1.5e-3,
+  carbonate: 1.5e-3,
+  permafrost: 1e-3,
+  dry_soil: 3e-3,
+  ice: 2e-4
+};
+const DUST_EXTINCTION_M2_PER_KG = 3000;
+const SOOT_EXTINCTION_M2_PER_KG = 8000;
+const DUST_LIFETIME_MONTHS = 3; // coagulation and fallout of fine dust
+const SOOT_LIFETIME_MONTHS = 6; // heavy soot loadings coagulate and rain out within a couple of years
+
+const FUEL_LOAD_KGM2 = 5; // biomass available to burn
+const SOOT_EMISSION_FACTOR = 0.03; // kg soot per kg burned
+const GLOBAL_FIRE_ONSET_MT = 1e7; // ejecta re-entry begins to ignite fires far from the impact
+const GLOBAL_FIRE_FULL_MT = 1e8;
+const GLOBAL_FIRE_LAND_FRACTION = 0.5; // land area burned once re-entry heating is global
+
+const ABSORBED_SOLAR_WM2 = 240; // global mean absorbed sunlight
+const CLIMATE_FEEDBACK_WM2K = 1.2; // λ
+const HEAT_CAPACITY_JM2K = 6e8; // ~200 m of ocean, mixed down by convection as the surface cools
+const LAND_AMPLIFICATION = 1.5; // continents cool faster than the global mean
+const LIGHT_SATURATION_FRACTION = 0.5; // crops are light-limited below half of normal sunlight
+const SEASON_DAYS_PER_KELVIN = 10; // growing season shortening per degree of cooling
+const GROWING_SEASON_DAYS = 180;
+
+export interface ClimateInput {
+  energy_mt: number;
+  transient_diameter_m: number;
+  target_density_kgm3: number;
+  target_material: TargetMaterial;
+  target_surface: TargetSurface;
+  ignition_radius_m: number; // range at which the thermal pulse ignites vegetation
+}
+
+// Sub-micron dust lofted into the stratosphere
+export function fineDustMassKg(transient_m: number, targetDensity_kgm3: number, material: TargetMaterial): number {
+  const transientVolume = (Math.PI * Math.pow(transient_m, 3)) / (16 * Math.SQRT2);
+  return transientVolume * targetDensity_kgm3 * FINE_DUST_FRACTION[material];
+}
+
+// Land area burned by the fireball and by re-entering ejecta
+export function burnedAreaM2(energy_mt: number, ignition_radius_m: number, surface: TargetSurface): number {
+  // Ice sheets have nothing to burn; ocean impacts only reach coastal land
+  const landShare = surface === 'land' ? 1 : surface === 'ice_sheet' ? 0 : 0.3;
+  const local = Math.PI * ignition_radius_m * ignition_radius_m * landShare;
+  const globalShare = Math.min(Math.max(Math.log10(energy_mt / GLOBAL_FIRE_ONSET_MT) / Math.log10(GLOBAL_FIRE_FULL_MT / GLOBAL_FIRE_ONSET_MT), 0), 1);
+  return Math.min(Math.max(local, globalShare * GLOBAL_FIRE_LAND_FRACTION * EARTH_LAND_M2), EARTH_LAND_M2);
+}
+
+export function sootMassKg(burnedArea_m2: number): number {
+  return burnedArea_m2 * FUEL_LOAD_KGM2 * SOOT_EMISSION_FACTOR;
+}
+
+// Month-by-month optical depth, sunlight, temperature and growing-season loss
+export function climateTimeline(dust_kg: number, soot_kg: number, months = CLIMATE_MONTHS): ClimateMonth[] {
+  const timeline: ClimateMonth[] = [];
+  let temperature = 0;
+  for (let month = 0; month < months; month++) {
+    const dustTau = (dust_kg / EARTH_SURFACE_M2) * DUST_EXTINCTION_M2_PER_KG * Math.exp(-month / DUST_LIFETIME_MONTHS);
+    const sootTau = (soot_kg / EARTH_SURFACE_M2) * SOOT_EXTINCTION_M2_PER_KG * Math.exp(-month / SOOT_LIFETIME_MONTHS);
+    const opticalDepth = dustTau + sootTau;
+    const sunlight = Math.exp(-opticalDepth);
+
+    // Implicit step of C dT/dt = ΔF − λT
+    const forcing = -ABSORBED_SOLAR_WM2 * (1 - sunlight);
+    temperature = (temperature + (SECONDS_PER_MONTH / HEAT_CAPACITY_JM2K) * forcing)
+      / (1 + (SECONDS_PER_MONTH * CLIMATE_FEEDBACK_WM2K) / HEAT_CAPACITY_JM2K);
+
+    const darkLoss = Math.min(Math.max(1 - sunlight / LIGHT_SATURATION_FRACTION, 0), 1);
+    const coldLoss = Math.min((-temperature * LAND_AMPLIFICATION * SEASON_DAYS_PER_KELVIN) / GROWING_SEASON_DAYS, 1);
+    timeline.push({
+      month,
+      optical_depth: opticalDepth,
+      sunlight_fraction: sunlight,
+      temperature_anomaly_k: temperature,
+      growing_season_loss: Math.max(darkLoss, coldLoss, 0)
+    });
+  }
+  return timeline;
+}
+
+export function computeClimateEffects(input: ClimateInput): ClimateEffects {
+  const dust = fineDustMassKg(input.transient_diameter_m, input.target_density_kgm3, input.target_material);
+  const burned = burnedAreaM2(input.energy_mt, input.ignition_radius_m, input.target_surface);
+  const soot = sootMassKg(burned);
+  const months = climateTimeline(dust, soot);
+
+  return {
+    dust_mass_kg: dust,
+    soot_mass_kg: soot,
+    burned_area_km2: burned / 1e6,
+    peak_optical_depth: Math.max(...months.map(m => m.optical_depth)),
+    min_sunlight_fraction: Math.min(...months.map(m => m.sunlight_fraction)),
+    peak_cooling_k: -Math.min(...months.map(m => m.temperature_anomaly_k)),
+    growing_season_loss_months: months.reduce((sum, m) => sum + m.growing_season_loss, 0),
+    months
+  };
+}
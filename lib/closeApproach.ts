@@ -0,0 +1,364 @@
+// Close approaches from two-body orbits, patched to a hyperbola near Earth.
+//
+// The asteroid and the Earth–Moon barycentre are each propagated on fixed Keplerian
+// orbits about the Sun; the minimum of their separation over a date range gives the
+// undeflected miss distance b and relative speed v∞. Inside Earth's sphere of
+// influence the path is replaced by a geocentric hyperbola with the same b and v∞,
+// which bends it towards Earth: the capture radius is R⊕·√(1 + v_esc²/v∞²). Earth's
+// rotation during the pass and the Moon's offset from the barycentre are ignored.
+
+import type { CloseApproach, ImpactParameters, ImpactorPreset, OrbitImpact, OrbitalElements, RiskCorridor, RiskCorridorPoint } from '../types';
+import { AU_KM, SUN_GM_KM3S2, eclipticToEquatorial, greenwichSiderealDeg, heliocentricState } from './orbit';
+import type { Vec3 } from './orbit';
+
+const EARTH_GM_KM3S2 = 398600.4418;
+const EARTH_RADIUS_KM = 6371;
+const DAY_MS = 86400 * 1000;
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+const DEFAULT_STEP_DAYS = 0.25;
+const REFINE_ITERATIONS = 60;
+const PATH_HOURS = 6; // either side of perigee
+const PATH_POINTS = 121;
+const DEFAULT_CORRIDOR_SIGMAS = 3;
+const DEFAULT_CORRIDOR_SAMPLES = 121;
+
+// Earth–Moon barycentre mean elements and rates per century (Standish, JPL)
+const EARTH_A_AU = 1.00000261;
+const EARTH_E = 0.01671123;
+const EARTH_L0_DEG = 100.46457166;
+const EARTH_L_RATE_DEG = 35999.37244981;
+const EARTH_PERI0_DEG = 102.93768193;
+const EARTH_PERI_RATE_DEG = 0.32327364;
+
+// Miss distance as a fraction of the capture radius for "what if it hit" runs;
+// cos(45°) gives the most likely 45° entry
+const AIM_FRACTION = Math.SQRT1_2;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+const norm = (v: Vec3) => Math.hypot(v[0], v[1], v[2]);
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const scale = (v: Vec3, k: number): Vec3 => [v[0] * k, v[1] * k, v[2] * k];
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+
+export interface CloseApproachOptions {
+  step_days?: number; // coarse search step
+  aim_at_earth?: boolean; // scale the miss distance inside the capture radius, keeping its direction
+}
+
+export interface RiskCorridorOptions extends CloseApproachOptions {
+  timing_sigma_s?: number; // 1σ uncertainty in arrival time
+  bplane_sigma_km?: number; // 1σ uncertainty along the line of variations, used without a timing σ
+  sigmas?: number; // half-width of the sampled spread
+  samples?: number;
+}
+
+// Largest target-plane miss distance that still strikes Earth
+export function captureRadiusKm(vInfinity_kms: number): number {
+  return EARTH_RADIUS_KM * Math.sqrt(1 + (2 * EARTH_GM_KM3S2) / (EARTH_RADIUS_KM * vInfinity_kms * vInfinity_kms));
+}
+
+// Eccentric anomaly from mean anomaly (rad), by Newton's method
+export function solveKepler(meanAnomaly_rad: number, e: number): number {
+  let E = meanAnomaly_rad + e * Math.sin(meanAnomaly_rad);
+  for (let i = 0; i < 50; i++) {
+    const delta = (E - e * Math.sin(E) - meanAnomaly_rad) / (1 - e * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < 1e-12) break;
+  }
+  return E;
+}
+
+function trueFromMean(meanAnomaly_rad: number, e: number): number {
+  const E = solveKepler(meanAnomaly_rad, e);
+  return 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(E / 2), Math.sqrt(1 - e) * Math.cos(E / 2));
+}
+
+// Heliocentric state of a body at a date, from its mean anomaly at the epoch
+export function stateAtDate(el: OrbitalElements, date: Date): { position_au: Vec3; velocity_kms: Vec3 } {
+  if (el.mean_anomaly_deg === undefined) {
+    throw new Error('A mean anomaly at the epoch is needed to propagate the orbit');
+  }
+  const meanMotion = Math.sqrt(SUN_GM_KM3S2 / Math.pow(el.a_au * AU_KM, 3)); // rad/s
+  const seconds = (date.getTime() - new Date(el.epoch).getTime()) / 1000;
+  return heliocentricState(el, trueFromMean(toRad(el.mean_anomaly_deg) + meanMotion * seconds, el.e));
+}
+
+export function earthStateAtDate(date: Date): { position_au: Vec3; velocity_kms: Vec3 } {
+  const centuries = (date.getTime() - J2000_MS) / DAY_MS / 36525;
+  const peri = EARTH_PERI0_DEG + EARTH_PERI_RATE_DEG * centuries;
+  const meanLongitude = EARTH_L0_DEG + EARTH_L_RATE_DEG * centuries;
+  const earth: OrbitalElements = { a_au: EARTH_A_AU, e: EARTH_E, i_deg: 0, node_deg: 0, peri_deg: peri, epoch: date.toISOString() };
+  return heliocentricState(earth, trueFromMean(toRad(meanLongitude - peri), EARTH_E));
+}
+
+// Position (km) and velocity (km/s) relative to Earth, ecliptic axes
+function geocentricState(el: OrbitalElements, date: Date): { position_km: Vec3; velocity_kms: Vec3 } {
+  const body = stateAtDate(el, date);
+  const earth = earthStateAtDate(date);
+  return {
+    position_km: scale(sub(body.position_au, earth.position_au), AU_KM),
+    velocity_kms: sub(body.velocity_kms, earth.velocity_kms)
+  };
+}
+
+// Geocentric hyperbola with a miss distance and v∞, in the plane of the incoming
+// velocity and the miss vector
+interface Hyperbola {
+  e: number;
+  p: number; // semi-latus rectum, km
+  periHat: Vec3;
+  motionHat: Vec3;
+  timeScale: number; // s per unit of hyperbolic mean anomaly
+}
+
+function flybyHyperbola(b_km: number, vInf_kms: number, velocityHat: Vec3, missHat: Vec3): Hyperbola {
+  const k = (b_km * vInf_kms * vInf_kms) / EARTH_GM_KM3S2;
+  const e = Math.sqrt(1 + k * k);
+  // Periapsis lies towards the miss vector, turned back against the approach
+  const fInf = Math.acos(-1 / e);
+  return {
+    e,
+    p: (b_km * b_km * vInf_kms * vInf_kms) / EARTH_GM_KM3S2,
+    periHat: add(scale(velocityHat, -Math.cos(fInf)), scale(missHat, Math.sin(fInf))),
+    motionHat: add(scale(velocityHat, Math.sin(fInf)), scale(missHat, Math.cos(fInf))),
+    timeScale: Math.sqrt(Math.pow(EARTH_GM_KM3S2 / (vInf_kms * vInf_kms), 3) / EARTH_GM_KM3S2)
+  };
+}
+
+function positionOn(h: Hyperbola, f: number): Vec3 {
+  const r = h.p / (1 + h.e * Math.cos(f));
+  return add(scale(h.periHat, r * Math.cos(f)), scale(h.motionHat, r * Math.sin(f)));
+}
+
+function velocityOn(h: Hyperbola, f: number): Vec3 {
+  const speed = Math.sqrt(EARTH_GM_KM3S2 / h.p);
+  return add(scale(h.periHat, -speed * Math.sin(f)), scale(h.motionHat, speed * (h.e + Math.cos(f))));
+}
+
+function secondsFromPerigee(h: Hyperbola, f: number): number {
+  const F = 2 * Math.atanh(Math.sqrt((h.e - 1) / (h.e + 1)) * Math.tan(f / 2));
+  return (h.e * Math.sinh(F) - F) * h.timeScale;
+}
+
+function anomalyAtSeconds(h: Hyperbola, seconds: number): number {
+  const M = seconds / h.timeScale;
+  let F = Math.asinh(M / h.e);
+  for (let i = 0; i < 50; i++) {
+    const delta = (h.e * Math.sinh(F) - F - M) / (h.e * Math.cosh(F) - 1);
+    F -= delta;
+    if (Math.abs(delta) < 1e-12) break;
+  }
+  return 2 * Math.atan(Math.sqrt((h.e + 1) / (h.e - 1)) * Math.tanh(F / 2));
+}
+
+// Latitude, longitude and height of a geocentric ecliptic position at a date
+function toGeographic(position_km: Vec3, date: Date): { lat: number; lng: number; altitude_km: number; ra_deg: number } {
+  const eq = eclipticToEquatorial(position_km);
+  const r = norm(eq);
+  const ra = toDeg(Math.atan2(eq[1], eq[0]));
+  const lng = ((ra - greenwichSiderealDeg(date)) % 360 + 540) % 360 - 180;
+  return { lat: toDeg(Math.asin(eq[2] / r)), lng, altitude_km: r - EARTH_RADIUS_KM, ra_deg: ra };
+}
+
+function impactOnHyperbola(h: Hyperbola, perigeeMs: number): OrbitImpact {
+  // Inbound leg at Earth's radius
+  const f = -Math.acos(Math.min(1, Math.max(-1, (h.p / EARTH_RADIUS_KM - 1) / h.e)));
+  const date = new Date(perigeeMs + secondsFromPerigee(h, f) * 1000);
+  const position = positionOn(h, f);
+  const velocity = velocityOn(h, f);
+  const site = toGeographic(position, date);
+
+  // Entry angle below the local horizontal, and heading from the local east/north axes
+  const v = eclipticToEquatorial(velocity);
+  const [alpha, delta] = [toRad(site.ra_deg), toRad(site.lat)];
+  const east: Vec3 = [-Math.sin(alpha), Math.cos(alpha), 0];
+  const north: Vec3 = [-Math.sin(delta) * Math.cos(alpha), -Math.sin(delta) * Math.sin(alpha), Math.cos(delta)];
+  const speed = norm(velocity);
+  return {
+    lat: site.lat,
+    lng: site.lng,
+    velocity_kms: speed,
+    angle_deg: toDeg(Math.asin(-dot(position, velocity) / (norm(position) * speed))),
+    azimuth_deg: (toDeg(Math.atan2(dot(v, east), dot(v, north))) + 360) % 360,
+    date: date.toISOString()
+  };
+}
+
+// Encounter at the closest pass between two dates, before Earth's gravity acts
+interface ApproachGeometry {
+  perigeeMs: number;
+  vInf: number; // km/s
+  velocityHat: Vec3; // direction of the geocentric velocity
+  miss: Vec3; // target-plane miss vector, km
+  variationHat: Vec3; // target-plane direction a later arrival moves the miss vector
+  variationSpeed: number; // km of target-plane shift per second of arrival delay
+}
+
+function approachGeometry(el: OrbitalElements, start: Date, end: Date, options: CloseApproachOptions): ApproachGeometry {
+  const stepMs = (options.step_days ?? DEFAULT_STEP_DAYS) * DAY_MS;
+  if (!(end.getTime() > start.getTime()) || !(stepMs > 0)) {
+    throw new Error('The search range must end after it starts');
+  }
+  const distanceAt = (ms: number) => norm(geocentricState(el, new Date(ms)).position_km);
+
+  // Coarse scan, then golden-section refinement around the smallest sample
+  let bestMs = start.getTime();
+  let best = distanceAt(bestMs);
+  for (let ms = start.getTime() + stepMs; ms <= end.getTime(); ms += stepMs) {
+    const distance = distanceAt(ms);
+    if (distance < best) [best, bestMs] = [distance, ms];
+  }
+  let [lo, hi] = [Math.max(start.getTime(), bestMs - stepMs), Math.min(end.getTime(), bestMs + stepMs)];
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  for (let i = 0; i < REFINE_ITERATIONS; i++) {
+    const a = hi - ratio * (hi - lo);
+    const b = lo + ratio * (hi - lo);
+    if (distanceAt(a) < distanceAt(b)) hi = b;
+    else lo = a;
+  }
+  const perigeeMs = (lo + hi) / 2;
+
+  const state = geocentricState(el, new Date(perigeeMs));
+  const vInf = norm(state.velocity_kms);
+  const velocityHat = scale(state.velocity_kms, 1 / vInf);
+  const across = (v: Vec3) => sub(v, scale(velocityHat, dot(v, velocityHat)));
+  // Arriving late leaves the body behind along its heliocentric path: the miss vector
+  // moves against the cross-track part of that velocity
+  const variation = scale(across(stateAtDate(el, new Date(perigeeMs)).velocity_kms), -1);
+  const variationSpeed = norm(variation);
+
+  return {
+    perigeeMs,
+    vInf,
+    velocityHat,
+    miss: across(state.position_km),
+    variationHat: scale(variation, 1 / variationSpeed),
+    variationSpeed
+  };
+}
+
+// Miss vector moved inside the capture radius, keeping its direction
+function aimedMiss(geometry: ApproachGeometry): Vec3 {
+  return scale(geometry.miss, (AIM_FRACTION * captureRadiusKm(geometry.vInf)) / norm(geometry.miss));
+}
+
+// Closest pass of the orbit by Earth between two dates
+export function findCloseApproach(
+  el: OrbitalElements,
+  start: Date,
+  end: Date,
+  options: CloseApproachOptions = {}
+): CloseApproach {
+  const geometry = approachGeometry(el, start, end, options);
+  const { perigeeMs, vInf, velocityHat } = geometry;
+  const miss = options.aim_at_earth ? aimedMiss(geometry) : geometry.miss;
+  const b = norm(miss);
+
+  const captureRadius = captureRadiusKm(vInf);
+  const hyperbola = flybyHyperbola(b, vInf, velocityHat, scale(miss, 1 / b));
+  const isImpact = b < captureRadius;
+  const impact = isImpact ? impactOnHyperbola(hyperbola, perigeeMs) : undefined;
+
+  // Track around perigee, stopping at the ground for an impact
+  const lastMs = impact ? new Date(impact.date).getTime() : perigeeMs + PATH_HOURS * 3600 * 1000;
+  const firstMs = (impact ? lastMs : perigeeMs) - PATH_HOURS * 3600 * 1000;
+  const path: CloseApproach['path'] = [];
+  for (let i = 0; i < PATH_POINTS; i++) {
+    const ms = firstMs + ((lastMs - firstMs) * i) / (PATH_POINTS - 1);
+    const { lat, lng, altitude_km } = toGeographic(positionOn(hyperbola, anomalyAtSeconds(hyperbola, (ms - perigeeMs) / 1000)), new Date(ms));
+    path.push({ lat, lng, altitude_km: Math.max(altitude_km, 0) });
+  }
+
+  return {
+    date: new Date(perigeeMs).toISOString(),
+    miss_distance_km: b,
+    perigee_km: isImpact ? 0 : hyperbola.p / (1 + hyperbola.e),
+    capture_radius_km: captureRadius,
+    v_infinity_kms: vInf,
+    is_impact: isImpact,
+    impact,
+    path
+  };
+}
+
+// Possible impact points for an uncertain arrival. Slices of a Gaussian spread along
+// the line of variations each move the miss vector and the arrival time (so Earth
+// turns beneath them); those inside the capture radius trace the corridor.
+export function findRiskCorridor(
+  el: OrbitalElements,
+  start: Date,
+  end: Date,
+  options: RiskCorridorOptions
+): RiskCorridor {
+  const geometry = approachGeometry(el, start, end, options);
+  const sigma_km = options.timing_sigma_s !== undefined
+    ? options.timing_sigma_s * geometry.variationSpeed
+    : options.bplane_sigma_km ?? 0;
+  if (!(sigma_km > 0)) {
+    throw new Error('An arrival-time or target-plane uncertainty is needed for a risk corridor');
+  }
+  const sigmas = options.sigmas ?? DEFAULT_CORRIDOR_SIGMAS;
+  const samples = options.samples ?? DEFAULT_CORRIDOR_SAMPLES;
+  const centre = options.aim_at_earth ? aimedMiss(geometry) : geometry.miss;
+  const captureRadius = captureRadiusKm(geometry.vInf);
+
+  const spacing = (2 * sigmas) / (samples - 1); // in σ
+  const points: RiskCorridorPoint[] = [];
+  for (let i = 0; i < samples; i++) {
+    const z = -sigmas + i * spacing;
+    const miss = add(centre, scale(geometry.variationHat, z * sigma_km));
+    const b = norm(miss);
+    if (b >= captureRadius) continue;
+    const delay_s = (z * sigma_km) / geometry.variationSpeed;
+    const hyperbola = flybyHyperbola(b, geometry.vInf, geometry.velocityHat, scale(miss, 1 / b));
+    const impact = impactOnHyperbola(hyperbola, geometry.perigeeMs + delay_s * 1000);
+    points.push({
+      ...impact,
+      offset_km: z * sigma_km,
+      probability: (Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI)) * spacing
+    });
+  }
+
+  return {
+    sigma_km,
+    sigma_s: sigma_km / geometry.variationSpeed,
+    capture_radius_km: captureRadius,
+    impact_probability: points.reduce((sum, point) => sum + point.probability, 0),
+    points
+  };
+}
+
+// Close approach of a flyby preset within its search window
+export function presetCloseApproach(preset: ImpactorPreset, options: CloseApproachOptions = {}): CloseApproach {
+  if (!preset.orbit || !preset.approachWindow) {
+    throw new Error(`${preset.name} has no orbit to propagate`);
+  }
+  return findCloseApproach(preset.orbit, new Date(preset.approachWindow.start), new Date(preset.approachWindow.end), options);
+}
+
+// Risk corridor of a flyby preset within its search window
+export function presetRiskCorridor(preset: ImpactorPreset, options: RiskCorridorOptions): RiskCorridor {
+  if (!preset.orbit || !preset.approachWindow) {
+    throw new Error(`${preset.name} has no orbit to propagate`);
+  }
+  return findRiskCorridor(preset.orbit, new Date(preset.approachWindow.start), new Date(preset.approachWindow.end), options);
+}
+
+// Impact parameters for the body striking where the close approach meets the ground;
+// size, density, composition and target come from the base parameters
+export function impactParametersFromApproach(base: ImpactParameters, approach: CloseApproach): ImpactParameters {
+  if (!approach.impact) {
+    throw new Error(`Closest approach is ${Math.round(approach.perigee_km).toLocaleString()} km from Earth's centre; no impact`);
+  }
+  return {
+    ...base,
+    lat: approach.impact.lat,
+    lng: approach.impact.lng,
+    velocity_kms: approach.impact.velocity_kms,
+    angle_deg: approach.impact.angle_deg,
+    azimuth_deg: approach.impact.azimuth_deg,
+    impact_date: approach.impact.date
+  };
+}
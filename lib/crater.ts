@@ -0,0 +1,123 @@
+// Crater formation (Collins et al. 2005, eqs. 21–28 and 41–42).
+//
+// The impact first opens a bowl-shaped transient crater. Small craters keep that
+// shape (simple craters, partly refilled by a breccia lens); above the transition
+// diameter the walls collapse into a wider, shallower complex crater.
+
+import type { CraterDetails } from '../types';
+import type { TargetMaterialPreset } from '../data/targetMaterials';
+
+const G = 9.81; // m/s^2
+export const SIMPLE_COMPLEX_TRANSITION_M = 3200; // D_c on Earth
+const SIMPLE_RIM_FACTOR = 1.25; // D_fr / D_tc for simple craters
+const MELT_COEFFICIENT = 8.9e-12; // m^3 of melt per joule for rock targets
+const POROSITY_EXPONENT = 0.4; // ν in point-source scaling
+
+// Transient crater diameter: Collins eq. 21 (gravity regime), reduced where the
+// target strength rather than gravity limits growth
+export function transientCraterDiameterMeters(
+  diameter_m: number,
+  density_kgm3: number,
+  velocity_mps: number,
+  angle_deg: number,
+  target: TargetMaterialPreset,
+  porosity = 0
+): number {
+  if (diameter_m <= 0 || velocity_mps <= 0) return 0;
+  const sinTheta = Math.max(Math.sin((angle_deg * Math.PI) / 180), 0.01);
+  const gravityRegime = 1.161
+    * Math.cbrt(density_kgm3 / target.density_kgm3)
+    * Math.pow(diameter_m, 0.78)
+    * Math.pow(velocity_mps, 0.44)
+    * Math.pow(G, -0.22)
+    * Math.cbrt(sinTheta);
+  return gravityRegime
+    * strengthCorrection(diameter_m, density_kgm3, velocity_mps, target)
+    * porosityCorrection(porosity);
+}
+
+// Part of a porous impactor's energy goes into crushing its own pore space rather
+// than excavating the target; the loss in efficiency is approximated as (1 − φ)^(1/3)
+export function porosityCorrection(porosity: number): number {
+  return Math.cbrt(1 - Math.min(Math.max(porosity, 0), 0.95));
+}
+
+// Ratio of the strength-and-gravity crater to the gravity-only crater from
+// Holsapple's (1993) combined pi-scaling; 1 for large impacts, < 1 for strong targets
+export function strengthCorrection(
+  diameter_m: number,
+  density_kgm3: number,
+  velocity_mps: number,
+  target: TargetMaterialPreset
+): number {
+  if (target.strength_pa <= 0) return 1;
+  const mu = target.coupling_exponent;
+  const densityRatio = target.density_kgm3 / density_kgm3;
+  const pi2 = (G * (diameter_m / 2)) / (velocity_mps * velocity_mps)
+    * Math.pow(densityRatio, (6 * POROSITY_EXPONENT - 2 - mu) / (3 * mu));
+  const pi3 = target.strength_pa / (target.density_kgm3 * velocity_mps * velocity_mps)
+    * Math.pow(densityRatio, (6 * POROSITY_EXPONENT - 2) / (3 * mu));
+  const strengthTerm = Math.pow(pi3, (2 + mu) / 2);
+  return Math.pow(1 + strengthTerm / pi2, -mu / (2 + mu));
+}
+
+// Final rim diameter after collapse (Collins eqs. 22 and 27)
+export function finalCraterDiameterMeters(transient_m: number): number {
+  const simple = SIMPLE_RIM_FACTOR * transient_m;
+  if (simple <= SIMPLE_COMPLEX_TRANSITION_M) return simple;
+  const transientKm = transient_m / 1000;
+  const transitionKm = SIMPLE_COMPLEX_TRANSITION_M / 1000;
+  return 1000 * (1.17 * Math.pow(transientKm, 1.13)) / Math.pow(transitionKm, 0.13);
+}
+
+// Inverse of finalCraterDiameterMeters, used when the final diameter is capped
+export function transientForFinalDiameterMeters(final_m: number): number {
+  if (final_m <= SIMPLE_COMPLEX_TRANSITION_M) return final_m / SIMPLE_RIM_FACTOR;
+  const transitionKm = SIMPLE_COMPLEX_TRANSITION_M / 1000;
+  return 1000 * Math.pow(((final_m / 1000) * Math.pow(transitionKm, 0.13)) / 1.17, 1 / 1.13);
+}
+
+// Impact melt volume, limited to the volume of the transient crater
+export function meltVolumeCubicMeters(energy_j: number, angle_deg: number, transient_m: number): number {
+  const sinTheta = Math.sin((angle_deg * Math.PI) / 180);
+  const transientVolume = (Math.PI * Math.pow(transient_m, 3)) / (16 * Math.SQRT2);
+  return Math.min(MELT_COEFFICIENT * Math.max(energy_j, 0) * sinTheta, transientVolume);
+}
+
+export function describeCrater(transient_m: number, energy_j: number, angle_deg: number): CraterDetails {
+  const final = finalCraterDiameterMeters(transient_m);
+  const transientDepth = transient_m / (2 * Math.SQRT2);
+  const base = {
+    transient_diameter_m: transient_m,
+    transient_depth_m: transientDepth,
+    final_diameter_m: final,
+    melt_volume_m3: meltVolumeCubicMeters(energy_j, angle_deg, transient_m)
+  };
+
+  if (transient_m <= 0) {
+    return { ...base, morphology: 'simple', final_depth_m: 0, rim_height_m: 0, breccia_thickness_m: 0 };
+  }
+
+  if (SIMPLE_RIM_FACTOR * transient_m <= SIMPLE_COMPLEX_TRANSITION_M) {
+    // Simple crater: rim uplift and a breccia lens partly refilling the bowl
+    const rimHeight = (0.07 * Math.pow(transient_m, 4)) / Math.pow(final, 3);
+    const brecciaVolume = 0.032 * Math.pow(final, 3);
+    const brecciaThickness = (2.8 * brecciaVolume * (transientDepth + rimHeight)) / (transientDepth * final * final);
+    return {
+      ...base,
+      morphology: 'simple',
+      final_depth_m: Math.max(transientDepth + rimHeight - brecciaThickness, 0),
+      rim_height_m: rimHeight,
+      breccia_thickness_m: brecciaThickness
+    };
+  }
+
+  // Complex crater: collapsed walls, central uplift, no coherent breccia lens
+  return {
+    ...base,
+    morphology: 'complex',
+    final_depth_m: 1000 * 0.294 * Math.pow(final / 1000, 0.301),
+    rim_height_m: 0,
+    breccia_thickness_m: 0
+  };
+}
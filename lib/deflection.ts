@@ -0,0 +1,185 @@
+// Asteroid deflection: kinetic impactor, nuclear standoff burst and gravity tractor.
+//
+// Each method changes the asteroid's speed along its orbit by some Δv. A kinetic
+// impactor transfers its momentum, multiplied by β for the ejecta thrown back off the
+// surface: Δv = β·m·v_rel / M. A standoff burst heats the facing surface, which blows
+// off and recoils the body. A gravity tractor pulls the asteroid with the spacecraft's
+// own gravity for as long as it hovers. The new orbital period makes the asteroid drift
+// along its path; for a near-circular orbit (Clohessy–Wiltshire) the drift after a
+// time t is Δv·|3t − 4·sin(nt)/n|, which grows as 3·Δv·t once the lead time spans
+// several orbits. The drift is taken to lie in the target plane, so it adds to the
+// undeflected miss distance in quadrature; Earth is missed once the result exceeds
+// the capture radius.
+
+import type { DeflectionOutcome, FragmentationRisk, GravityTractor, ImpactParameters, KineticImpactor, NuclearStandoff } from '../types';
+import { massFromDiameter } from './physics';
+import { captureRadiusKm } from './closeApproach';
+
+const EARTH_ESCAPE_KMS = 11.186;
+const MIN_V_INFINITY_KMS = 1;
+const YEAR_S = 365.25 * 86400;
+const DAY_S = 86400;
+const KT_JOULES = 4.184e12;
+const G = 6.674e-11;
+// Speed of the vaporised surface layer after a standoff burst
+const BLOWOFF_VELOCITY_MPS = 3000;
+// Deposited energy over the disruption threshold above which a burst risks fragmenting
+// the body rather than moving it whole
+const FRAGMENTATION_RATIO_MODERATE = 0.1;
+const FRAGMENTATION_RATIO_HIGH = 1;
+
+// NASA's DART mission against Dimorphos (2022)
+export const DART_IMPACTOR: KineticImpactor = {
+  spacecraft_mass_kg: 580,
+  relative_velocity_kms: 6.1,
+  beta: 3.6,
+  lead_time_days: 3650
+};
+
+// 100 kt burst at a height of about half the radius of a few-hundred-metre asteroid
+export const DEFAULT_NUCLEAR_STANDOFF: NuclearStandoff = {
+  yield_kt: 100,
+  standoff_m: 100,
+  coupling_efficiency: 0.1,
+  lead_time_days: 3650
+};
+
+// 20 t tractor towing for a decade (Lu & Love 2005)
+export const DEFAULT_GRAVITY_TRACTOR: GravityTractor = {
+  spacecraft_mass_kg: 20000,
+  hover_distance_m: 200,
+  duration_days: 3650,
+  lead_time_days: 3650
+};
+
+export interface DeflectionGeometry {
+  undeflected_miss_km?: number; // 0 (a centred hit) when omitted
+  orbital_period_years?: number; // 1 when omitted
+}
+
+// Speed relative to Earth before its gravity acts, from the atmospheric entry speed
+export function vInfinityFromImpactSpeed(velocity_kms: number): number {
+  return Math.sqrt(Math.max(velocity_kms * velocity_kms - EARTH_ESCAPE_KMS * EARTH_ESCAPE_KMS, MIN_V_INFINITY_KMS * MIN_V_INFINITY_KMS));
+}
+
+export function kineticImpactorDeltaV(impactor: KineticImpactor, asteroidMass_kg: number): number {
+  return (impactor.beta * impactor.spacecraft_mass_kg * impactor.relative_velocity_kms * 1000) / asteroidMass_kg;
+}
+
+// Along-track drift (m) per m/s of Δv applied a lead time ahead of the encounter
+export function driftPerDeltaV(leadTime_s: number, orbitalPeriod_years = 1): number {
+  const n = (2 * Math.PI) / (orbitalPeriod_years * YEAR_S);
+  return Math.abs(3 * leadTime_s - (4 * Math.sin(n * leadTime_s)) / n);
+}
+
+// Outcome of a given Δv at the encounter
+export function deflectionOutcome(
+  method: DeflectionOutcome['method'],
+  deltaV_mps: number,
+  leadTime_s: number,
+  params: ImpactParameters,
+  geometry: DeflectionGeometry = {}
+): DeflectionOutcome {
+  const drift = driftPerDeltaV(leadTime_s, geometry.orbital_period_years);
+  const shift_km = (deltaV_mps * drift) / 1000;
+  const undeflected = geometry.undeflected_miss_km ?? 0;
+  const capture = captureRadiusKm(vInfinityFromImpactSpeed(params.velocity_kms));
+  const deflected = Math.hypot(undeflected, shift_km);
+  const shiftNeeded_km = Math.sqrt(Math.max(capture * capture - undeflected * undeflected, 0));
+
+  return {
+    method,
+    delta_v_mps: deltaV_mps,
+    shift_km,
+    undeflected_miss_km: undeflected,
+    deflected_miss_km: deflected,
+    capture_radius_km: capture,
+    misses_earth: deflected > capture,
+    required_delta_v_mps: drift > 0 ? (shiftNeeded_km * 1000) / drift : Infinity
+  };
+}
+
+export function kineticImpactorDeflection(
+  impactor: KineticImpactor,
+  params: ImpactParameters,
+  geometry: DeflectionGeometry = {}
+): DeflectionOutcome {
+  const mass = massFromDiameter(params.diameter_m, params.density_kgm3);
+  return deflectionOutcome(
+    'kinetic_impactor',
+    kineticImpactorDeltaV(impactor, mass),
+    impactor.lead_time_days * DAY_S,
+    params,
+    geometry
+  );
+}
+
+// Specific energy (J/kg) that disperses half the mass of a rocky body (Benz & Asphaug 1999, basalt)
+export function disruptionThresholdJkg(radius_m: number, density_kgm3: number): number {
+  const radius_cm = radius_m * 100;
+  const strength = 3.5e7 * Math.pow(radius_cm, -0.38);
+  const gravity = 0.3 * (density_kgm3 / 1000) * Math.pow(radius_cm, 1.36);
+  return (strength + gravity) * 1e-4; // erg/g to J/kg
+}
+
+// Share of the burst's energy reaching the asteroid: the solid angle it covers
+function interceptedFraction(radius_m: number, standoff_m: number): number {
+  const sinHalfAngle = radius_m / (radius_m + standoff_m);
+  return (1 - Math.sqrt(1 - sinHalfAngle * sinHalfAngle)) / 2;
+}
+
+export function nuclearStandoffDeflection(
+  device: NuclearStandoff,
+  params: ImpactParameters,
+  geometry: DeflectionGeometry = {}
+): DeflectionOutcome {
+  const radius = params.diameter_m / 2;
+  const mass = massFromDiameter(params.diameter_m, params.density_kgm3);
+  const deposited_j = device.yield_kt * KT_JOULES * interceptedFraction(radius, device.standoff_m) * device.coupling_efficiency;
+  // Blow-off carrying energy E at speed v_b has momentum 2E / v_b
+  const deltaV = (2 * deposited_j) / BLOWOFF_VELOCITY_MPS / mass;
+
+  const ratio = deposited_j / mass / disruptionThresholdJkg(radius, params.density_kgm3);
+  const risk: FragmentationRisk = ratio >= FRAGMENTATION_RATIO_HIGH ? 'high' : ratio >= FRAGMENTATION_RATIO_MODERATE ? 'moderate' : 'low';
+  return {
+    ...deflectionOutcome('nuclear_standoff', deltaV, device.lead_time_days * DAY_S, params, geometry),
+    fragmentation_risk: risk,
+    disruption_energy_ratio: ratio
+  };
+}
+
+export function gravityTractorDeflection(
+  tractor: GravityTractor,
+  params: ImpactParameters,
+  geometry: DeflectionGeometry = {}
+): DeflectionOutcome {
+  const distance = params.diameter_m / 2 + tractor.hover_distance_m;
+  const duration_s = Math.min(tractor.duration_days, tractor.lead_time_days) * DAY_S;
+  const deltaV = (G * tractor.spacecraft_mass_kg * duration_s) / (distance * distance);
+  // The steady pull acts like one impulse halfway through the tow
+  const leadTime_s = tractor.lead_time_days * DAY_S - duration_s / 2;
+  return deflectionOutcome('gravity_tractor', deltaV, leadTime_s, params, geometry);
+}
+
+export interface DeflectionOptions {
+  kinetic?: KineticImpactor;
+  nuclear?: NuclearStandoff;
+  tractor?: GravityTractor;
+}
+
+// Every method for the same asteroid and warning time; each acts as soon as warned
+export function compareDeflections(
+  params: ImpactParameters,
+  warningTime_days: number,
+  options: DeflectionOptions = {},
+  geometry: DeflectionGeometry = {}
+): DeflectionOutcome[] {
+  const kinetic = { ...(options.kinetic ?? DART_IMPACTOR), lead_time_days: warningTime_days };
+  const nuclear = { ...(options.nuclear ?? DEFAULT_NUCLEAR_STANDOFF), lead_time_days: warningTime_days };
+  const tractor = { ...(options.tractor ?? DEFAULT_GRAVITY_TRACTOR), lead_time_days: warningTime_days };
+  return [
+    kineticImpactorDeflection(kinetic, params, geometry),
+    nuclearStandoffDeflection(nuclear, params, geometry),
+    gravityTractorDeflection(tractor, params, geometry)
+  ];
+}
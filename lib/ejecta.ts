@@ -0,0 +1,73 @@
+// Ejecta blanket beyond the crater rim (Collins et al. 2005, eqs. 67–68;
+// McGetchin et al. 1973).
+//
+// Deposit thickness falls off as the inverse cube of distance from the crater
+// centre, t = D_tc^4 / (112 r^3), and the mean fragment size of the deposit
+// decreases as d = d_c (D_fr / 2r)^2.65, with d_c = 2400 (D_fr/2)^-1.62 (D_fr in km).
+
+import type { EjectaZone } from '../types';
+
+const FRAGMENT_SIZE_EXPONENT = 2.65;
+const G = 9.81; // m/s^2
+const EARTH_RADIUS_M = 6371 * 1000;
+
+// Thickness levels, thickest first
+export const EJECTA_THICKNESS_LEVELS: Array<{ key: EjectaZone['key']; thickness_m: number; label: string }> = [
+  { key: 'ejecta_1m', thickness_m: 1, label: 'Buried under more than 1 m' },
+  { key: 'ejecta_10cm', thickness_m: 0.1, label: 'Buried under more than 10 cm' },
+  { key: 'ejecta_1cm', thickness_m: 0.01, label: 'Buried under more than 1 cm' }
+];
+
+// Deposit thickness (m) at distance r (m) from the crater centre; 0 inside the rim
+export function ejectaThicknessAt(distance_m: number, transientCrater_m: number, finalCrater_m: number): number {
+  if (transientCrater_m <= 0 || distance_m <= finalCrater_m / 2) return 0;
+  return Math.pow(transientCrater_m, 4) / (112 * Math.pow(distance_m, 3));
+}
+
+// Mean fragment diameter (m) of the deposit at distance r (m)
+export function ejectaFragmentSizeAt(distance_m: number, finalCrater_m: number): number {
+  if (finalCrater_m <= 0 || distance_m <= 0) return 0;
+  const rimFragment = 2400 * Math.pow(finalCrater_m / 2000, -1.62);
+  return rimFragment * Math.pow(finalCrater_m / (2 * Math.max(distance_m, finalCrater_m / 2)), FRAGMENT_SIZE_EXPONENT);
+}
+
+// Distance from the crater centre at which the deposit thins to the given thickness
+// (0 when the blanket is already thinner than that at the rim)
+export function ejectaRadiusForThickness(thickness_m: number, transientCrater_m: number, finalCrater_m: number): number {
+  if (transientCrater_m <= 0 || thickness_m <= 0) return 0;
+  const radius = Math.cbrt(Math.pow(transientCrater_m, 4) / (112 * thickness_m));
+  return radius > finalCrater_m / 2 ? radius : 0;
+}
+
+// Flight time of ejecta launched at 45° that lands at distance r (m) from the crater
+// centre: the launch speed for that range (Collins eq. 8), then the time along the
+// ballistic Kepler arc between launch and landing
+export function ejectaArrivalSeconds(distance_m: number): number {
+  if (distance_m <= 0) return 0;
+  const gm = G * EARTH_RADIUS_M * EARTH_RADIUS_M;
+  const halfRange = Math.min(distance_m / EARTH_RADIUS_M, Math.PI - 1e-6) / 2;
+  const speedSq = (2 * G * EARTH_RADIUS_M * Math.tan(halfRange)) / (1 + Math.tan(halfRange));
+
+  const semiMajor = gm / (2 * gm / EARTH_RADIUS_M - speedSq);
+  const semiLatus = (EARTH_RADIUS_M * EARTH_RADIUS_M * speedSq) / (2 * gm); // h² / GM with h = R v cos 45°
+  const eccentricity = Math.sqrt(1 - semiLatus / semiMajor);
+  const cosTrueAnomaly = (semiLatus / EARTH_RADIUS_M - 1) / eccentricity;
+  const eccentricAnomaly = Math.acos((eccentricity + cosTrueAnomaly) / (1 + eccentricity * cosTrueAnomaly));
+  const meanAnomaly = eccentricAnomaly - eccentricity * Math.sin(eccentricAnomaly);
+  const meanMotion = Math.sqrt(gm / Math.pow(semiMajor, 3));
+  return (2 * (Math.PI - meanAnomaly)) / meanMotion;
+}
+
+export function computeEjectaZones(transientCrater_m: number, finalCrater_m: number): EjectaZone[] {
+  return EJECTA_THICKNESS_LEVELS.map(({ key, thickness_m, label }) => {
+    const radius = ejectaRadiusForThickness(thickness_m, transientCrater_m, finalCrater_m);
+    return {
+      key,
+      thickness_m,
+      radius_m: radius,
+      radius_km: radius / 1000,
+      fragment_size_m: radius > 0 ? ejectaFragmentSizeAt(radius, finalCrater_m) : 0,
+      label
+    };
+  });
+}
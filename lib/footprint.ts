@@ -0,0 +1,54 @@
+// Oblique-entry damage footprints.
+//
+// A shallow entry deposits its energy along the path rather than at a point, and the
+// blast and thermal pulse are carried downrange (Shuvalov & Artemieva 2002; the
+// Tunguska "butterfly" treefall pattern). Each circular radius R becomes an ellipse
+// stretched along the direction of travel and shifted downrange so the uprange edge
+// stays at R: semi-axes R(1 + ε) and R / (1 + ε), centre offset εR, with
+// ε = ½(1 − sin θ). Vertical impacts stay circular.
+
+import type { ZoneFootprint } from '../types';
+
+export const DEFAULT_AZIMUTH_DEG = 135; // travelling south-east, i.e. entering from the north-west
+const MAX_ELONGATION = 0.5;
+
+export function normalizeAzimuth(azimuth_deg: number): number {
+  return ((azimuth_deg % 360) + 360) % 360;
+}
+
+export function footprintElongation(angle_deg: number): number {
+  const theta = (Math.min(Math.max(angle_deg, 0), 90) * Math.PI) / 180;
+  return MAX_ELONGATION * (1 - Math.sin(theta));
+}
+
+export function ellipticalFootprint(radius_m: number, angle_deg: number): ZoneFootprint {
+  const e = footprintElongation(angle_deg);
+  return {
+    semi_major_m: radius_m * (1 + e),
+    semi_minor_m: radius_m / (1 + e),
+    downrange_offset_m: radius_m * e
+  };
+}
+
+// Distance from the ellipse centre to its edge, in a direction measured from the track
+export function footprintEdgeDistanceM(footprint: ZoneFootprint, relativeBearing_deg: number): number {
+  const phi = (relativeBearing_deg * Math.PI) / 180;
+  const a = footprint.semi_major_m;
+  const b = footprint.semi_minor_m;
+  if (a <= 0 || b <= 0) return 0;
+  return (a * b) / Math.sqrt(Math.pow(b * Math.cos(phi), 2) + Math.pow(a * Math.sin(phi), 2));
+}
+
+// Whether a point at the given distance and bearing from ground zero lies in the footprint
+export function isInsideFootprint(
+  footprint: ZoneFootprint,
+  distance_km: number,
+  bearing_deg: number,
+  azimuth_deg: number
+): boolean {
+  const rel = ((bearing_deg - azimuth_deg) * Math.PI) / 180;
+  const along = distance_km * 1000 * Math.cos(rel) - footprint.downrange_offset_m;
+  const cross = distance_km * 1000 * Math.sin(rel);
+  if (footprint.semi_major_m <= 0 || footprint.semi_minor_m <= 0) return false;
+  return Math.pow(along / footprint.semi_major_m, 2) + Math.pow(cross / footprint.semi_minor_m, 2) <= 1;
+}
@@ -62,3 +62,28 @@ export function formatLocation(lat: number, lon: number, closestCity?: {
   
   return `Latitude: ${formattedLat}, Longitude: ${formattedLon}`
 }
+
+// Initial great-circle bearing from point 1 to point 2, degrees clockwise from north
+export function initialBearingDeg(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const phi1 = lat1 * Math.PI / 180;
+  const phi2 = lat2 * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+// Point reached by travelling distanceKm along a great circle from (lat, lon)
+export function destinationPoint(lat: number, lon: number, bearingDeg: number, distanceKm: number): { lat: number, lon: number } {
+  const R = 6371;
+  const delta = distanceKm / R;
+  const theta = bearingDeg * Math.PI / 180;
+  const phi1 = lat * Math.PI / 180;
+  const lambda1 = lon * Math.PI / 180;
+  const phi2 = Math.asin(Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta));
+  const lambda2 = lambda1 + Math.atan2(
+    Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+    Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+  );
+  return { lat: phi2 * 180 / Math.PI, lon: ((lambda2 * 180 / Math.PI + 540) % 360) - 180 };
+}
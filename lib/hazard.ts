@@ -0,0 +1,118 @@
+// How often an impact like this happens, and how threatening a predicted one is.
+//
+// Recurrence intervals follow the NEO size-frequency distribution: by energy from
+// the bolide and telescopic survey fit of Collins et al. (2005, eq. 3), by diameter
+// from the Stuart & Binzel (2004) impact rate. A predicted impact with a probability
+// and date is rated on the Torino scale (Morrison et al. 2004) and the Palermo
+// technical scale (Chesley et al. 2002).
+
+import type { HazardAssessment } from '../types';
+
+const YEAR_MS = 365.25 * 24 * 3600 * 1000;
+const KM1_RECURRENCE_YEARS = 6e5; // mean interval between impacts of bodies ≥ 1 km
+const SIZE_DISTRIBUTION_SLOPE = 2.354; // cumulative N(>D) ∝ D^-2.354
+
+// Torino chart energy bands (Mt): localized, regional and global consequences
+const TORINO_MIN_ENERGY_MT = 1;
+const TORINO_REGIONAL_MT = 1e3;
+const TORINO_GLOBAL_MT = 1e5;
+const TORINO_SERIOUS_REGIONAL_MT = 1e4;
+const TORINO_MIN_PROBABILITY = 1e-8;
+const TORINO_CERTAIN_PROBABILITY = 0.99;
+const TORINO_ATTENTION_PROBABILITY = 1e-2;
+const TORINO_GLOBAL_THREAT_PROBABILITY = 1e-4;
+
+// Plain-language meaning of each Torino level
+export const TORINO_DESCRIPTIONS: string[] = [
+  'No hazard',
+  'Normal: routine discovery, no unusual level of danger',
+  'Meriting attention: close but not unusual encounter',
+  'Meriting attention: ≥1% chance of localized destruction',
+  'Meriting attention: ≥1% chance of regional devastation',
+  'Threatening: serious but uncertain threat of regional devastation',
+  'Threatening: serious but uncertain threat of a global catastrophe',
+  'Threatening: unprecedented threat of a global catastrophe',
+  'Certain collision: localized destruction',
+  'Certain collision: regional devastation',
+  'Certain collision: global climatic catastrophe'
+];
+
+// Mean years between impacts releasing at least this energy
+export function recurrenceIntervalForEnergy(energy_mt: number): number {
+  return 109 * Math.pow(Math.max(energy_mt, 0), 0.78);
+}
+
+// Mean years between impacts of bodies at least this large
+export function recurrenceIntervalForDiameter(diameter_m: number): number {
+  return KM1_RECURRENCE_YEARS * Math.pow(Math.max(diameter_m, 0) / 1000, SIZE_DISTRIBUTION_SLOPE);
+}
+
+// Annual background frequency of impacts at least this energetic (Palermo f_B)
+export function backgroundFrequencyPerYear(energy_mt: number): number {
+  return 0.03 * Math.pow(Math.max(energy_mt, 1e-9), -0.8);
+}
+
+// Torino scale 0–10 from the collision probability and kinetic energy, with the
+// chart's regions reduced to energy bands and probability thresholds
+export function torinoScale(probability: number, energy_mt: number): number {
+  if (energy_mt < TORINO_MIN_ENERGY_MT || probability < TORINO_MIN_PROBABILITY) return 0;
+  const band = energy_mt < TORINO_REGIONAL_MT ? 0 : energy_mt < TORINO_GLOBAL_MT ? 1 : 2;
+
+  if (probability >= TORINO_CERTAIN_PROBABILITY) return 8 + band;
+  if (probability >= TORINO_ATTENTION_PROBABILITY) {
+    if (band === 0) return 3;
+    if (band === 1) return energy_mt < TORINO_SERIOUS_REGIONAL_MT ? 4 : 5;
+    return 7;
+  }
+  if (band === 2 && probability >= TORINO_GLOBAL_THREAT_PROBABILITY) return 6;
+  // Below that the 0/1 and 1/2 boundaries run diagonally across the chart
+  const significance = Math.log10(probability) + Math.log10(energy_mt);
+  if (significance >= -4) return 2;
+  return significance >= -6 ? 1 : 0;
+}
+
+// Palermo scale: the event's probability against the background risk over the
+// years remaining until it
+export function palermoScale(probability: number, energy_mt: number, years_to_impact: number): number {
+  const years = Math.max(years_to_impact, 1 / 365.25); // at least a day of warning
+  return Math.log10(probability / (backgroundFrequencyPerYear(energy_mt) * years));
+}
+
+export interface HazardInput {
+  energy_mt: number;
+  diameter_m?: number;
+  impact_probability?: number; // 0–1, for a predicted impact
+  impact_date?: string; // ISO date of the predicted impact
+  years_to_impact?: number; // warning time, instead of a date
+  now?: Date;
+}
+
+export function assessHazard(input: HazardInput): HazardAssessment {
+  const recurrence = recurrenceIntervalForEnergy(input.energy_mt);
+  const assessment: HazardAssessment = {
+    recurrence_interval_years: recurrence,
+    recurrence_interval_diameter_years: input.diameter_m !== undefined
+      ? recurrenceIntervalForDiameter(input.diameter_m)
+      : undefined,
+    annual_probability: recurrence > 0 ? 1 - Math.exp(-1 / recurrence) : 1
+  };
+
+  const probability = input.impact_probability;
+  if (probability === undefined || !(probability > 0)) return assessment;
+
+  assessment.impact_probability = Math.min(probability, 1);
+  assessment.torino_scale = torinoScale(assessment.impact_probability, input.energy_mt);
+  let years = input.years_to_impact;
+  if (years === undefined && input.impact_date) {
+    const date = new Date(input.impact_date);
+    if (!Number.isNaN(date.getTime())) {
+      years = (date.getTime() - (input.now ?? new Date()).getTime()) / YEAR_MS;
+      assessment.impact_date = input.impact_date;
+    }
+  }
+  if (years !== undefined) {
+    assessment.years_to_impact = years;
+    assessment.palermo_scale = palermoScale(assessment.impact_probability, input.energy_mt, years);
+  }
+  return assessment;
+}
@@ -1,117 +1,39 @@
 // src/lib/impact.ts
-// Self-contained functions for physics + population impact estimation.
+// Population estimation over the zones of a simulation result. The physics lives in
+// lib/physics; this is the step behind the 'city-points' population model, and the
+// fallback of the gridded one (lib/population) when no grid is loaded.
 //
 // Assumes cities.json is an array of features like:
 // { geometry: { coordinates: [lon, lat] }, properties: { city, country, population } }
 
-export const MT_JOULES = 4.184e15; // 1 megaton TNT in J
-export const G = 9.81; // m/s^2
-export const TARGET_DENSITY = 2700; // kg/m^3 (rock), adjustable
-export const CRATER_MAX_KM = 12000; // safety cap - adjust if desired
+import type { ZoneFootprint, SimulationResult, RiskCorridor, PopulationSource } from '../types';
+import { DEFAULT_AZIMUTH_DEG, isInsideFootprint } from './footprint';
+import { haversineDistance, initialBearingDeg } from './geography';
 
-type CityFeature = {
+export type CityFeature = {
   geometry: { coordinates: [number, number] }; // [lon, lat]
   properties: { city: string; country?: string; population?: number };
 };
 
-export type ImpactParams = {
-  diameter_m: number; // meters
-  density_kgm3: number; // kg/m^3
-  velocity_kms: number; // km/s
-  angle_deg: number; // degrees (0 = grazing, 90 = vertical)
-  lat?: number;
-  lng?: number;
-};
+export type AffectedCity = { city: string; country?: string; population?: number; distance_km: number; zones: string[] };
 
-export type ImpactResult = {
-  impact_energy_j: number;
-  impact_energy_mt: number;
-  crater_km: number;
-  crater_radius_km: number;
-  blast_radius_km: number;
-  thermal_radius_km: number;
-  seismic_magnitude: number;
+export type PopulationEstimate = {
+  craterPop: number;
+  blastPop: number;
+  thermalPop: number;
+  cityResults: AffectedCity[];
+  source?: PopulationSource;
 };
 
-export function diameterToMassKg(d_m: number, density = 3000) {
-  const r = d_m / 2;
-  const volume = (4 / 3) * Math.PI * Math.pow(r, 3);
-  return volume * density;
-}
-
-export function kineticEnergyJ(mass_kg: number, v_mps: number) {
-  return 0.5 * mass_kg * v_mps * v_mps;
-}
-
-// Convert km/s to m/s
-export function kmpsToMps(v_kms: number) {
-  return v_kms * 1000;
-}
-
-// Crater diameter (km) - Collins et al. style simplified scaling
-// D_crater (m) ≈ k * g^-0.22 * v_eff^0.44 * (ρi/ρt)^(1/3) * r^0.78
-// We'll compute in meters then convert to km
-export function craterDiameterMeters(
-  diameter_m: number,
-  density_kgm3: number,
-  velocity_mps: number,
-  angle_deg: number,
-  targetDensity = TARGET_DENSITY
-) {
-  // Use vertical velocity component for coupling in crater formation:
-  const angleRad = (angle_deg * Math.PI) / 180;
-  const vEff = Math.max(velocity_mps * Math.sin(angleRad), 10); // avoid zero or tiny
-
-  const asteroidRadius_m = diameter_m / 2;
-  const gravityTerm = Math.pow(G, -0.22);
-  const velocityTerm = Math.pow(vEff, 0.44);
-  const densityRatio = Math.pow(density_kgm3 / targetDensity, 1 / 3);
-  const sizeTerm = Math.pow(asteroidRadius_m, 0.78);
-
-  const k = 1.161; // empirical constant from literature approximations
-  const D_m = k * gravityTerm * velocityTerm * densityRatio * sizeTerm;
-
-  const D_km = D_m / 1000;
-  // sanity cap & clip
-  const capped = Math.min(D_km, CRATER_MAX_KM);
-  return Math.max(capped, 0.0) * 1000; // return meters
-}
+export type ZoneFootprints = { azimuth_deg: number; blast?: ZoneFootprint; thermal?: ZoneFootprint };
 
-// Seismic magnitude from total energy (joules)
-export function seismicMagnitudeFromEnergy(E_j: number) {
-  const M = 0.67 * Math.log10(Math.max(E_j, 1)) - 5.87;
-  return Math.max(0, Math.min(M, 12));
-}
-
-// Blast & thermal radii computed as multiples of crater radius (km)
-export function computeBlastThermalFromCrater(crater_km: number, options?: { blastFactor?: number; thermalFactor?: number }) {
-  const blastFactor = options?.blastFactor ?? 3.0; // recommended 2–5
-  const thermalFactor = options?.thermalFactor ?? 1.8; // recommended 1–3
-
-  const craterRadius_km = crater_km / 2;
-  const blast_km = craterRadius_km * blastFactor;
-  const thermal_km = craterRadius_km * thermalFactor;
-
-  return {
-    craterRadius_km,
-    blast_km,
-    thermal_km
-  };
-}
+export const CITY_POINTS_SOURCE: PopulationSource = { kind: 'city_points', name: 'Natural Earth populated places' };
 
-// Haversine distance in kilometers between two lat/lon points
-export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number) {
-  const toRad = (deg: number) => (deg * Math.PI) / 180;
-  const R = 6371; // Earth radius km
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
+export type CorridorExposure = {
+  expected_blast_population: number;
+  expected_thermal_population: number;
+  cities: Array<{ city: string; country?: string; population?: number; probability: number }>; // chance of lying in the blast or thermal zone
+};
 
 // Aggregate population affected given city point dataset
 export function populationAffectedByZones(
@@ -120,31 +42,44 @@ export function populationAffectedByZones(
   centerLng: number,
   blast_km: number,
   thermal_km: number,
-  craterRadius_km: number
-) {
+  craterRadius_km: number,
+  ejectaZones: Array<{ key: string; radius_km: number }> = [],
+  footprints?: ZoneFootprints
+): PopulationEstimate {
   let blastPop = 0;
   let thermalPop = 0;
   let craterPop = 0;
-  const cityResults: { city: string; country?: string; population?: number; distance_km: number; zones: string[] }[] = [];
+  const cityResults: AffectedCity[] = [];
 
   for (const f of cities) {
     const [lon, lat] = f.geometry.coordinates;
     const pop = f.properties.population ?? 0;
-    const dist = haversineKm(centerLat, centerLng, lat, lon);
+    const dist = haversineDistance(centerLat, centerLng, lat, lon);
+    // Oblique entries: test against the downrange-stretched ellipses instead of circles
+    const bearing = footprints ? initialBearingDeg(centerLat, centerLng, lat, lon) : 0;
+    const inBlast = footprints?.blast
+      ? isInsideFootprint(footprints.blast, dist, bearing, footprints.azimuth_deg)
+      : dist <= blast_km;
+    const inThermal = footprints?.thermal
+      ? isInsideFootprint(footprints.thermal, dist, bearing, footprints.azimuth_deg)
+      : dist <= thermal_km;
 
     const zones: string[] = [];
     if (dist <= craterRadius_km) {
       craterPop += pop;
       zones.push('crater');
     }
-    if (dist <= blast_km) {
+    if (inBlast) {
       blastPop += pop;
       zones.push('blast');
     }
-    if (dist <= thermal_km) {
+    if (inThermal) {
       thermalPop += pop;
       zones.push('thermal');
     }
+    for (const ejecta of ejectaZones) {
+      if (dist > craterRadius_km && dist <= ejecta.radius_km) zones.push(ejecta.key);
+    }
 
     if (zones.length > 0) {
       cityResults.push({ city: f.properties.city, country: f.properties.country, population: pop, distance_km: dist, zones });
@@ -158,48 +93,83 @@ export function populationAffectedByZones(
     craterPop,
     blastPop,
     thermalPop,
-    cityResults
+    cityResults,
+    source: CITY_POINTS_SOURCE
   };
 }
 
-// Main wrapper: compute impact + population estimates
-export function simulateImpactAndPopulation(params: ImpactParams, cities: CityFeature[]): ImpactResult & { cityResults: any; craterPop: number; blastPop: number; thermalPop: number } {
-  const { diameter_m, density_kgm3, velocity_kms, angle_deg } = params;
-  const velocity_mps = kmpsToMps(velocity_kms);
-
-  // Total mass & energy (angle does NOT reduce mass or total KE)
-  const mass_kg = diameterToMassKg(diameter_m, density_kgm3);
-  const energy_j = kineticEnergyJ(mass_kg, velocity_mps);
-  const energy_mt = energy_j / MT_JOULES;
+// People in the blast or thermal zone. Both zones share a centre and shape, so the
+// wider one holds the other and its count is the union.
+export function affectedPopulation(estimate: PopulationEstimate): number {
+  return Math.max(estimate.blastPop, estimate.thermalPop);
+}
 
-  // crater (meters -> km)
-  const crater_m = craterDiameterMeters(diameter_m, density_kgm3, velocity_mps, angle_deg);
-  const crater_km = crater_m / 1000;
-  const craterRadius_km = crater_km / 2;
+// City points from the geocoding dataset ({ name, country, lat, lon, population })
+export function toCityFeatures(cities: Array<{ name: string; country?: string; lat: number; lon: number; population?: number }>): CityFeature[] {
+  return cities
+    .map(c => ({
+      geometry: { coordinates: [c.lon, c.lat] as [number, number] },
+      properties: { city: c.name, country: c.country, population: c.population || 0 }
+    }))
+    .filter(p => Number.isFinite(p.geometry.coordinates[0]) && Number.isFinite(p.geometry.coordinates[1]));
+}
 
-  // blast & thermal (km)
-  const { blast_km, thermal_km } = computeBlastThermalFromCrater(crater_km);
+// Outermost blast and thermal footprints of a result
+export function resultFootprints(res: SimulationResult): ZoneFootprints {
+  return {
+    azimuth_deg: res.azimuth_deg ?? DEFAULT_AZIMUTH_DEG,
+    blast: res.blast_rings?.[res.blast_rings.length - 1]?.footprint,
+    thermal: res.thermal_zones?.[res.thermal_zones.length - 1]?.footprint
+  };
+}
 
-  // seismic magnitude from total energy
-  const seismicMagnitude = seismicMagnitudeFromEnergy(energy_j);
+// Population step for a full simulation result, using its outermost footprints
+export function populationForResult(cities: CityFeature[], res: SimulationResult): PopulationEstimate {
+  return populationAffectedByZones(
+    cities,
+    res.latitude,
+    res.longitude,
+    res.blast_radius_km,
+    res.thermal_radius_km,
+    res.crater_km / 2,
+    res.ejecta_zones,
+    resultFootprints(res)
+  );
+}
 
-  // population intersection
-  const popResults = populationAffectedByZones(cities, params.lat ?? 0, params.lng ?? 0, blast_km, thermal_km, craterRadius_km);
+// Probability-weighted population in the blast and thermal zones of a result moved to
+// each point of a risk corridor. The result's footprints are turned to the direction
+// of travel at each point.
+export function corridorExposure(cities: CityFeature[], corridor: RiskCorridor, res: SimulationResult): CorridorExposure {
+  let blast = 0;
+  let thermal = 0;
+  const byCity = new Map<string, CorridorExposure['cities'][number]>();
+
+  for (const point of corridor.points) {
+    const estimate = populationAffectedByZones(
+      cities,
+      point.lat,
+      point.lng,
+      res.blast_radius_km,
+      res.thermal_radius_km,
+      res.crater_km / 2,
+      [],
+      { ...resultFootprints(res), azimuth_deg: point.azimuth_deg }
+    );
+    blast += point.probability * estimate.blastPop;
+    thermal += point.probability * estimate.thermalPop;
+    for (const c of estimate.cityResults) {
+      if (!c.zones.includes('blast') && !c.zones.includes('thermal')) continue;
+      const key = `${c.city}|${c.country ?? ''}`;
+      const entry = byCity.get(key) ?? { city: c.city, country: c.country, population: c.population, probability: 0 };
+      entry.probability += point.probability;
+      byCity.set(key, entry);
+    }
+  }
 
   return {
-    impact_energy_j: energy_j,
-    impact_energy_mt: energy_mt,
-    crater_km,
-    crater_radius_km: craterRadius_km,
-    blast_radius_km: blast_km,
-    thermal_radius_km: thermal_km,
-    seismic_magnitude: seismicMagnitude,
-    // extra:
-    cityResults: popResults.cityResults,
-    craterPop: popResults.craterPop,
-    blastPop: popResults.blastPop,
-    thermalPop: popResults.thermalPop
+    expected_blast_population: blast,
+    expected_thermal_population: thermal,
+    cities: Array.from(byCity.values()).sort((a, b) => b.probability * (b.population ?? 0) - a.probability * (a.population ?? 0))
   };
 }
-
-
@@ -0,0 +1,89 @@
+// Inverse solving: the diameter or velocity that produces a chosen outcome.
+//
+// simulateImpactor runs forward inside a bracketing search. Every outcome offered here
+// grows with both size and speed, so bisection between fixed bounds (on a log scale for
+// diameter) converges on the smallest input that reaches the target. Outcomes that jump,
+// such as a crater appearing once the body survives entry or a population count that
+// steps from city to city, resolve to the edge of the jump.
+
+import type { ImpactParameters, SimulationResult } from '../types';
+import { simulateImpactor } from './physics';
+
+export type InverseTarget = 'crater_km' | 'impact_energy_mt' | 'blast_radius_km' | 'population_affected';
+export type InverseUnknown = 'diameter_m' | 'velocity_kms';
+
+export const INVERSE_TARGETS: Record<InverseTarget, { label: string; unit: string }> = {
+  crater_km: { label: 'Crater diameter', unit: 'km' },
+  impact_energy_mt: { label: 'Impact energy', unit: 'Mt' },
+  blast_radius_km: { label: 'Blast radius', unit: 'km' },
+  population_affected: { label: 'Population affected', unit: 'people' }
+};
+
+export const INVERSE_UNKNOWNS: Record<InverseUnknown, { label: string; unit: string; min: number; max: number; log: boolean }> = {
+  diameter_m: { label: 'Diameter', unit: 'm', min: 1, max: 100000, log: true },
+  velocity_kms: { label: 'Velocity', unit: 'km/s', min: 11, max: 72, log: false }
+};
+
+const DEFAULT_TOLERANCE = 1e-3;
+const DEFAULT_MAX_ITERATIONS = 100;
+
+export interface InverseOptions {
+  populationOf?: (result: SimulationResult) => number; // needed for population_affected
+  tolerance?: number; // relative, on the outcome
+  maxIterations?: number;
+}
+
+export interface InverseSolution {
+  parameters: ImpactParameters; // the fixed inputs with the solved one
+  value: number; // solved input
+  achieved: number; // outcome at the solution
+  iterations: number;
+}
+
+export function outcomeOf(result: SimulationResult, target: InverseTarget, options: InverseOptions = {}): number {
+  if (target === 'population_affected') {
+    if (!options.populationOf) throw new Error('City data is needed to solve for population affected');
+    return options.populationOf(result);
+  }
+  return result[target];
+}
+
+// Smallest diameter or velocity, with the other inputs fixed, whose outcome reaches the goal
+export function solveInverse(
+  base: ImpactParameters,
+  target: InverseTarget,
+  goal: number,
+  unknown: InverseUnknown,
+  options: InverseOptions = {}
+): InverseSolution {
+  if (!(goal > 0)) {
+    throw new Error(`${INVERSE_TARGETS[target].label} must be greater than zero`);
+  }
+  const bounds = INVERSE_UNKNOWNS[unknown];
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const withValue = (value: number): ImpactParameters => ({ ...base, [unknown]: value });
+  const outcomeAt = (value: number) => outcomeOf(simulateImpactor(withValue(value), { strewnField: false }), target, options);
+
+  let [lo, hi] = [bounds.min, bounds.max];
+  let achieved = outcomeAt(hi);
+  if (achieved < goal) {
+    throw new Error(
+      `No ${bounds.label.toLowerCase()} up to ${bounds.max.toLocaleString()} ${bounds.unit} reaches ${goal.toLocaleString()} ${INVERSE_TARGETS[target].unit}`
+    );
+  }
+  const atMin = outcomeAt(lo);
+  if (atMin >= goal) {
+    return { parameters: withValue(lo), value: lo, achieved: atMin, iterations: 0 };
+  }
+
+  let iterations = 0;
+  while (iterations < (options.maxIterations ?? DEFAULT_MAX_ITERATIONS)) {
+    iterations++;
+    const mid = bounds.log ? Math.sqrt(lo * hi) : (lo + hi) / 2;
+    const outcome = outcomeAt(mid);
+    if (outcome >= goal) [hi, achieved] = [mid, outcome];
+    else lo = mid;
+    if (Math.abs(achieved - goal) <= tolerance * goal || hi / lo - 1 < 1e-9) break;
+  }
+  return { parameters: withValue(hi), value: hi, achieved, iterations };
+}
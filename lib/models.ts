@@ -0,0 +1,185 @@
+// Model registry for the impact engine.
+//
+// simulateImpactor runs one pipeline (entry, target, crater, blast, thermal, seismic)
+// and the population step runs over its result. Each of those stages looks up its
+// model here by id, so an alternative scaling law can be registered and selected
+// without touching the pipeline. Results record the id and version of every model
+// that produced them.
+
+import type {
+  BlastRing,
+  ModelKind,
+  ModelSelection,
+  ModelVersion,
+  MmiRing,
+  SimulationResult
+} from '../types';
+import type { TargetMaterialPreset } from '../data/targetMaterials';
+import {
+  transientCraterDiameterMeters,
+  finalCraterDiameterMeters,
+  transientForFinalDiameterMeters
+} from './crater';
+import { computeBlastRings } from './blast';
+import { computeThermalZones, ThermalInput, ThermalResult } from './thermal';
+import { computeMmiRings, magnitudeFromEnergy } from './seismic';
+import { CityFeature, PopulationEstimate, populationForResult } from './impact';
+import { getLoadedPopulationGrid, gridPopulationForResult } from './population';
+
+interface ModelInfo {
+  id: string;
+  version: string;
+  label: string;
+}
+
+export interface CraterModel extends ModelInfo {
+  transientDiameterMeters(
+    diameter_m: number,
+    density_kgm3: number,
+    velocity_mps: number,
+    angle_deg: number,
+    target: TargetMaterialPreset,
+    porosity: number
+  ): number;
+  finalDiameterMeters(transient_m: number): number;
+  // Inverse of finalDiameterMeters, used when the final diameter is capped
+  transientForFinalDiameterMeters(final_m: number): number;
+}
+
+export interface BlastModel extends ModelInfo {
+  rings(energy_j: number, burstAltitude_m: number): BlastRing[];
+}
+
+export interface ThermalModel extends ModelInfo {
+  zones(input: ThermalInput): ThermalResult;
+}
+
+export interface SeismicModel extends ModelInfo {
+  magnitude(energy_j: number): number;
+  rings(magnitude: number): MmiRing[];
+}
+
+export interface PopulationModel extends ModelInfo {
+  estimate(cities: CityFeature[], result: SimulationResult): PopulationEstimate;
+}
+
+export interface ModelsByKind {
+  crater: CraterModel;
+  blast: BlastModel;
+  thermal: ThermalModel;
+  seismic: SeismicModel;
+  population: PopulationModel;
+}
+
+export type ResolvedModels = { [K in ModelKind]: ModelsByKind[K] };
+
+export const MODEL_KINDS: ModelKind[] = ['crater', 'blast', 'thermal', 'seismic', 'population'];
+
+export const DEFAULT_MODEL_IDS: Record<ModelKind, string> = {
+  crater: 'collins-2005',
+  blast: 'yield-scaling',
+  thermal: 'fireball-fluence',
+  seismic: 'collins-2005',
+  population: 'population-grid'
+};
+
+const registry: { [K in ModelKind]: Map<string, ModelsByKind[K]> } = {
+  crater: new Map(),
+  blast: new Map(),
+  thermal: new Map(),
+  seismic: new Map(),
+  population: new Map()
+};
+
+// Registering an id that already exists replaces the earlier model
+export function registerModel<K extends ModelKind>(kind: K, model: ModelsByKind[K]): void {
+  (registry[kind] as Map<string, ModelsByKind[K]>).set(model.id, model);
+}
+
+export function getModel<K extends ModelKind>(kind: K, id: string = DEFAULT_MODEL_IDS[kind]): ModelsByKind[K] {
+  const model = (registry[kind] as Map<string, ModelsByKind[K]>).get(id);
+  if (!model) {
+    throw new Error(`Unknown ${kind} model: ${id}`);
+  }
+  return model;
+}
+
+export function listModels<K extends ModelKind>(kind: K): Array<ModelsByKind[K]> {
+  return Array.from((registry[kind] as Map<string, ModelsByKind[K]>).values());
+}
+
+export function resolveModels(selection: ModelSelection = {}): ResolvedModels {
+  return {
+    crater: getModel('crater', selection.crater),
+    blast: getModel('blast', selection.blast),
+    thermal: getModel('thermal', selection.thermal),
+    seismic: getModel('seismic', selection.seismic),
+    population: getModel('population', selection.population)
+  };
+}
+
+export function modelVersions(models: ResolvedModels): Record<ModelKind, ModelVersion> {
+  const versions = {} as Record<ModelKind, ModelVersion>;
+  MODEL_KINDS.forEach(kind => { versions[kind] = { id: models[kind].id, version: models[kind].version }; });
+  return versions;
+}
+
+// Population step for a result, using the population model it was simulated with
+// unless another is named
+export function estimatePopulation(
+  cities: CityFeature[],
+  result: SimulationResult,
+  modelId: string | undefined = result.model_versions?.population.id
+): PopulationEstimate {
+  return getModel('population', modelId).estimate(cities, result);
+}
+
+// Built-in models
+
+registerModel('crater', {
+  id: 'collins-2005',
+  version: '1.0',
+  label: 'Pi-scaling with strength correction (Collins et al. 2005)',
+  transientDiameterMeters: transientCraterDiameterMeters,
+  finalDiameterMeters: finalCraterDiameterMeters,
+  transientForFinalDiameterMeters
+});
+
+registerModel('blast', {
+  id: 'yield-scaling',
+  version: '1.0',
+  label: 'Cube-root yield scaling of overpressure (Glasstone & Dolan 1977)',
+  rings: computeBlastRings
+});
+
+registerModel('thermal', {
+  id: 'fireball-fluence',
+  version: '1.0',
+  label: 'Fireball thermal fluence (Collins et al. 2005)',
+  zones: computeThermalZones
+});
+
+registerModel('seismic', {
+  id: 'collins-2005',
+  version: '1.0',
+  label: 'Energy-magnitude relation with distance attenuation (Collins et al. 2005)',
+  magnitude: magnitudeFromEnergy,
+  rings: computeMmiRings
+});
+
+registerModel('population', {
+  id: 'city-points',
+  version: '1.0',
+  label: 'City point dataset inside the outermost footprints',
+  estimate: populationForResult
+});
+
+registerModel('population', {
+  id: 'population-grid',
+  version: '1.0',
+  label: 'Gridded population, area-weighted over the outermost footprints (city points until a grid loads)',
+  estimate: (cities, result) => {
+    const grid = getLoadedPopulationGrid();
+    return grid ? gridPopulationForResult(grid, cities, result) : populationForResult(cities, result);
+  }
+});
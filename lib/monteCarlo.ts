@@ -0,0 +1,185 @@
+// Monte Carlo uncertainty propagation.
+//
+// Uncertain inputs are drawn from their distributions with a seeded generator so a
+// run can be repeated exactly. Every draw goes through simulateImpactor (and the
+// population step, when the caller supplies one), and the outputs are summarised as
+// 5th, 50th and 95th percentiles.
+
+import type {
+  DistributionKind,
+  ImpactParameters,
+  ModelSelection,
+  ParameterDistribution,
+  Percentiles,
+  SimulationResult,
+  UncertainParameter,
+  UncertaintySummary
+} from '../types';
+import { simulateImpactor } from './physics';
+
+export const DEFAULT_MONTE_CARLO_SAMPLES = 200;
+export const DEFAULT_MONTE_CARLO_SEED = 42;
+
+// Draws outside these limits are clamped so every sample is a valid impact
+export const PARAMETER_BOUNDS: Record<UncertainParameter, [number, number]> = {
+  diameter_m: [0.1, 1e6],
+  density_kgm3: [100, 10000],
+  velocity_kms: [11, 72],
+  angle_deg: [1, 90]
+};
+
+// How each parameter is varied around its nominal value (see distributionAround)
+export interface UncertaintySpread {
+  kind: DistributionKind;
+  spread: number;
+}
+
+export const DEFAULT_UNCERTAINTY_SPREADS: Record<UncertainParameter, UncertaintySpread> = {
+  diameter_m: { kind: 'lognormal', spread: 0.3 }, // sizes from brightness are uncertain by a factor of ~2
+  density_kgm3: { kind: 'normal', spread: 0.15 },
+  velocity_kms: { kind: 'normal', spread: 0.1 },
+  angle_deg: { kind: 'uniform', spread: 0.3 }
+};
+
+export interface MonteCarloOptions {
+  samples?: number;
+  seed?: number;
+  populationOf?: (result: SimulationResult) => number;
+  models?: ModelSelection;
+}
+
+// mulberry32: small, fast and good enough for sampling
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal deviate (Box–Muller)
+function standardNormal(rng: () => number): number {
+  const u = Math.max(rng(), Number.EPSILON);
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+export function sampleDistribution(dist: ParameterDistribution, rng: () => number): number {
+  switch (dist.kind) {
+    case 'normal':
+      return dist.mean + dist.sd * standardNormal(rng);
+    case 'lognormal':
+      return dist.median * Math.exp(dist.sigma * standardNormal(rng));
+    case 'uniform':
+      return dist.min + (dist.max - dist.min) * rng();
+  }
+}
+
+// Distribution centred on a nominal value; spread is a fraction of the value
+// (the log-space sigma for log-normal, the half-width for uniform)
+export function distributionAround(value: number, kind: DistributionKind, spread: number): ParameterDistribution {
+  switch (kind) {
+    case 'normal':
+      return { kind, mean: value, sd: value * spread };
+    case 'lognormal':
+      return { kind, median: value, sigma: spread };
+    case 'uniform':
+      return { kind, min: value * (1 - spread), max: value * (1 + spread) };
+  }
+}
+
+export function distributionsFor(
+  params: ImpactParameters,
+  spreads: Record<UncertainParameter, UncertaintySpread>
+): Record<UncertainParameter, ParameterDistribution> {
+  return {
+    diameter_m: distributionAround(params.diameter_m, spreads.diameter_m.kind, spreads.diameter_m.spread),
+    density_kgm3: distributionAround(params.density_kgm3, spreads.density_kgm3.kind, spreads.density_kgm3.spread),
+    velocity_kms: distributionAround(params.velocity_kms, spreads.velocity_kms.kind, spreads.velocity_kms.spread),
+    angle_deg: distributionAround(params.angle_deg, spreads.angle_deg.kind, spreads.angle_deg.spread)
+  };
+}
+
+// Linear interpolation between order statistics
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+export function summarize(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p5: percentile(sorted, 5), p50: percentile(sorted, 50), p95: percentile(sorted, 95) };
+}
+
+// Every zone radius of a result under a stable key
+function zoneRadii(res: SimulationResult): Record<string, number> {
+  const radii: Record<string, number> = {};
+  (res.blast_rings ?? []).forEach(r => { radii[`blast_${r.overpressure_psi}psi`] = r.radius_km; });
+  (res.thermal_zones ?? []).forEach(z => { radii[`thermal_${z.key}`] = z.radius_km; });
+  (res.mmi_rings ?? []).forEach(r => { radii[`mmi_${r.mmi}`] = r.radius_km; });
+  (res.ejecta_zones ?? []).forEach(z => { radii[z.key] = z.radius_km; });
+  return radii;
+}
+
+export function sampleParameters(
+  base: ImpactParameters,
+  distributions: Partial<Record<UncertainParameter, ParameterDistribution>>,
+  rng: () => number
+): ImpactParameters {
+  const params = { ...base };
+  (Object.keys(distributions) as UncertainParameter[]).forEach(key => {
+    const dist = distributions[key];
+    if (!dist) return;
+    const [min, max] = PARAMETER_BOUNDS[key];
+    params[key] = Math.min(Math.max(sampleDistribution(dist, rng), min), max);
+  });
+  return params;
+}
+
+export function runMonteCarlo(
+  base: ImpactParameters,
+  distributions: Partial<Record<UncertainParameter, ParameterDistribution>>,
+  options: MonteCarloOptions = {}
+): UncertaintySummary {
+  const samples = Math.max(1, Math.round(options.samples ?? DEFAULT_MONTE_CARLO_SAMPLES));
+  const seed = options.seed ?? DEFAULT_MONTE_CARLO_SEED;
+  const rng = createRng(seed);
+
+  const energy: number[] = [];
+  const crater: number[] = [];
+  const blast: number[] = [];
+  const thermal: number[] = [];
+  const population: number[] = [];
+  const radii: Array<Record<string, number>> = [];
+
+  for (let i = 0; i < samples; i++) {
+    const res = simulateImpactor(sampleParameters(base, distributions, rng), { strewnField: false, models: options.models });
+    energy.push(res.impact_energy_mt);
+    crater.push(res.crater_km);
+    blast.push(res.blast_radius_km);
+    thermal.push(res.thermal_radius_km);
+    radii.push(zoneRadii(res));
+    if (options.populationOf) population.push(options.populationOf(res));
+  }
+
+  const keys = Array.from(new Set(radii.flatMap(r => Object.keys(r))));
+  const zone_radii_km: Record<string, Percentiles> = {};
+  keys.forEach(key => { zone_radii_km[key] = summarize(radii.map(r => r[key] ?? 0)); });
+
+  return {
+    samples,
+    seed,
+    impact_energy_mt: summarize(energy),
+    crater_km: summarize(crater),
+    blast_radius_km: summarize(blast),
+    thermal_radius_km: summarize(thermal),
+    zone_radii_km,
+    population_affected: options.populationOf ? summarize(population) : undefined
+  };
+}
@@ -0,0 +1,77 @@
+// Water-target impacts: transient water cavity, penetration to the seafloor and
+// the initial tsunami (rim wave) amplitude, after Collins et al. (2005).
+
+export const WATER_DENSITY = 1000; // kg/m^3
+const G = 9.81; // m/s^2
+const DRAG_COEFFICIENT = 2.0;
+
+export interface OceanImpactInput {
+  diameter_m: number;
+  density_kgm3: number;
+  velocity_mps: number;
+  angle_deg: number;
+  waterDepth_m: number;
+}
+
+export interface OceanImpactResult {
+  cavityDiameter_m: number;
+  cavityDepth_m: number;
+  reachesSeafloor: boolean;
+  seafloorVelocity_mps: number; // impactor velocity after crossing the water column
+  tsunamiAmplitude_m: number; // rim wave amplitude at the cavity edge
+  tsunamiSourceRadius_m: number;
+}
+
+// Transient cavity in water (Collins et al. 2005, eq. 21 with a water target)
+export function waterCavityDiameterMeters(
+  diameter_m: number,
+  density_kgm3: number,
+  velocity_mps: number,
+  angle_deg: number
+): number {
+  const sinTheta = Math.max(Math.sin((angle_deg * Math.PI) / 180), 0.01);
+  return 1.365
+    * Math.pow(density_kgm3 / WATER_DENSITY, 1 / 3)
+    * Math.pow(diameter_m, 0.78)
+    * Math.pow(velocity_mps, 0.44)
+    * Math.pow(G, -0.22)
+    * Math.pow(sinTheta, 1 / 3);
+}
+
+// Velocity after drag through the water column (Collins et al. 2005, eq. 29)
+export function seafloorVelocityMps(
+  diameter_m: number,
+  density_kgm3: number,
+  velocity_mps: number,
+  angle_deg: number,
+  waterDepth_m: number
+): number {
+  const sinTheta = Math.max(Math.sin((angle_deg * Math.PI) / 180), 0.01);
+  const exponent = (3 * WATER_DENSITY * DRAG_COEFFICIENT * waterDepth_m) / (2 * density_kgm3 * diameter_m * sinTheta);
+  return velocity_mps * Math.exp(-exponent);
+}
+
+export function simulateOceanImpact(input: OceanImpactInput): OceanImpactResult {
+  const { diameter_m, density_kgm3, velocity_mps, angle_deg, waterDepth_m } = input;
+
+  const cavityDiameter = waterCavityDiameterMeters(diameter_m, density_kgm3, velocity_mps, angle_deg);
+  const cavityDepth = cavityDiameter / (2 * Math.SQRT2);
+
+  // The seafloor is only cratered when the cavity opens down to it
+  const reachesSeafloor = waterDepth_m < cavityDepth;
+  const seafloorVelocity = reachesSeafloor
+    ? seafloorVelocityMps(diameter_m, density_kgm3, velocity_mps, angle_deg, waterDepth_m)
+    : 0;
+
+  // Rim wave cannot be taller than the water is deep
+  const tsunamiAmplitude = Math.min(cavityDiameter / 14.1, waterDepth_m);
+
+  return {
+    cavityDiameter_m: cavityDiameter,
+    cavityDepth_m: cavityDepth,
+    reachesSeafloor,
+    seafloorVelocity_mps: seafloorVelocity,
+    tsunamiAmplitude_m: tsunamiAmplitude,
+    tsunamiSourceRadius_m: cavityDiameter / 2
+  };
+}
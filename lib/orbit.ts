@@ -0,0 +1,208 @@
+// Encounter geometry from heliocentric orbital elements.
+//
+// The asteroid meets Earth where its orbit crosses 1 AU (the crossing nearer the
+// ecliptic is taken). Earth is placed on a circular orbit at that heliocentric
+// longitude, which fixes the synthetic impact date; the velocity relative to Earth
+// gives v∞, and Earth's gravity adds the escape speed, v² = v∞² + v_esc². The radiant
+// seen from the target at the impact time sets the entry angle (corrected for zenith
+// attraction) and the direction of travel. Earth's own rotation speed is ignored.
+
+import type { ImpactParameters, OrbitalElements } from '../types';
+import { normalizeAzimuth } from './footprint';
+
+export const SUN_GM_KM3S2 = 1.32712440018e11;
+export const AU_KM = 1.495978707e8;
+const EARTH_ESCAPE_KMS = 11.186;
+const OBLIQUITY_DEG = 23.4393;
+const DAY_MS = 86400 * 1000;
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+const EARTH_MEAN_MOTION_DEG_PER_DAY = 0.9856474;
+const EARTH_LONGITUDE_J2000_DEG = 100.46; // Sun's mean longitude + 180°
+
+export type Vec3 = [number, number, number];
+
+// Pre-impact orbit of the Chelyabinsk meteoroid (Borovička et al. 2013)
+export const DEFAULT_ORBITAL_ELEMENTS: OrbitalElements = {
+  a_au: 1.72,
+  e: 0.571,
+  i_deg: 4.98,
+  node_deg: 326.459,
+  peri_deg: 107.67,
+  epoch: '2013-01-01'
+};
+
+// Numeric elements in input order, for forms
+export const ORBITAL_ELEMENT_FIELDS: Array<{ key: Exclude<keyof OrbitalElements, 'epoch'>; label: string; unit: string; step: number }> = [
+  { key: 'a_au', label: 'Semi-major axis a', unit: 'AU', step: 0.01 },
+  { key: 'e', label: 'Eccentricity e', unit: '', step: 0.001 },
+  { key: 'i_deg', label: 'Inclination i', unit: '°', step: 0.1 },
+  { key: 'node_deg', label: 'Ascending node Ω', unit: '°', step: 0.1 },
+  { key: 'peri_deg', label: 'Arg. of perihelion ω', unit: '°', step: 0.1 }
+];
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+const norm = (v: Vec3) => Math.hypot(v[0], v[1], v[2]);
+
+export interface EncounterOptions {
+  time_utc_hours?: number; // time of day of the impact; radiant transit over the target when omitted
+}
+
+export interface OrbitalEncounter {
+  v_infinity_kms: number; // speed relative to Earth before its gravity acts
+  impact_velocity_kms: number; // at the top of the atmosphere
+  radiant_ra_deg: number; // geocentric radiant, equatorial
+  radiant_dec_deg: number;
+  radiant_altitude_deg: number; // above the target's horizon, before zenith attraction
+  impact_angle_deg: number; // from the horizontal
+  azimuth_deg: number; // direction of travel, clockwise from north
+  impact_date: string; // ISO date-time of the synthetic impact
+  ecliptic_offset_au: number; // height of the crossing point above the ecliptic
+}
+
+// Ecliptic to equatorial axes (rotation about x by the obliquity)
+export function eclipticToEquatorial([x, y, z]: Vec3): Vec3 {
+  const [ce, se] = [Math.cos(toRad(OBLIQUITY_DEG)), Math.sin(toRad(OBLIQUITY_DEG))];
+  return [x, y * ce - z * se, y * se + z * ce];
+}
+
+// Heliocentric ecliptic position (AU) and velocity (km/s) at a true anomaly
+export function heliocentricState(el: OrbitalElements, trueAnomaly_rad: number): { position_au: Vec3; velocity_kms: Vec3 } {
+  const p = el.a_au * (1 - el.e * el.e);
+  const r = p / (1 + el.e * Math.cos(trueAnomaly_rad));
+  const speedScale = Math.sqrt(SUN_GM_KM3S2 / (p * AU_KM));
+  const perifocalR: Vec3 = [r * Math.cos(trueAnomaly_rad), r * Math.sin(trueAnomaly_rad), 0];
+  const perifocalV: Vec3 = [-speedScale * Math.sin(trueAnomaly_rad), speedScale * (el.e + Math.cos(trueAnomaly_rad)), 0];
+
+  const [cO, sO] = [Math.cos(toRad(el.node_deg)), Math.sin(toRad(el.node_deg))];
+  const [cw, sw] = [Math.cos(toRad(el.peri_deg)), Math.sin(toRad(el.peri_deg))];
+  const [ci, si] = [Math.cos(toRad(el.i_deg)), Math.sin(toRad(el.i_deg))];
+  const rotate = ([x, y]: Vec3): Vec3 => [
+    (cO * cw - sO * sw * ci) * x + (-cO * sw - sO * cw * ci) * y,
+    (sO * cw + cO * sw * ci) * x + (-sO * sw + cO * cw * ci) * y,
+    sw * si * x + cw * si * y
+  ];
+  return { position_au: rotate(perifocalR), velocity_kms: rotate(perifocalV) };
+}
+
+// True anomalies (rad) at which the orbit is 1 AU from the Sun, or null if it never is
+export function earthCrossingAnomalies(el: OrbitalElements): [number, number] | null {
+  const p = el.a_au * (1 - el.e * el.e);
+  if (el.e <= 0) return Math.abs(el.a_au - 1) < 1e-9 ? [0, Math.PI] : null;
+  const cosF = (p - 1) / el.e;
+  if (cosF < -1 || cosF > 1) return null;
+  const f = Math.acos(cosF);
+  return [f, -f];
+}
+
+// Earth's heliocentric ecliptic longitude on a circular orbit
+export function earthLongitudeDeg(date: Date): number {
+  const days = (date.getTime() - J2000_MS) / DAY_MS;
+  return normalizeAzimuth(EARTH_LONGITUDE_J2000_DEG + EARTH_MEAN_MOTION_DEG_PER_DAY * days);
+}
+
+// First UTC day on or after a date when Earth reaches a heliocentric longitude
+export function nextDayAtEarthLongitude(longitude_deg: number, after: Date): Date {
+  const lag = normalizeAzimuth(longitude_deg - earthLongitudeDeg(after));
+  const when = new Date(after.getTime() + (lag / EARTH_MEAN_MOTION_DEG_PER_DAY) * DAY_MS);
+  return new Date(Date.UTC(when.getUTCFullYear(), when.getUTCMonth(), when.getUTCDate()));
+}
+
+// Greenwich mean sidereal time (deg)
+export function greenwichSiderealDeg(date: Date): number {
+  const days = (date.getTime() - J2000_MS) / DAY_MS;
+  return normalizeAzimuth(280.46061837 + 360.98564736629 * days);
+}
+
+export function computeEncounter(
+  el: OrbitalElements,
+  site: { lat: number; lng: number },
+  options: EncounterOptions = {}
+): OrbitalEncounter {
+  if (!(el.a_au > 0) || el.e < 0 || el.e >= 1) {
+    throw new Error('Orbital elements must describe a bound orbit (a > 0, 0 ≤ e < 1)');
+  }
+  const anomalies = earthCrossingAnomalies(el);
+  if (!anomalies) {
+    throw new Error('Orbit does not cross Earth\'s orbit at 1 AU');
+  }
+
+  // Crossing nearer the ecliptic, i.e. closer to a node
+  const states = anomalies.map(f => heliocentricState(el, f));
+  const state = Math.abs(states[0].position_au[2]) <= Math.abs(states[1].position_au[2]) ? states[0] : states[1];
+  const longitude = toDeg(Math.atan2(state.position_au[1], state.position_au[0]));
+
+  // Relative velocity against Earth's circular orbital velocity at that longitude
+  const earthSpeed = Math.sqrt(SUN_GM_KM3S2 / AU_KM);
+  const earthVelocity: Vec3 = [-earthSpeed * Math.sin(toRad(longitude)), earthSpeed * Math.cos(toRad(longitude)), 0];
+  const relative: Vec3 = [
+    state.velocity_kms[0] - earthVelocity[0],
+    state.velocity_kms[1] - earthVelocity[1],
+    state.velocity_kms[2] - earthVelocity[2]
+  ];
+  const vInf = norm(relative);
+  const vImpact = Math.sqrt(vInf * vInf + EARTH_ESCAPE_KMS * EARTH_ESCAPE_KMS);
+
+  // Radiant: the direction the body arrives from, rotated from ecliptic to equatorial
+  const eq = eclipticToEquatorial(relative.map(c => -c / vInf) as Vec3);
+  const ra = normalizeAzimuth(toDeg(Math.atan2(eq[1], eq[0])));
+  const dec = toDeg(Math.asin(Math.max(-1, Math.min(1, eq[2]))));
+
+  // Impact time: the synthetic day, at the requested hour or when the radiant transits
+  const day = nextDayAtEarthLongitude(longitude, new Date(el.epoch));
+  const siderealAtMidnight = greenwichSiderealDeg(day);
+  const hours = options.time_utc_hours !== undefined
+    ? options.time_utc_hours
+    : normalizeAzimuth(ra - site.lng - siderealAtMidnight) / 360.98564736629 * 24;
+  const impactDate = new Date(day.getTime() + hours * 3600 * 1000);
+
+  // Radiant altitude and azimuth at the target
+  const hourAngle = toRad(greenwichSiderealDeg(impactDate) + site.lng - ra);
+  const phi = toRad(site.lat);
+  const delta = toRad(dec);
+  const altitude = toDeg(Math.asin(Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(hourAngle)));
+  if (altitude <= 0) {
+    throw new Error('The radiant is below the horizon at the target at this time');
+  }
+  const radiantAzimuth = toDeg(Math.atan2(
+    -Math.cos(delta) * Math.sin(hourAngle),
+    Math.sin(delta) * Math.cos(phi) - Math.cos(delta) * Math.sin(phi) * Math.cos(hourAngle)
+  ));
+
+  // Zenith attraction: Earth's gravity bends the path towards the vertical
+  const zenith = toRad(90 - altitude);
+  const shift = 2 * Math.atan(((vImpact - vInf) / (vImpact + vInf)) * Math.tan(zenith / 2));
+  const impactAngle = 90 - toDeg(zenith - shift);
+
+  return {
+    v_infinity_kms: vInf,
+    impact_velocity_kms: vImpact,
+    radiant_ra_deg: ra,
+    radiant_dec_deg: dec,
+    radiant_altitude_deg: altitude,
+    impact_angle_deg: impactAngle,
+    azimuth_deg: normalizeAzimuth(radiantAzimuth + 180),
+    impact_date: impactDate.toISOString(),
+    ecliptic_offset_au: Math.abs(state.position_au[2])
+  };
+}
+
+// Impact parameters for a body on this orbit striking the target; size, density,
+// composition and target material come from the base parameters
+export function impactParametersFromOrbit(
+  base: ImpactParameters,
+  el: OrbitalElements,
+  site: { lat: number; lng: number },
+  options: EncounterOptions = {}
+): ImpactParameters {
+  const encounter = computeEncounter(el, site, options);
+  return {
+    ...base,
+    lat: site.lat,
+    lng: site.lng,
+    velocity_kms: encounter.impact_velocity_kms,
+    angle_deg: encounter.impact_angle_deg,
+    azimuth_deg: encounter.azimuth_deg,
+    impact_date: encounter.impact_date
+  };
+}
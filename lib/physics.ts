@@ -1,9 +1,25 @@
-import type { ImpactParameters, SimulationResult, DamageZone } from '../types';
+import type { ImpactParameters, SimulationResult, DamageZone, ResultFlag, TargetMaterial, ModelSelection } from '../types';
+import { DEFAULT_TARGET_MATERIAL, getTargetMaterial } from '../data/targetMaterials';
+import { getImpactorComposition } from '../data/impactorCompositions';
+import { simulateAtmosphericEntry } from './atmosphere';
+import { classifyTargetSurface } from './bathymetry';
+import { simulateOceanImpact } from './ocean';
+import { magnitudeFromEnergy } from './seismic';
+import { computeEjectaZones } from './ejecta';
+import { computeStrewnField } from './strewnField';
+import { computeClimateEffects } from './climate';
+import { DEFAULT_AZIMUTH_DEG, ellipticalFootprint, normalizeAzimuth } from './footprint';
+import { describeCrater } from './crater';
+import { assessHazard } from './hazard';
+import { thermalPulseDurationSeconds } from './thermal';
+import { computeEventTimeline } from './timeline';
+import { getModel, resolveModels, modelVersions } from './models';
 
 // Physics constants and guards
-const G = 9.81; // m/s^2
 const CRATER_MAX_KM = 12000; // safety cap
-const EARTH_RADIUS_KM = 6371; // used for sanity messages only
+const SMALL_BODY_CRATER_MAX_KM = 200; // cap for impactors up to 15 km
+const GLOBAL_CRATER_KM = 500; // craters beyond this imply global-level effects
+const EXTREME_ENERGY_MT = 1e6;
 
 export const MT_JOULES = 4.184e15; // 1 megaton TNT in joules
 
@@ -25,38 +41,21 @@ export function kineticEnergyJoules(mass_kg: number, v_mps: number): number {
   return 0.5 * mass_kg * v_mps * v_mps; // J
 }
 
+// Final rim diameter (m) of the crater left by an intact impactor
 export function craterDiameterMeters(
   diameter_m: number,
   density_kgm3: number,
   velocity_mps: number,
-  angle_deg: number
+  angle_deg: number,
+  target: TargetMaterial = DEFAULT_TARGET_MATERIAL
 ): number {
-  // Collins-style simplified scaling with gravity, velocity, density, and size
-  const angleRad = (angle_deg * Math.PI) / 180;
-  const vEff = Math.max(velocity_mps * Math.sin(angleRad), 10); // vertical component, avoid 0
-
-  const asteroidRadius_m = diameter_m / 2;
-  const gravityTerm = Math.pow(G, -0.22);
-  const velocityTerm = Math.pow(vEff, 0.44);
-  const densityRatio = Math.pow(density_kgm3 / 2700, 1 / 3); // vs rock target
-  const sizeTerm = Math.pow(asteroidRadius_m, 0.78);
-
-  const k = 1.161;
-  const D_m_raw = k * gravityTerm * velocityTerm * densityRatio * sizeTerm; // meters
-  const D_km = D_m_raw / 1000;
-
-  // Sanity guards
-  const cappedKm = Math.min(Math.max(D_km, 0), CRATER_MAX_KM);
-  if (diameter_m > 20000 && cappedKm > 500) {
-    console.warn('[impact] Extremely large crater implied by parameters; results may be global-level. D_km=', cappedKm.toFixed(1));
-  }
-  return cappedKm * 1000; // return meters
+  const model = getModel('crater');
+  const transient = model.transientDiameterMeters(diameter_m, density_kgm3, velocity_mps, angle_deg, getTargetMaterial(target), 0);
+  return Math.min(model.finalDiameterMeters(transient), CRATER_MAX_KM * 1000);
 }
 
 export function seismicMagnitudeEstimate(E_j: number): number {
-  // Use M = 0.67 * log10(E_J) - 5.87, total energy (no angle reduction)
-  const magnitude = 0.67 * Math.log10(Math.max(E_j, 1)) - 5.87;
-  return Math.min(Math.max(magnitude, 0), 12);
+  return magnitudeFromEnergy(E_j);
 }
 
 export function calculateImpactEnergy(
@@ -64,85 +63,192 @@ export function calculateImpactEnergy(
     density_kgm3: number, 
     velocity_kms: number
 ): number {
-    // Calculate asteroid mass
-    const radius = diameter_m / 2
-    const volume = (4/3) * Math.PI * Math.pow(radius, 3)
-    const mass_kg = volume * density_kgm3
-
-    // Convert velocity to m/s
-    const velocity_mps = velocity_kms * 1000
+    return kineticEnergyJoules(massFromDiameter(diameter_m, density_kgm3), velocity_kms * 1000)
+}
 
-    // Calculate kinetic energy
-    return 0.5 * mass_kg * Math.pow(velocity_mps, 2)
+export interface SimulateOptions {
+  strewnField?: boolean; // the fragment cascade is the slowest step; batch runs can skip it
+  models?: ModelSelection; // registry ids per stage (see lib/models); defaults otherwise
 }
 
-export function simulateImpactor(params: ImpactParameters): SimulationResult {
+export function simulateImpactor(params: ImpactParameters, options: SimulateOptions = {}): SimulationResult {
   if (!params.diameter_m || !params.density_kgm3 || !params.velocity_kms || !params.angle_deg
       || params.lat === undefined || params.lng === undefined) {
     throw new Error('Invalid impact parameters');
   }
 
   const { diameter_m, density_kgm3, velocity_kms, angle_deg, lat, lng } = params;
+  const models = resolveModels(options.models);
 
   // Impact energy (full kinetic, no angle reduction)
   const impactEnergy = calculateImpactEnergy(diameter_m, density_kgm3, velocity_kms);
 
-  // Crater diameter via coupling (angle only affects coupling)
-  let craterDiameter = craterDiameterMeters(diameter_m, density_kgm3, velocity_kms * 1000, angle_deg);
-  let craterKm = metersToKilometers(craterDiameter);
-  // Additional realistic small-body cap: if impactor ≤ 15 km, crater ≤ ~200 km
-  if (diameter_m <= 15000 && craterKm > 200) {
-    console.warn('[impact] Crater diameter capped to 200 km for ≤15 km impactor');
-    craterKm = 200;
-    craterDiameter = craterKm * 1000;
+  // Composition sets the breakup strength and porosity; without one, strength
+  // follows from density and the body is treated as solid
+  const composition = getImpactorComposition(params.composition);
+  const porosity = composition?.porosity ?? 0;
+
+  // Atmospheric entry: deceleration, ablation and possible airburst
+  const entry = simulateAtmosphericEntry({
+    diameter_m,
+    density_kgm3,
+    velocity_mps: velocity_kms * 1000,
+    angle_deg,
+    strength_pa: composition?.tensile_strength_pa
+  });
+
+  // Target surface: land, ice sheet or water of some depth
+  const target = classifyTargetSurface(lat, lng);
+  const isWater = target.surface === 'shallow_sea' || target.surface === 'deep_ocean';
+  const ocean = isWater && !entry.isAirburst
+    ? simulateOceanImpact({
+        diameter_m: entry.surfaceDiameter_m,
+        density_kgm3,
+        velocity_mps: entry.surfaceVelocity_mps,
+        angle_deg,
+        waterDepth_m: target.depth_m
+      })
+    : null;
+
+  const flags: ResultFlag[] = [];
+  // Ice sheets override the chosen bedrock; water impacts crater the chosen seafloor
+  const targetMaterial = getTargetMaterial(target.surface === 'ice_sheet' ? 'ice' : params.target);
+
+  // Transient crater from what survives entry and, for water impacts, what is left
+  // after the water column; the final crater follows from collapse
+  let transient = 0;
+  let craterEnergy = entry.surfaceEnergy_j;
+  if (ocean) {
+    if (ocean.reachesSeafloor) {
+      transient = models.crater.transientDiameterMeters(entry.surfaceDiameter_m, density_kgm3, ocean.seafloorVelocity_mps, angle_deg, targetMaterial, porosity);
+      craterEnergy = kineticEnergyJoules(entry.surfaceMass_kg, ocean.seafloorVelocity_mps);
+    }
+  } else if (!entry.isAirburst) {
+    transient = models.crater.transientDiameterMeters(entry.surfaceDiameter_m, density_kgm3, entry.surfaceVelocity_mps, angle_deg, targetMaterial, porosity);
+  }
+
+  let craterKm = metersToKilometers(models.crater.finalDiameterMeters(transient));
+  if (craterKm > CRATER_MAX_KM) {
+    craterKm = CRATER_MAX_KM;
+    transient = models.crater.transientForFinalDiameterMeters(craterKm * 1000);
+    flags.push({ code: 'crater_capped', message: `Crater diameter capped at ${CRATER_MAX_KM.toLocaleString('en-US')} km` });
   }
-  const craterRadiusKm = craterKm / 2;
-
-  // Blast & thermal radii as conservative multiples of crater radius
-  const BLAST_FACTOR = 3.0; // recommended 2–5
-  const THERMAL_FACTOR = 1.8; // recommended 1–3
-  let blastRadiusKm = BLAST_FACTOR * craterRadiusKm;
-  let thermalRadiusKm = THERMAL_FACTOR * craterRadiusKm;
-
-  // Cap at Earth radius to avoid unphysical map extents
-  if (blastRadiusKm > EARTH_RADIUS_KM) {
-    console.warn('[impact] Blast radius capped at Earth radius');
-    blastRadiusKm = EARTH_RADIUS_KM;
+  // Additional realistic small-body cap: if impactor ≤ 15 km, crater ≤ ~200 km
+  if (diameter_m <= 15000 && craterKm > SMALL_BODY_CRATER_MAX_KM) {
+    craterKm = SMALL_BODY_CRATER_MAX_KM;
+    transient = models.crater.transientForFinalDiameterMeters(craterKm * 1000);
+    flags.push({ code: 'crater_capped', message: `Crater diameter capped to ${SMALL_BODY_CRATER_MAX_KM} km for ≤15 km impactor` });
   }
-  if (thermalRadiusKm > EARTH_RADIUS_KM) {
-    console.warn('[impact] Thermal radius capped at Earth radius');
-    thermalRadiusKm = EARTH_RADIUS_KM;
+  if (diameter_m > 20000 && craterKm > GLOBAL_CRATER_KM) {
+    flags.push({ code: 'global_scale_crater', message: 'Extremely large crater implied by parameters; results may be global-level' });
   }
+  const crater = describeCrater(transient, craterEnergy, angle_deg);
+  const craterDiameter = craterKm * 1000;
 
-  if (thermalRadiusKm > EARTH_RADIUS_KM * 0.8) {
-    console.warn('[impact] Thermal radius exceeds 80% of Earth radius; global-level effects likely');
-  }
+  // Meteorite-dropping airbursts: follow the fragment cascade to the ground
+  const strewnField = options.strewnField !== false && entry.isAirburst && entry.breakupAltitude_m !== null
+    ? computeStrewnField({
+        breakupAltitude_m: entry.breakupAltitude_m,
+        breakupVelocity_mps: entry.breakupVelocity_mps ?? velocity_kms * 1000,
+        breakupMass_kg: entry.breakupMass_kg ?? massFromDiameter(diameter_m, density_kgm3),
+        strength_pa: entry.strength_pa,
+        density_kgm3,
+        angle_deg,
+        burstAltitude_m: entry.burstAltitude_m ?? 0
+      })
+    : null;
+
+  // Ejecta blanket beyond the rim
+  const ejectaZones = computeEjectaZones(crater.transient_diameter_m, crater.final_diameter_m);
+
+  // Blast rings from overpressure yield scaling: airbursts release the deposited
+  // energy at the burst altitude, ground impacts the full kinetic energy at the surface.
+  // Blast and thermal footprints are stretched downrange for oblique entries.
+  const blastRings = (entry.isAirburst
+    ? models.blast.rings(entry.burstEnergy_j, entry.burstAltitude_m ?? 0)
+    : models.blast.rings(impactEnergy, 0))
+    .map(ring => ({ ...ring, footprint: ellipticalFootprint(ring.radius_m, angle_deg) }));
+  const blastRadiusKm = Math.max(...blastRings.map(r => r.radius_km));
+
+  // Thermal fluence zones from the fireball, centred on the burst point for airbursts
+  const thermal = entry.isAirburst
+    ? models.thermal.zones({ energy_j: entry.burstEnergy_j, burstAltitude_m: entry.burstAltitude_m ?? 0 })
+    : models.thermal.zones({ energy_j: impactEnergy, velocity_mps: entry.surfaceVelocity_mps });
+  const thermalRadiusKm = Math.max(...thermal.zones.map(z => z.radius_km));
 
   const blastRadius = blastRadiusKm * 1000;
   const thermalRadius = thermalRadiusKm * 1000;
 
-  // Seismic magnitude from total energy
-  const seismicMagnitude = Math.min(seismicMagnitudeEstimate(impactEnergy), 12);
+  // Seismic magnitude from the energy that reaches the ground
+  const seismicMagnitude = models.seismic.magnitude(entry.surfaceEnergy_j);
+
+  // Global dust and soot from the crater and the fires it sets
+  const ignitionZone = thermal.zones.find(z => z.key === 'clothing_ignition');
+  const climate = computeClimateEffects({
+    energy_mt: joulestoMegatons(impactEnergy),
+    transient_diameter_m: crater.transient_diameter_m,
+    target_density_kgm3: targetMaterial.density_kgm3,
+    target_material: targetMaterial.id,
+    target_surface: target.surface,
+    ignition_radius_m: ignitionZone?.radius_m ?? 0
+  });
 
-  // High-energy warning
-  const energyMT = joulestoMegatons(impactEnergy);
-  if (energyMT > 1e6) {
-    console.warn('[impact] Total energy exceeds 1e6 Mt TNT; this is a global/extreme event');
+  if (joulestoMegatons(impactEnergy) > EXTREME_ENERGY_MT) {
+    flags.push({ code: 'extreme_energy', message: 'Total energy exceeds 1e6 Mt TNT; this is a global/extreme event' });
   }
 
-  return {
+  const result: SimulationResult = {
     impact_energy_j: impactEnergy,
     impact_energy_mt: joulestoMegatons(impactEnergy),
     crater_m: craterDiameter,
     crater_km: craterKm,
+    crater_details: transient > 0 ? crater : undefined,
     blast_radius_m: blastRadius,
     blast_radius_km: blastRadiusKm,
     thermal_radius_m: thermalRadius,
     thermal_radius_km: thermalRadiusKm,
     seismic_magnitude: seismicMagnitude,
+    climate,
+    hazard: assessHazard({
+      energy_mt: joulestoMegatons(impactEnergy),
+      diameter_m,
+      impact_probability: params.impact_probability,
+      impact_date: params.impact_date
+    }),
+    ejecta_zones: ejectaZones,
+    mmi_rings: models.seismic.rings(seismicMagnitude),
+    blast_rings: blastRings,
+    thermal_zones: thermal.zones.map(zone => ({ ...zone, footprint: ellipticalFootprint(zone.radius_m, angle_deg) })),
+    fireball_radius_m: thermal.fireballRadius_m,
+    thermal_energy_j: thermal.thermalEnergy_j,
+    thermal_duration_s: thermalPulseDurationSeconds(thermal.thermalEnergy_j, thermal.fireballRadius_m),
+    is_airburst: entry.isAirburst,
+    breakup_altitude_m: entry.breakupAltitude_m,
+    strewn_field: strewnField,
+    burst_altitude_m: entry.burstAltitude_m,
+    burst_energy_mt: joulestoMegatons(entry.burstEnergy_j),
+    surface_velocity_kms: entry.surfaceVelocity_mps / 1000,
+    surface_energy_j: entry.surfaceEnergy_j,
+    surface_energy_mt: joulestoMegatons(entry.surfaceEnergy_j),
+    target_surface: target.surface,
+    target_material: targetMaterial.id,
+    composition: params.composition,
+    water_depth_m: target.depth_m,
+    water_cavity_diameter_m: ocean?.cavityDiameter_m ?? 0,
+    water_cavity_depth_m: ocean?.cavityDepth_m ?? 0,
+    seafloor_crater_m: isWater ? (craterDiameter > 0 ? craterDiameter : null) : undefined,
+    tsunami_amplitude_m: ocean?.tsunamiAmplitude_m ?? 0,
+    tsunami_source_radius_m: ocean?.tsunamiSourceRadius_m ?? 0,
+    flags,
     latitude: lat,
-    longitude: lng
+    longitude: lng,
+    angle_deg,
+    azimuth_deg: normalizeAzimuth(params.azimuth_deg ?? DEFAULT_AZIMUTH_DEG),
+    model_versions: modelVersions(models)
   };
+  // Arrival of each effect at its zone edges, from the finished zones
+  result.timeline = computeEventTimeline(result);
+  return result;
 }
 
 // Damage zones for visualization
@@ -161,33 +267,72 @@ export function generateDamageZones(
   } = visualEffects || {};
 
   // Adjust radii based on visual effects
-  const adjustedBlastRadius = result.blast_radius_m * shockwaveScale;
-  const adjustedThermalRadius = result.thermal_radius_m * shockwaveScale;
+  const thermalZones = result.thermal_zones && result.thermal_zones.length > 0
+    ? result.thermal_zones
+    : [{ label: undefined, fluence_jm2: undefined, radius_m: result.thermal_radius_m }];
+  const rings = result.blast_rings && result.blast_rings.length > 0
+    ? result.blast_rings
+    : [{ overpressure_psi: undefined, peak_wind_mps: undefined, radius_m: result.blast_radius_m }];
+  const ringColor = (psi?: number) => (psi === undefined || psi <= 1 ? '#e2b250' : psi <= 5 ? '#e2854a' : '#c2410c');
 
-  return [
-    {
+  const zones: DamageZone[] = [];
+  if (!result.is_airburst) {
+    zones.push({
       type: 'crater',
       radius_m: result.crater_m / 2,
       radius_km: result.crater_km / 2,
       color: fireballColor,
       opacity: 0.25,
       description: `Crater: ${result.crater_km.toFixed(1)} km diameter`
-    },
-    {
-      type: 'blast',
-      radius_m: adjustedBlastRadius,
-      radius_km: adjustedBlastRadius / 1000,
-      color: '#e2b250',
-      opacity: 0.05,
-      description: `Blast radius: ${(adjustedBlastRadius / 1000).toFixed(1)} km`
-    },
-    {
-      type: 'thermal',
-      radius_m: adjustedThermalRadius,
-      radius_km: adjustedThermalRadius / 1000,
-      color: '#2fd6e2',
-      opacity: thermalZoneOpacity,
-      description: `Thermal radius: ${(adjustedThermalRadius / 1000).toFixed(1)} km`
-    }
+    });
+  }
+  const ejectaColor = (thickness: number) => (thickness >= 1 ? '#7c4a1e' : thickness >= 0.1 ? '#a0643a' : '#c4996b');
+  (result.ejecta_zones || [])
+    .filter(zone => zone.radius_m > 0)
+    .forEach(zone => zones.push({
+      type: 'ejecta',
+      radius_m: zone.radius_m,
+      radius_km: zone.radius_km,
+      color: ejectaColor(zone.thickness_m),
+      opacity: 0.15,
+      description: `${zone.label}: ${zone.radius_km.toFixed(1)} km`,
+      thickness_m: zone.thickness_m
+    }));
+
+  return [
+    ...zones,
+    ...rings
+      .filter(ring => ring.radius_m > 0)
+      .map((ring): DamageZone => {
+        const radius = ring.radius_m * shockwaveScale;
+        return {
+          type: 'blast',
+          radius_m: radius,
+          radius_km: radius / 1000,
+          color: ringColor(ring.overpressure_psi),
+          opacity: 0.05,
+          description: ring.overpressure_psi !== undefined
+            ? `Blast ${ring.overpressure_psi} psi: ${(radius / 1000).toFixed(1)} km`
+            : `Blast radius: ${(radius / 1000).toFixed(1)} km`,
+          overpressure_psi: ring.overpressure_psi,
+          peak_wind_mps: ring.peak_wind_mps
+        };
+      }),
+    ...thermalZones
+      .filter(zone => zone.radius_m > 0)
+      .map((zone): DamageZone => {
+        const radius = zone.radius_m * shockwaveScale;
+        return {
+          type: 'thermal',
+          radius_m: radius,
+          radius_km: radius / 1000,
+          color: '#2fd6e2',
+          opacity: thermalZoneOpacity,
+          description: zone.label !== undefined
+            ? `${zone.label}: ${(radius / 1000).toFixed(1)} km`
+            : `Thermal radius: ${(radius / 1000).toFixed(1)} km`,
+          fluence_jm2: zone.fluence_jm2
+        };
+      })
   ];
 }
\ No newline at end of file
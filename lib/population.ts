@@ -1,124 +1,207 @@
-export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number) {
-	const R = 6371
-	const dLat = ((lat2 - lat1) * Math.PI) / 180
-	const dLon = ((lon2 - lon1) * Math.PI) / 180
-	const a =
-		Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-		Math.cos((lat1 * Math.PI) / 180) *
-			Math.cos((lat2 * Math.PI) / 180) *
-			Math.sin(dLon / 2) * Math.sin(dLon / 2)
-	const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-	return R * c
+// Gridded population: people per cell from a GPW / WorldPop-style raster.
+//
+// The grid is an ESRI ASCII raster of population counts served next to the city data
+// and loaded once. Each zone sums the cells it overlaps, weighted by the share of the
+// cell inside the zone: a cell whose corners all lie inside counts in full (zones are
+// convex), and a cell on the zone edge is sampled on a sub-grid. Rural populations that
+// the city points miss are counted this way. If the grid fails to load the city points
+// are used, and every estimate records which source it came from.
+
+import type { PopulationSource, SimulationResult } from '../types'
+import { haversineDistance, initialBearingDeg } from './geography'
+import { isInsideFootprint } from './footprint'
+import { CityFeature, PopulationEstimate, ZoneFootprints, populationForResult, resultFootprints } from './impact'
+
+// Bundled 1° population count (see public/data/population/README.md); a finer GPW or
+// WorldPop export in the same format can replace it
+export const POPULATION_GRID_URL = '/data/population/population_count_1deg.asc'
+
+const KM_PER_DEGREE = (6371 * Math.PI) / 180
+// Sub-grid samples per side for a cell on a zone edge
+const EDGE_SAMPLES = 8
+
+export interface PopulationGrid {
+	name: string
+	ncols: number
+	nrows: number
+	xllcorner: number // west edge, degrees
+	yllcorner: number // south edge, degrees
+	cellsize: number // degrees
+	values: Float32Array // people per cell, rows north to south; no-data cells hold 0
 }
 
-// GeoTIFF-based population loader removed - using GeoJSON cities data instead
-
-// Grid-based population function removed - using GeoJSON cities data instead
-
-import type { Feature, FeatureCollection, Polygon, MultiPolygon, Point } from 'geojson'
-import * as turf from '@turf/turf'
-
-type AnyCityFeature = Feature<Point | Polygon | MultiPolygon, { 
-  id?: string; 
-  name?: string; 
-  NAME?: string;
-  country?: string; 
-  SOV0NAME?: string;
-  population?: number; 
-  POP_MAX?: number;
-  lat?: number; 
-  lon?: number;
-  LATITUDE?: number;
-  LONGITUDE?: number;
-}>
-
-export function calculateAffectedPopulation(
-	impactLat: number,
-	impactLon: number,
-	radiusKm: number,
-	cities: FeatureCollection
-): { totalAffected: number; affectedCities: Array<{ name: string; country: string; population: number; distance: number }> } {
-	let total = 0
-	const pointZone = [impactLon, impactLat]
-	const EARTH_R = 6371
-	const affectedCities: Array<{ name: string; country: string; population: number; distance: number }> = []
-
-	console.log(`Calculating population affected: lat=${impactLat}, lon=${impactLon}, radius=${radiusKm}km`);
-	console.log(`Cities dataset has ${cities.features.length} features`);
-
-	let citiesWithPop = 0;
-	let citiesInRadius = 0;
-	
-	for (const f of (cities.features as AnyCityFeature[])) {
-		// Try multiple population field names to handle different data formats
-		const pop = Number(f.properties?.population || f.properties?.POP_MAX || 0)
-		if (!Number.isFinite(pop) || pop <= 0) continue
-		citiesWithPop++;
-		const geom = f.geometry
-		if (!geom) continue
-
-		// Build simple circle inclusion using haversine for points; proportional area for polygons
-		if (geom.type === 'Point') {
-			const [lon, lat] = geom.coordinates as [number, number]
-			// Also try to get coordinates from properties if geometry coordinates are not available
-			const cityLat = lat || f.properties?.LATITUDE || f.properties?.lat || 0
-			const cityLon = lon || f.properties?.LONGITUDE || f.properties?.lon || 0
-			const distance = haversineKm(impactLat, impactLon, cityLat, cityLon);
-			if (distance <= radiusKm) {
-				// Uniform distribution assumption within implicit city footprint
-				total += pop
-				citiesInRadius++;
-				affectedCities.push({
-					name: f.properties?.name || f.properties?.NAME || 'Unknown City',
-					country: f.properties?.country || f.properties?.SOV0NAME || 'Unknown Country',
-					population: pop,
-					distance: distance
-				});
-				console.log(`City ${f.properties?.name || f.properties?.NAME} (${pop.toLocaleString()}) is ${distance.toFixed(1)}km away - AFFECTED`);
+export interface GridPopulation {
+	craterPop: number
+	blastPop: number
+	thermalPop: number
+}
+
+// ESRI ASCII grid: a six-line header (ncols, nrows, xllcorner, yllcorner, cellsize,
+// NODATA_value) then one row of values per line, north row first
+export function parseAsciiGrid(text: string, name: string): PopulationGrid {
+	const tokens = text.trim().split(/\s+/)
+	const header: Record<string, number> = {}
+	let i = 0
+	while (i < tokens.length - 1 && /^[a-z_]+$/i.test(tokens[i])) {
+		header[tokens[i].toLowerCase()] = Number(tokens[i + 1])
+		i += 2
+	}
+	const { ncols, nrows, cellsize } = header
+	const xllcorner = header.xllcorner ?? header.xllcenter - cellsize / 2
+	const yllcorner = header.yllcorner ?? header.yllcenter - cellsize / 2
+	if (!(ncols > 0) || !(nrows > 0) || !(cellsize > 0) || !Number.isFinite(xllcorner) || !Number.isFinite(yllcorner)) {
+		throw new Error(`Population grid ${name} has an incomplete header`)
+	}
+	if (tokens.length - i !== ncols * nrows) {
+		throw new Error(`Population grid ${name} has ${tokens.length - i} values; expected ${ncols * nrows}`)
+	}
+	const nodata = header.nodata_value
+	const values = new Float32Array(ncols * nrows)
+	for (let k = 0; k < values.length; k++) {
+		const value = Number(tokens[i + k])
+		values[k] = value === nodata || !Number.isFinite(value) || value < 0 ? 0 : value
+	}
+	return { name, ncols, nrows, xllcorner, yllcorner, cellsize, values }
+}
+
+export function gridSource(grid: PopulationGrid): PopulationSource {
+	return { kind: 'grid', name: grid.name, resolution_deg: grid.cellsize }
+}
+
+let loadedGrid: PopulationGrid | null = null
+let gridRequest: Promise<PopulationGrid | null> | null = null
+
+// Fetches and parses the grid once; resolves to null when it is unavailable
+export async function preloadPopulationGrid(url: string = POPULATION_GRID_URL): Promise<PopulationGrid | null> {
+	if (!gridRequest) {
+		gridRequest = (async () => {
+			try {
+				const res = await fetch(url)
+				if (!res.ok) throw new Error(`${res.status} ${res.statusText}`)
+				const name = url.split('/').pop()?.replace(/\.asc$/, '') ?? url
+				loadedGrid = parseAsciiGrid(await res.text(), name)
+				return loadedGrid
+			} catch {
+				return null
 			}
-			continue
-		}
+		})()
+	}
+	return gridRequest
+}
+
+export function getLoadedPopulationGrid(): PopulationGrid | null {
+	return loadedGrid
+}
+
+// Replaces the loaded grid (null returns to city points)
+export function setPopulationGrid(grid: PopulationGrid | null): void {
+	loadedGrid = grid
+	gridRequest = Promise.resolve(grid)
+}
+
+type ZoneTest = (distance_km: number, bearing_deg: number) => boolean
+
+// People in a zone reaching at most reach_km from the centre, with cells cut by the
+// zone edge weighted by the share of their area inside it
+export function gridPopulationInZone(
+	grid: PopulationGrid,
+	centerLat: number,
+	centerLng: number,
+	reach_km: number,
+	inside: ZoneTest
+): number {
+	if (!(reach_km > 0)) return 0
+	const cs = grid.cellsize
+	const top = grid.yllcorner + grid.nrows * cs
+	const wraps = Math.abs(grid.ncols * cs - 360) < 1e-6
+	const dLat = reach_km / KM_PER_DEGREE
+	const dLng = Math.min(reach_km / (KM_PER_DEGREE * Math.max(Math.cos((centerLat * Math.PI) / 180), 1e-3)), 180)
+	const south = Math.max(centerLat - dLat, -90)
+	const north = Math.min(centerLat + dLat, 90)
+	const west = centerLng - dLng
+	const east = centerLng + dLng
+
+	const isInside = (lat: number, lng: number) =>
+		inside(haversineDistance(centerLat, centerLng, lat, lng), initialBearingDeg(centerLat, centerLng, lat, lng))
 
-		// For polygons, compute intersection area with Turf
-		try {
-			const zone = (turf as any).circle(pointZone, radiusKm, { units: 'kilometers', steps: 64 })
-			const inter = (turf as any).intersect(zone, f as any)
-			if (!inter) continue
-			const overlap = (turf as any).area(inter)
-			const base = (turf as any).area(f as any)
-			if (base > 0 && overlap > 0) {
-				const affected = Math.round(pop * (overlap / base))
-				total += affected
+	const rowStart = Math.max(Math.floor((top - north) / cs), 0)
+	const rowEnd = Math.min(Math.ceil((top - south) / cs) - 1, grid.nrows - 1)
+	const colStart = Math.floor((west - grid.xllcorner) / cs)
+	const colEnd = Math.min(Math.ceil((east - grid.xllcorner) / cs) - 1, colStart + grid.ncols - 1)
+
+	let total = 0
+	for (let row = rowStart; row <= rowEnd; row++) {
+		const cellN = Math.min(top - row * cs, north)
+		const cellS = Math.max(top - (row + 1) * cs, south)
+		if (cellN <= cellS) continue
+		for (let k = colStart; k <= colEnd; k++) {
+			const col = wraps ? ((k % grid.ncols) + grid.ncols) % grid.ncols : k
+			if (col < 0 || col >= grid.ncols) continue
+			const people = grid.values[row * grid.ncols + col]
+			if (people <= 0) continue
+			// Cell edges in the unwrapped longitudes of the search box
+			const cellW = Math.max(grid.xllcorner + k * cs, west)
+			const cellE = Math.min(grid.xllcorner + (k + 1) * cs, east)
+			if (cellE <= cellW) continue
+			// Nearest point of the cell to the centre
+			const nearLat = Math.min(Math.max(centerLat, cellS), cellN)
+			const nearLng = Math.min(Math.max(centerLng, cellW), cellE)
+			if (haversineDistance(centerLat, centerLng, nearLat, nearLng) > reach_km) continue
+
+			const clipped = ((cellN - cellS) * (cellE - cellW)) / (cs * cs)
+			if (isInside(cellN, cellW) && isInside(cellN, cellE) && isInside(cellS, cellW) && isInside(cellS, cellE)) {
+				total += people * clipped
+				continue
 			}
-		} catch {
-			// Fallback: centroid distance
-			const centroid = centroidOf(geom)
-			if (centroid && haversineKm(impactLat, impactLon, centroid[1], centroid[0]) <= radiusKm) {
-				total += Math.round(pop * 0.5)
+			let hits = 0
+			for (let a = 0; a < EDGE_SAMPLES; a++) {
+				const lat = cellS + ((a + 0.5) / EDGE_SAMPLES) * (cellN - cellS)
+				for (let b = 0; b < EDGE_SAMPLES; b++) {
+					if (isInside(lat, cellW + ((b + 0.5) / EDGE_SAMPLES) * (cellE - cellW))) hits++
+				}
 			}
+			total += people * clipped * (hits / (EDGE_SAMPLES * EDGE_SAMPLES))
 		}
 	}
-	
-	console.log(`Population calculation complete: ${citiesWithPop} cities with population data, ${citiesInRadius} cities in radius, total affected: ${total.toLocaleString()}`);
-	
-	// Sort affected cities by population (descending) and return top cities
-	affectedCities.sort((a, b) => b.population - a.population);
-	
-	return { 
-		totalAffected: total, 
-		affectedCities: affectedCities.slice(0, 10) // Return top 10 for display
-	}
+	return total
 }
 
-function centroidOf(geom: Point | Polygon | MultiPolygon): [number, number] | null {
-	if (geom.type === 'Point') return geom.coordinates as [number, number]
-	const coords = geom.type === 'Polygon' ? geom.coordinates : geom.coordinates[0]
-	if (!coords || coords.length === 0) return null
-	let x = 0, y = 0, n = 0
-	for (const ring of coords as number[][][]) {
-		for (const c of ring) { x += c[0]; y += c[1]; n++ }
+// Crater, blast and thermal zone totals from the grid; footprints stretch the blast and
+// thermal zones downrange as for the city points
+export function gridPopulationByZones(
+	grid: PopulationGrid,
+	centerLat: number,
+	centerLng: number,
+	blast_km: number,
+	thermal_km: number,
+	craterRadius_km: number,
+	footprints?: ZoneFootprints
+): GridPopulation {
+	const zone = (radius_km: number, footprint?: ZoneFootprints['blast']) => {
+		if (footprints && footprint) {
+			const reach = (footprint.semi_major_m + Math.abs(footprint.downrange_offset_m)) / 1000
+			return gridPopulationInZone(grid, centerLat, centerLng, reach, (distance, bearing) =>
+				isInsideFootprint(footprint, distance, bearing, footprints.azimuth_deg))
+		}
+		return gridPopulationInZone(grid, centerLat, centerLng, radius_km, distance => distance <= radius_km)
+	}
+	return {
+		craterPop: Math.round(zone(craterRadius_km)),
+		blastPop: Math.round(zone(blast_km, footprints?.blast)),
+		thermalPop: Math.round(zone(thermal_km, footprints?.thermal))
 	}
-	return n ? [x / n, y / n] : null
 }
 
-
+// Population step on the grid; the city list still names the places inside each zone
+export function gridPopulationForResult(grid: PopulationGrid, cities: CityFeature[], res: SimulationResult): PopulationEstimate {
+	const counts = gridPopulationByZones(
+		grid,
+		res.latitude,
+		res.longitude,
+		res.blast_radius_km,
+		res.thermal_radius_km,
+		res.crater_km / 2,
+		resultFootprints(res)
+	)
+	return { ...populationForResult(cities, res), ...counts, source: gridSource(grid) }
+}
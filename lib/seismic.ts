@@ -0,0 +1,95 @@
+// Ground shaking away from the impact site (Collins et al. 2005, eqs. 58–59).
+//
+// The impact magnitude is attenuated with distance into an "effective magnitude" felt
+// at the site, which maps onto Modified Mercalli intensity through Collins' Table 3.
+// Seismic waves travel at a constant 5 km/s.
+
+import type { MmiRing } from '../types';
+
+const EARTH_RADIUS_KM = 6371;
+export const SEISMIC_WAVE_SPEED_KMS = 5;
+const MAX_RANGE_KM = Math.PI * EARTH_RADIUS_KM; // antipode
+
+// Effective magnitude → MMI, interpolated through the ranges of Collins' Table 3
+const MMI_TABLE: Array<[number, number]> = [
+  [1, 1], [2, 2], [3, 3], [4, 4.5], [5, 6], [6, 7.5], [7, 9], [8, 10.5], [9, 12]
+];
+
+const ROMAN = ['', 'I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII'];
+
+// Rings drawn on the globe, strongest first
+export const MMI_RING_LEVELS: Array<{ mmi: number; label: string }> = [
+  { mmi: 9, label: 'Violent: heavy damage to substantial buildings' },
+  { mmi: 7, label: 'Very strong: damage to poorly built structures' },
+  { mmi: 5, label: 'Moderate: felt by nearly everyone' }
+];
+
+export function toRomanMmi(mmi: number): string {
+  return ROMAN[Math.min(Math.max(Math.floor(mmi), 1), 12)];
+}
+
+// Richter magnitude of the impact from the energy reaching the ground (Collins eq. 40)
+export function magnitudeFromEnergy(energy_j: number): number {
+  const magnitude = 0.67 * Math.log10(Math.max(energy_j, 1)) - 5.87;
+  return Math.min(Math.max(magnitude, 0), 12);
+}
+
+export function effectiveMagnitudeAt(magnitude: number, distance_km: number): number {
+  const r = Math.max(distance_km, 0);
+  if (r < 60) return magnitude - 0.0238 * r;
+  if (r < 700) return magnitude - 0.0048 * r - 1.1644;
+  const delta = r / EARTH_RADIUS_KM; // epicentral distance in radians
+  return magnitude - 1.66 * Math.log10(delta) - 6.399;
+}
+
+// Continuous intensity for an effective magnitude (1 = not felt, 12 = total destruction)
+function intensityFromMagnitude(effectiveMagnitude: number): number {
+  if (effectiveMagnitude <= MMI_TABLE[0][0]) return 1;
+  for (let i = 1; i < MMI_TABLE.length; i++) {
+    const [m1, i1] = MMI_TABLE[i];
+    if (effectiveMagnitude <= m1) {
+      const [m0, i0] = MMI_TABLE[i - 1];
+      return i0 + ((effectiveMagnitude - m0) / (m1 - m0)) * (i1 - i0);
+    }
+  }
+  return 12;
+}
+
+// Modified Mercalli intensity (integer I–XII) at a distance from the impact
+export function mmiAt(magnitude: number, distance_km: number): number {
+  if (magnitude <= 0) return 1;
+  return Math.min(Math.floor(intensityFromMagnitude(effectiveMagnitudeAt(magnitude, distance_km))), 12);
+}
+
+export function seismicArrivalSeconds(distance_km: number): number {
+  return Math.max(distance_km, 0) / SEISMIC_WAVE_SPEED_KMS;
+}
+
+// Distance out to which the intensity is at least the given level (0 if never reached)
+export function radiusForMmi(magnitude: number, mmi: number): number {
+  if (mmiAt(magnitude, 0) < mmi) return 0;
+  if (mmiAt(magnitude, MAX_RANGE_KM) >= mmi) return MAX_RANGE_KM;
+
+  let lo = 0;
+  let hi = MAX_RANGE_KM;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (mmiAt(magnitude, mid) >= mmi) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+export function computeMmiRings(magnitude: number): MmiRing[] {
+  return MMI_RING_LEVELS.map(({ mmi, label }) => {
+    const radius_km = radiusForMmi(magnitude, mmi);
+    return {
+      mmi,
+      roman: toRomanMmi(mmi),
+      radius_m: radius_km * 1000,
+      radius_km,
+      arrival_s: seismicArrivalSeconds(radius_km),
+      label
+    };
+  });
+}
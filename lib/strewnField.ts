@@ -0,0 +1,185 @@
+// Meteorite strewn fields from a fragment cascade.
+//
+// At breakup the body shatters into a power-law swarm of fragments. Each size class
+// is then flown on its own: drag, gravity and ablation while it is still luminous,
+// and a further split in half whenever ram pressure exceeds its strength. Smaller
+// pieces carry fewer flaws, so strength grows as σ ∝ m^-α (weakest-link scaling) and
+// the cascade stops by itself. Every split pushes the pieces apart at the Passey &
+// Melosh (1980) separation speed. Below ~3 km/s ablation stops and fragments fall in
+// dark flight to the ground; large pieces carry furthest downrange.
+//
+// Positions are along-track (x, downrange positive) and cross-track from the ground
+// point below the burst, so the caller can orient them with the entry direction.
+
+import type { StrewnField, StrewnFieldBin } from '../types';
+import { airDensityAt } from './atmosphere';
+
+const G = 9.81; // m/s^2
+const FRAGMENT_DRAG_COEFFICIENT = 1.0; // blunt fragment in supersonic flow
+const FRAGMENT_HEAT_TRANSFER = 0.1;
+const HEAT_OF_ABLATION = 8e6; // J/kg
+const DARK_FLIGHT_SPEED_MPS = 3000; // ablation stops below this speed
+const STRENGTH_SCALING_EXPONENT = 0.25; // α in σ ∝ m^-α
+const SIZE_DISTRIBUTION_EXPONENT = 0.8; // b in N(>m) ∝ m^-b
+const LARGEST_FRAGMENT_FRACTION = 0.5; // of the mass at breakup
+const MIN_FRAGMENT_MASS_KG = 0.001; // smaller pieces are treated as dust
+const FRAGMENT_CLASSES = 32;
+const SEPARATION_COEFFICIENT = 0.5; // C in the Passey & Melosh separation speed
+const MAX_LUMINOUS_STEP_S = 0.01;
+const MAX_DARK_STEP_S = 0.25;
+const MIN_HALF_WIDTH_M = 200;
+
+// Landed-mass bins, heaviest first
+export const STREWN_FIELD_MASS_BINS: Array<{ min_kg: number; max_kg: number | null; label: string }> = [
+  { min_kg: 100, max_kg: null, label: 'Over 100 kg' },
+  { min_kg: 10, max_kg: 100, label: '10–100 kg' },
+  { min_kg: 1, max_kg: 10, label: '1–10 kg' },
+  { min_kg: 0.1, max_kg: 1, label: '100 g–1 kg' },
+  { min_kg: 0.01, max_kg: 0.1, label: '10–100 g' }
+];
+
+export interface StrewnFieldInput {
+  breakupAltitude_m: number;
+  breakupVelocity_mps: number;
+  breakupMass_kg: number;
+  strength_pa: number; // strength of the parent body at breakup
+  density_kgm3: number;
+  angle_deg: number;
+  burstAltitude_m?: number; // altitude above the reference ground point
+}
+
+export interface LandedFragment {
+  mass_kg: number; // mass of each piece on landing
+  count: number;
+  downrange_m: number;
+  spread_m: number; // half-width of the landing footprint of this class
+}
+
+interface Fragment {
+  mass: number;
+  count: number;
+  x: number;
+  y: number; // lateral spread of the pieces from the class centre
+  z: number;
+  vx: number;
+  vy: number; // lateral spreading speed
+  vz: number;
+}
+
+// Passey & Melosh (1980): V_T = v sqrt(3/2 · C · (R_parent / R_fragment) · ρ_air / ρ_m)
+export function separationSpeedMps(velocity_mps: number, altitude_m: number, density_kgm3: number, massRatio: number): number {
+  return velocity_mps * Math.sqrt(1.5 * SEPARATION_COEFFICIENT * Math.cbrt(massRatio) * airDensityAt(altitude_m) / density_kgm3);
+}
+
+export function fragmentStrengthPa(mass_kg: number, parentMass_kg: number, parentStrength_pa: number): number {
+  return parentStrength_pa * Math.pow(parentMass_kg / mass_kg, STRENGTH_SCALING_EXPONENT);
+}
+
+// Fly one fragment class to the ground; null if it ablates away
+function flyFragment(start: Fragment, input: StrewnFieldInput): LandedFragment | null {
+  const f = { ...start };
+  const { density_kgm3, breakupMass_kg, strength_pa } = input;
+
+  while (f.z > 0) {
+    const speed = Math.sqrt(f.vx * f.vx + f.vy * f.vy + f.vz * f.vz);
+    const rhoA = airDensityAt(f.z);
+    const luminous = speed > DARK_FLIGHT_SPEED_MPS;
+
+    // Cascade: split in half while ram pressure beats the fragment strength
+    if (luminous && rhoA * speed * speed > fragmentStrengthPa(f.mass, breakupMass_kg, strength_pa)
+        && f.mass / 2 >= MIN_FRAGMENT_MASS_KG) {
+      f.mass /= 2;
+      f.count *= 2;
+      f.vy = Math.hypot(f.vy, separationSpeedMps(speed, f.z, density_kgm3, 2));
+    }
+
+    const diameter = Math.cbrt((6 * f.mass) / (Math.PI * density_kgm3));
+    const area = (Math.PI / 4) * diameter * diameter;
+    const drag = (FRAGMENT_DRAG_COEFFICIENT * rhoA * area * speed) / (2 * f.mass); // per unit velocity
+    const dt = Math.min(luminous ? MAX_LUMINOUS_STEP_S : MAX_DARK_STEP_S, 0.3 / Math.max(drag, 1e-9));
+
+    if (luminous) {
+      f.mass -= ((FRAGMENT_HEAT_TRANSFER * rhoA * area * speed * speed * speed) / (2 * HEAT_OF_ABLATION)) * dt;
+      if (f.mass < MIN_FRAGMENT_MASS_KG) return null;
+    }
+
+    f.vx -= drag * f.vx * dt;
+    f.vy -= drag * f.vy * dt;
+    f.vz += (-drag * f.vz - G) * dt;
+    f.x += f.vx * dt;
+    f.y += f.vy * dt;
+    f.z += f.vz * dt;
+  }
+
+  return { mass_kg: f.mass, count: f.count, downrange_m: f.x, spread_m: f.y };
+}
+
+// Power-law swarm at breakup, flown class by class to the ground
+export function landFragments(input: StrewnFieldInput): LandedFragment[] {
+  const { breakupAltitude_m, breakupVelocity_mps, breakupMass_kg, density_kgm3, angle_deg } = input;
+  const theta = (Math.max(Math.abs(angle_deg), 1) * Math.PI) / 180;
+  // Breakup happens uprange of the burst point, on the straight entry path
+  const x0 = -(breakupAltitude_m - (input.burstAltitude_m ?? 0)) / Math.tan(theta);
+
+  const maxMass = LARGEST_FRAGMENT_FRACTION * breakupMass_kg;
+  if (maxMass <= MIN_FRAGMENT_MASS_KG) return [];
+  const edges = Array.from({ length: FRAGMENT_CLASSES + 1 }, (_, i) =>
+    MIN_FRAGMENT_MASS_KG * Math.pow(maxMass / MIN_FRAGMENT_MASS_KG, i / FRAGMENT_CLASSES));
+  const massWeight = (lo: number, hi: number) =>
+    Math.pow(hi, 1 - SIZE_DISTRIBUTION_EXPONENT) - Math.pow(lo, 1 - SIZE_DISTRIBUTION_EXPONENT);
+  const totalWeight = massWeight(edges[0], edges[FRAGMENT_CLASSES]);
+
+  const landed: LandedFragment[] = [];
+  for (let i = 0; i < FRAGMENT_CLASSES; i++) {
+    const mass = Math.sqrt(edges[i] * edges[i + 1]);
+    const classMass = (breakupMass_kg * massWeight(edges[i], edges[i + 1])) / totalWeight;
+    const result = flyFragment({
+      mass,
+      count: classMass / mass,
+      x: x0,
+      y: 0,
+      z: breakupAltitude_m,
+      vx: breakupVelocity_mps * Math.cos(theta),
+      vy: separationSpeedMps(breakupVelocity_mps, breakupAltitude_m, density_kgm3, breakupMass_kg / mass),
+      vz: -breakupVelocity_mps * Math.sin(theta)
+    }, input);
+    if (result) landed.push(result);
+  }
+  return landed;
+}
+
+export function computeStrewnField(input: StrewnFieldInput): StrewnField | null {
+  const landed = landFragments(input);
+
+  const bins: StrewnFieldBin[] = [];
+  for (const bin of STREWN_FIELD_MASS_BINS) {
+    const members = landed.filter(f => f.mass_kg >= bin.min_kg && (bin.max_kg === null || f.mass_kg < bin.max_kg));
+    if (members.length === 0) continue;
+    const xMin = Math.min(...members.map(f => f.downrange_m));
+    const xMax = Math.max(...members.map(f => f.downrange_m));
+    const halfWidth = Math.max(...members.map(f => f.spread_m), MIN_HALF_WIDTH_M);
+    bins.push({
+      label: bin.label,
+      min_mass_kg: bin.min_kg,
+      max_mass_kg: bin.max_kg,
+      count: members.reduce((sum, f) => sum + f.count, 0),
+      total_mass_kg: members.reduce((sum, f) => sum + f.count * f.mass_kg, 0),
+      downrange_km: (xMin + xMax) / 2000,
+      semi_major_km: ((xMax - xMin) / 2 + halfWidth) / 1000,
+      semi_minor_km: halfWidth / 1000
+    });
+  }
+  if (bins.length === 0) return null;
+
+  // Overall ellipse enclosing every bin
+  const start = Math.min(...bins.map(b => b.downrange_km - b.semi_major_km));
+  const end = Math.max(...bins.map(b => b.downrange_km + b.semi_major_km));
+  return {
+    bins,
+    total_mass_kg: bins.reduce((sum, b) => sum + b.total_mass_kg, 0),
+    fragment_count: bins.reduce((sum, b) => sum + b.count, 0),
+    downrange_km: (start + end) / 2,
+    semi_major_km: (end - start) / 2,
+    semi_minor_km: Math.max(...bins.map(b => b.semi_minor_km))
+  };
+}
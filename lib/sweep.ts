@@ -0,0 +1,160 @@
+// Parameter sweeps and sensitivity.
+//
+// One or two of the uncertain inputs are stepped over a range, the rest held at the
+// current values, and each grid point goes through simulateImpactor (and the
+// population step, when the caller supplies one). The tornado ranking moves each input
+// alone to both ends of a swing around its nominal value and orders the inputs by how
+// far the output moves. Only the physics runs; nothing is drawn on the globe.
+
+import type { ImpactParameters, ModelSelection, SimulationResult, UncertainParameter } from '../types';
+import { simulateImpactor } from './physics';
+import { PARAMETER_BOUNDS } from './monteCarlo';
+
+export type SweepOutput = 'impact_energy_mt' | 'crater_km' | 'blast_radius_km' | 'thermal_radius_km' | 'population_affected';
+
+export const SWEEP_OUTPUTS: Record<SweepOutput, { label: string; unit: string }> = {
+  impact_energy_mt: { label: 'Impact energy', unit: 'Mt' },
+  crater_km: { label: 'Crater diameter', unit: 'km' },
+  blast_radius_km: { label: 'Blast radius', unit: 'km' },
+  thermal_radius_km: { label: 'Thermal radius', unit: 'km' },
+  population_affected: { label: 'Population affected', unit: 'people' }
+};
+
+export const DEFAULT_SWEEP_STEPS = 20;
+export const DEFAULT_TORNADO_SWING = 0.2;
+const MAX_SWEEP_STEPS = 100;
+
+export interface SweepRange {
+  parameter: UncertainParameter;
+  min: number;
+  max: number;
+  steps?: number;
+  log?: boolean; // geometric spacing, for inputs spanning decades such as diameter
+}
+
+export interface SweepOptions {
+  populationOf?: (result: SimulationResult) => number;
+  models?: ModelSelection;
+}
+
+export interface Sweep1D {
+  range: SweepRange;
+  values: number[];
+  outputs: Partial<Record<SweepOutput, number[]>>;
+}
+
+export interface Sweep2D {
+  x: SweepRange;
+  y: SweepRange;
+  xValues: number[];
+  yValues: number[];
+  outputs: Partial<Record<SweepOutput, number[][]>>; // [y index][x index]
+}
+
+export interface SensitivityBar {
+  parameter: UncertainParameter;
+  low_input: number;
+  high_input: number;
+  low: number; // output with the input at low_input
+  high: number;
+  swing: number; // |high − low|
+}
+
+export interface TornadoSensitivity {
+  output: SweepOutput;
+  nominal: number;
+  bars: SensitivityBar[]; // widest swing first
+}
+
+// Grid of values across a range, clamped to the valid bounds of the parameter
+export function sweepValues(range: SweepRange): number[] {
+  const [lower, upper] = PARAMETER_BOUNDS[range.parameter];
+  const min = Math.min(Math.max(Math.min(range.min, range.max), lower), upper);
+  const max = Math.min(Math.max(Math.max(range.min, range.max), lower), upper);
+  const steps = Math.min(Math.max(Math.round(range.steps ?? DEFAULT_SWEEP_STEPS), 2), MAX_SWEEP_STEPS);
+  return Array.from({ length: steps }, (_, i) => {
+    const t = i / (steps - 1);
+    return range.log ? min * Math.pow(max / min, t) : min + (max - min) * t;
+  });
+}
+
+function outputsOf(res: SimulationResult, options: SweepOptions): Partial<Record<SweepOutput, number>> {
+  return {
+    impact_energy_mt: res.impact_energy_mt,
+    crater_km: res.crater_km,
+    blast_radius_km: res.blast_radius_km,
+    thermal_radius_km: res.thermal_radius_km,
+    population_affected: options.populationOf ? options.populationOf(res) : undefined
+  };
+}
+
+function simulateOutputs(params: ImpactParameters, options: SweepOptions) {
+  return outputsOf(simulateImpactor(params, { strewnField: false, models: options.models }), options);
+}
+
+function outputKeys(options: SweepOptions): SweepOutput[] {
+  return (Object.keys(SWEEP_OUTPUTS) as SweepOutput[]).filter(key => key !== 'population_affected' || options.populationOf);
+}
+
+export function runSweep1D(base: ImpactParameters, range: SweepRange, options: SweepOptions = {}): Sweep1D {
+  const values = sweepValues(range);
+  const keys = outputKeys(options);
+  const outputs: Partial<Record<SweepOutput, number[]>> = {};
+  keys.forEach(key => { outputs[key] = []; });
+
+  values.forEach(value => {
+    const point = simulateOutputs({ ...base, [range.parameter]: value }, options);
+    keys.forEach(key => outputs[key]!.push(point[key] ?? 0));
+  });
+  return { range, values, outputs };
+}
+
+export function runSweep2D(base: ImpactParameters, x: SweepRange, y: SweepRange, options: SweepOptions = {}): Sweep2D {
+  if (x.parameter === y.parameter) {
+    throw new Error('A 2D sweep needs two different parameters');
+  }
+  const xValues = sweepValues(x);
+  const yValues = sweepValues(y);
+  const keys = outputKeys(options);
+  const outputs: Partial<Record<SweepOutput, number[][]>> = {};
+  keys.forEach(key => { outputs[key] = []; });
+
+  yValues.forEach(yValue => {
+    const rows: Partial<Record<SweepOutput, number[]>> = {};
+    keys.forEach(key => { rows[key] = []; });
+    xValues.forEach(xValue => {
+      const point = simulateOutputs({ ...base, [x.parameter]: xValue, [y.parameter]: yValue }, options);
+      keys.forEach(key => rows[key]!.push(point[key] ?? 0));
+    });
+    keys.forEach(key => outputs[key]!.push(rows[key]!));
+  });
+  return { x, y, xValues, yValues, outputs };
+}
+
+// One-at-a-time swings of ±swing (a fraction of each nominal value) for every input
+export function tornadoSensitivity(
+  base: ImpactParameters,
+  output: SweepOutput,
+  swing = DEFAULT_TORNADO_SWING,
+  options: SweepOptions = {}
+): TornadoSensitivity {
+  if (output === 'population_affected' && !options.populationOf) {
+    throw new Error('City data is needed to rank sensitivity of population affected');
+  }
+  const valueAt = (params: ImpactParameters) => simulateOutputs(params, options)[output] ?? 0;
+
+  const bars = (Object.keys(PARAMETER_BOUNDS) as UncertainParameter[]).map(parameter => {
+    const [lower, upper] = PARAMETER_BOUNDS[parameter];
+    const low_input = Math.max(base[parameter] * (1 - swing), lower);
+    const high_input = Math.min(base[parameter] * (1 + swing), upper);
+    const low = valueAt({ ...base, [parameter]: low_input });
+    const high = valueAt({ ...base, [parameter]: high_input });
+    return { parameter, low_input, high_input, low, high, swing: Math.abs(high - low) };
+  });
+
+  return {
+    output,
+    nominal: valueAt(base),
+    bars: bars.sort((a, b) => b.swing - a.swing)
+  };
+}
@@ -0,0 +1,121 @@
+// Thermal radiation from the impact fireball (Collins et al. 2005, eqs. 32–39).
+//
+// A fraction η of the impact energy is radiated by a fireball of radius
+// R_f = 0.002 E^(1/3). Fluence falls off as 1/r² and is reduced by the part of the
+// fireball hidden below the horizon at distance r. Ignition and burn thresholds are
+// quoted for a 1 Mt event and scale as E_Mt^(1/6), since larger fireballs deliver
+// their energy over a longer pulse.
+//
+// Airbursts radiate a much larger share of their energy than a ground impact's
+// vapour plume, as the body's kinetic energy is deposited straight into hot air
+// (Hills & Goda 1993). Their fluence is taken at the slant range from the burst point.
+
+import type { ThermalZone } from '../types';
+import { MT_JOULES } from './physics';
+
+const EARTH_RADIUS_M = 6371 * 1000;
+const STEFAN_BOLTZMANN = 5.67e-8; // W m^-2 K^-4
+const FIREBALL_TEMPERATURE_K = 3000;
+export const LUMINOUS_EFFICIENCY = 3e-3; // fraction of impact energy radiated as heat
+// Fraction of an airburst's energy radiated as light; satellite light curves give ~20%
+// for large bolides (Chelyabinsk radiated ~90 kt of its ~500 kt, Brown et al. 2013)
+export const AIRBURST_LUMINOUS_EFFICIENCY = 0.2;
+const MIN_FIREBALL_VELOCITY_MPS = 15000; // slower ground impacts vaporise too little to form a fireball
+
+// Fluence thresholds at 1 Mt, strongest first (Glasstone & Dolan 1977, Table 7.41)
+export const THERMAL_THRESHOLDS: Array<{ key: ThermalZone['key']; fluence_mjm2: number; label: string }> = [
+  { key: 'clothing_ignition', fluence_mjm2: 1.0, label: 'Clothing ignites' },
+  { key: 'third_degree_burns', fluence_mjm2: 0.42, label: 'Third-degree burns' },
+  { key: 'second_degree_burns', fluence_mjm2: 0.25, label: 'Second-degree burns' }
+];
+
+export interface ThermalInput {
+  energy_j: number; // energy released by the fireball
+  burstAltitude_m?: number; // fireball centre; 0 for ground impacts
+  velocity_mps?: number; // impact velocity at the surface (ground impacts only)
+}
+
+export interface ThermalResult {
+  fireballRadius_m: number;
+  thermalEnergy_j: number;
+  zones: ThermalZone[];
+}
+
+// Thermal pulse length: the radiated energy leaving a fireball at T* = 3000 K (Collins eq. 37)
+export function thermalPulseDurationSeconds(thermalEnergy_j: number, fireballRadius_m: number): number {
+  if (thermalEnergy_j <= 0 || fireballRadius_m <= 0) return 0;
+  return thermalEnergy_j / (2 * Math.PI * fireballRadius_m * fireballRadius_m * STEFAN_BOLTZMANN * Math.pow(FIREBALL_TEMPERATURE_K, 4));
+}
+
+export function fireballRadiusMeters(energy_j: number): number {
+  return 0.002 * Math.cbrt(Math.max(energy_j, 0));
+}
+
+// Fraction of the fireball visible above the horizon at ground distance r
+export function visibleFireballFraction(distance_m: number, fireballRadius_m: number, burstAltitude_m = 0): number {
+  if (fireballRadius_m <= 0) return 0;
+  const delta = distance_m / EARTH_RADIUS_M;
+  const hidden = (1 - Math.cos(delta)) * EARTH_RADIUS_M - burstAltitude_m;
+  if (hidden <= 0) return 1;
+  if (hidden >= fireballRadius_m) return 0;
+  const angle = Math.acos(hidden / fireballRadius_m);
+  return (2 / Math.PI) * (angle - (hidden / fireballRadius_m) * Math.sin(angle));
+}
+
+// Fraction of the energy radiated as heat by a burst at the given altitude
+export function luminousEfficiency(burstAltitude_m = 0): number {
+  return burstAltitude_m > 0 ? AIRBURST_LUMINOUS_EFFICIENCY : LUMINOUS_EFFICIENCY;
+}
+
+// Radiant exposure (J/m²) at ground distance r
+export function thermalFluenceAt(distance_m: number, energy_j: number, burstAltitude_m = 0): number {
+  const fireball = fireballRadiusMeters(energy_j);
+  const slant = Math.max(Math.sqrt(distance_m * distance_m + burstAltitude_m * burstAltitude_m), 1);
+  const fraction = visibleFireballFraction(distance_m, fireball, burstAltitude_m);
+  return (fraction * luminousEfficiency(burstAltitude_m) * energy_j) / (2 * Math.PI * slant * slant);
+}
+
+// Threshold fluence (J/m²) for a given event energy
+export function scaledThresholdFluence(fluence_mjm2: number, energy_j: number): number {
+  return fluence_mjm2 * 1e6 * Math.pow(Math.max(energy_j / MT_JOULES, 1e-9), 1 / 6);
+}
+
+// Ground distance at which the fluence falls to the given level (0 if never reached)
+export function thermalRadiusForFluence(fluence_jm2: number, energy_j: number, burstAltitude_m = 0): number {
+  if (thermalFluenceAt(0, energy_j, burstAltitude_m) < fluence_jm2) return 0;
+
+  // Nothing is visible beyond the distance where the whole fireball sinks below the horizon
+  const reach = Math.min((fireballRadiusMeters(energy_j) + burstAltitude_m) / EARTH_RADIUS_M, 2);
+  let lo = 0;
+  let hi = Math.acos(1 - reach) * EARTH_RADIUS_M;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (thermalFluenceAt(mid, energy_j, burstAltitude_m) >= fluence_jm2) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+export function computeThermalZones(input: ThermalInput): ThermalResult {
+  const { energy_j, burstAltitude_m = 0, velocity_mps } = input;
+  const noFireball = energy_j <= 0
+    || (burstAltitude_m <= 0 && velocity_mps !== undefined && velocity_mps < MIN_FIREBALL_VELOCITY_MPS);
+
+  const zones = THERMAL_THRESHOLDS.map(({ key, fluence_mjm2, label }) => {
+    const fluence = scaledThresholdFluence(fluence_mjm2, energy_j);
+    const radius = noFireball ? 0 : thermalRadiusForFluence(fluence, energy_j, burstAltitude_m);
+    return {
+      key,
+      fluence_jm2: fluence,
+      radius_m: radius,
+      radius_km: radius / 1000,
+      label
+    };
+  });
+
+  return {
+    fireballRadius_m: noFireball ? 0 : fireballRadiusMeters(energy_j),
+    thermalEnergy_j: noFireball ? 0 : luminousEfficiency(burstAltitude_m) * energy_j,
+    zones
+  };
+}
@@ -0,0 +1,98 @@
+// When each effect arrives (Collins et al. 2005).
+//
+// The thermal pulse arrives at the speed of light and lasts as long as the fireball
+// radiates; seismic waves travel at 5 km/s; the air blast front runs ahead of the
+// speed of sound while its overpressure is high; ejecta arrive on ballistic arcs.
+// Arrivals are given per distance for a single location and, at each zone edge, as
+// a timeline for the whole event.
+
+import type { EffectArrivals, SimulationResult, TimelineEvent, ZoneFootprint } from '../types';
+import { blastArrivalSeconds } from './blast';
+import { seismicArrivalSeconds } from './seismic';
+import { ejectaArrivalSeconds } from './ejecta';
+import { thermalPulseDurationSeconds } from './thermal';
+import { MT_JOULES } from './physics';
+
+const LIGHT_SPEED_MPS = 299792458;
+
+// Farthest ground distance (km) a zone reaches, including any downrange stretch
+function zoneReachKm(zone?: { radius_m: number; footprint?: ZoneFootprint }): number {
+  if (!zone) return 0;
+  const reach_m = zone.footprint ? zone.footprint.semi_major_m + zone.footprint.downrange_offset_m : zone.radius_m;
+  return reach_m / 1000;
+}
+
+// Energy and height of the blast source
+function blastSource(result: SimulationResult): { energy_j: number; altitude_m: number } {
+  return result.is_airburst
+    ? { energy_j: (result.burst_energy_mt ?? 0) * MT_JOULES, altitude_m: result.burst_altitude_m ?? 0 }
+    : { energy_j: result.impact_energy_j, altitude_m: 0 };
+}
+
+export function thermalDurationSeconds(result: SimulationResult): number {
+  return result.thermal_duration_s
+    ?? thermalPulseDurationSeconds(result.thermal_energy_j ?? 0, result.fireball_radius_m ?? 0);
+}
+
+// Arrival of every effect at a ground distance from ground zero
+export function arrivalTimesAt(result: SimulationResult, distance_km: number): EffectArrivals {
+  const distance_m = Math.max(distance_km, 0) * 1000;
+  const blast = blastSource(result);
+
+  const thermalReach = Math.max(result.thermal_radius_km, zoneReachKm(result.thermal_zones?.[result.thermal_zones.length - 1]));
+  const blastReach = Math.max(result.blast_radius_km, zoneReachKm(result.blast_rings?.[result.blast_rings.length - 1]));
+  const seismicReach = result.mmi_rings?.[result.mmi_rings.length - 1]?.radius_km ?? 0;
+  const ejectaReach = result.ejecta_zones?.[result.ejecta_zones.length - 1]?.radius_km ?? 0;
+  const thermalSlant_m = Math.sqrt(distance_m * distance_m + Math.pow(blast.altitude_m, 2));
+
+  const reaches = (reach_km: number) => reach_km > 0 && distance_km <= reach_km;
+  return {
+    thermal_s: reaches(thermalReach) ? thermalSlant_m / LIGHT_SPEED_MPS : null,
+    thermal_duration_s: reaches(thermalReach) ? thermalDurationSeconds(result) : null,
+    seismic_s: reaches(seismicReach) ? seismicArrivalSeconds(distance_km) : null,
+    air_blast_s: reaches(blastReach) ? blastArrivalSeconds(distance_m, blast.energy_j, blast.altitude_m) : null,
+    ejecta_s: reaches(ejectaReach) && distance_km > result.crater_km / 2 ? ejectaArrivalSeconds(distance_m) : null
+  };
+}
+
+// Each effect reaching the edge of each of its zones, earliest first
+export function computeEventTimeline(result: SimulationResult): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  const blast = blastSource(result);
+
+  if (result.thermal_radius_km > 0) {
+    events.push({
+      effect: 'thermal',
+      label: 'Thermal pulse',
+      distance_km: 0,
+      arrival_s: 0,
+      duration_s: thermalDurationSeconds(result)
+    });
+  }
+  (result.mmi_rings ?? [])
+    .filter(ring => ring.radius_km > 0)
+    .forEach(ring => events.push({
+      effect: 'seismic',
+      label: `MMI ${ring.roman} shaking`,
+      distance_km: ring.radius_km,
+      arrival_s: ring.arrival_s
+    }));
+  (result.blast_rings ?? [])
+    .filter(ring => ring.radius_m > 0)
+    .forEach(ring => events.push({
+      effect: 'air_blast',
+      label: `${ring.overpressure_psi} psi air blast`,
+      distance_km: zoneReachKm(ring),
+      arrival_s: blastArrivalSeconds(zoneReachKm(ring) * 1000, blast.energy_j, blast.altitude_m)
+    }));
+  (result.ejecta_zones ?? [])
+    .filter(zone => zone.radius_m > 0)
+    .forEach(zone => events.push({
+      effect: 'ejecta',
+      label: `Ejecta ${zone.thickness_m >= 1 ? `${zone.thickness_m} m` : `${zone.thickness_m * 100} cm`} deep`,
+      distance_km: zone.radius_km,
+      arrival_s: ejectaArrivalSeconds(zone.radius_m)
+    }));
+
+  return events.sort((a, b) => a.arrival_s - b.arrival_s);
+}
@@ -0,0 +1,266 @@
+// Tsunami propagation from an ocean impact to coastal cities.
+//
+// Travel times come from a shortest-path sweep over the bathymetry grid using the
+// shallow-water wave speed sqrt(g·h), so waves wrap around continents instead of
+// crossing them. Amplitude decays as 1/r from the rim of the water cavity
+// (Ward & Asphaug 2000; Collins et al. 2005) and is converted to run-up with the
+// Synolakis (1987) solitary-wave run-up law.
+
+import type { TsunamiCityArrival, TsunamiIsochrone } from '../types';
+import type { CityRecord } from '../utils/geocoding';
+import { GRID_ROWS, GRID_COLS, cellIndexOf, cellCenter, cellDepth } from './bathymetry';
+import { haversineDistance } from './geography';
+
+const G = 9.81; // m/s^2
+const BEACH_SLOPE_COT = 100; // cot β for a 1:100 beach
+const COASTAL_DISTANCE_KM = 200; // max distance from a city to the nearest ocean cell
+const MIN_RUNUP_M = 0.1; // cities with smaller run-up are not reported
+export const TSUNAMI_ISOCHRONE_HOURS = [1, 2, 3, 4, 6, 8, 12, 16, 20, 24];
+
+export interface TsunamiSource {
+  lat: number;
+  lng: number;
+  amplitude_m: number; // rim wave amplitude at the cavity edge
+  sourceRadius_m: number; // cavity radius
+}
+
+export interface TsunamiResult {
+  arrivals: TsunamiCityArrival[];
+  isochrones: TsunamiIsochrone[];
+}
+
+// Amplitude at great-circle distance r from the source (1/r decay beyond the cavity rim)
+export function tsunamiAmplitudeAt(source: TsunamiSource, distance_km: number): number {
+  const r = Math.max(distance_km * 1000, source.sourceRadius_m, 1);
+  return source.amplitude_m * (Math.max(source.sourceRadius_m, 1) / r);
+}
+
+// Synolakis run-up law: R/d = 2.831 · sqrt(cot β) · (A/d)^(5/4)
+export function runupHeightMeters(amplitude_m: number, offshoreDepth_m: number): number {
+  if (amplitude_m <= 0 || offshoreDepth_m <= 0) return 0;
+  return 2.831 * Math.sqrt(BEACH_SLOPE_COT) * offshoreDepth_m * Math.pow(amplitude_m / offshoreDepth_m, 1.25);
+}
+
+export function waveSpeedMps(depth_m: number): number {
+  return Math.sqrt(G * Math.max(depth_m, 1));
+}
+
+// Arrival time (s) at the centre of every grid cell; land cells stay Infinity
+export function tsunamiTravelTimes(lat: number, lng: number): Float64Array {
+  const times = new Float64Array(GRID_ROWS * GRID_COLS).fill(Infinity);
+  const start = cellIndexOf(lat, lng);
+  if (cellDepth(start.row, start.col) <= 0) return times;
+
+  const startIdx = start.row * GRID_COLS + start.col;
+  const startCenter = cellCenter(start.row, start.col);
+  times[startIdx] = (haversineDistance(lat, lng, startCenter.lat, startCenter.lng) * 1000) / waveSpeedMps(cellDepth(start.row, start.col));
+
+  // Binary min-heap of [time, index]
+  const heap: Array<[number, number]> = [[times[startIdx], startIdx]];
+  const push = (item: [number, number]) => {
+    heap.push(item);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = (): [number, number] => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < heap.length && heap[l][0] < heap[smallest][0]) smallest = l;
+        if (r < heap.length && heap[r][0] < heap[smallest][0]) smallest = r;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  while (heap.length > 0) {
+    const [t, idx] = pop();
+    if (t > times[idx]) continue;
+    const row = Math.floor(idx / GRID_COLS);
+    const col = idx % GRID_COLS;
+    const here = cellCenter(row, col);
+    const speedHere = waveSpeedMps(cellDepth(row, col));
+
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        if (dr === 0 && dc === 0) continue;
+        const nr = row + dr;
+        if (nr < 0 || nr >= GRID_ROWS) continue;
+        const nc = (col + dc + GRID_COLS) % GRID_COLS;
+        const depth = cellDepth(nr, nc);
+        if (depth <= 0) continue;
+        const there = cellCenter(nr, nc);
+        const dist_m = haversineDistance(here.lat, here.lng, there.lat, there.lng) * 1000;
+        // Harmonic mean of the two cell speeds
+        const speed = (2 * speedHere * waveSpeedMps(depth)) / (speedHere + waveSpeedMps(depth));
+        const nIdx = nr * GRID_COLS + nc;
+        const nt = t + dist_m / speed;
+        if (nt < times[nIdx]) {
+          times[nIdx] = nt;
+          push([nt, nIdx]);
+        }
+      }
+    }
+  }
+
+  return times;
+}
+
+// Nearest reachable ocean cell within COASTAL_DISTANCE_KM of a city
+function nearestOceanCell(lat: number, lng: number, times: Float64Array): { idx: number; distance_km: number } | null {
+  const { row, col } = cellIndexOf(lat, lng);
+  let best: { idx: number; distance_km: number } | null = null;
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      const r = row + dr;
+      if (r < 0 || r >= GRID_ROWS) continue;
+      const c = (col + dc + GRID_COLS) % GRID_COLS;
+      const idx = r * GRID_COLS + c;
+      if (!Number.isFinite(times[idx])) continue;
+      const center = cellCenter(r, c);
+      const d = haversineDistance(lat, lng, center.lat, center.lng);
+      if (d <= COASTAL_DISTANCE_KM && (!best || d < best.distance_km)) {
+        best = { idx, distance_km: d };
+      }
+    }
+  }
+  return best;
+}
+
+// Wave-front isochrones by marching squares over the cell-centre travel times
+export function tsunamiIsochrones(times: Float64Array, hours: number[] = TSUNAMI_ISOCHRONE_HOURS): TsunamiIsochrone[] {
+  const isochrones: TsunamiIsochrone[] = [];
+
+  for (const h of hours) {
+    const level = h * 3600;
+    const segments: Array<[[number, number], [number, number]]> = [];
+
+    for (let r = 0; r < GRID_ROWS - 1; r++) {
+      for (let c = 0; c < GRID_COLS; c++) {
+        const c2 = (c + 1) % GRID_COLS;
+        const corners = [
+          { t: times[r * GRID_COLS + c], p: cellCenter(r, c) },
+          { t: times[r * GRID_COLS + c2], p: cellCenter(r, c2) },
+          { t: times[(r + 1) * GRID_COLS + c2], p: cellCenter(r + 1, c2) },
+          { t: times[(r + 1) * GRID_COLS + c], p: cellCenter(r + 1, c) }
+        ];
+        if (corners.some(k => !Number.isFinite(k.t))) continue;
+        // Keep the dateline-wrapping square contiguous
+        if (c2 === 0) {
+          corners[1].p = { ...corners[1].p, lng: corners[1].p.lng + 360 };
+          corners[2].p = { ...corners[2].p, lng: corners[2].p.lng + 360 };
+        }
+
+        const crossings: Array<[number, number]> = [];
+        for (let e = 0; e < 4; e++) {
+          const a = corners[e];
+          const b = corners[(e + 1) % 4];
+          if ((a.t < level) !== (b.t < level)) {
+            const f = (level - a.t) / (b.t - a.t);
+            crossings.push([a.p.lng + f * (b.p.lng - a.p.lng), a.p.lat + f * (b.p.lat - a.p.lat)]);
+          }
+        }
+        if (crossings.length === 2) {
+          segments.push([crossings[0], crossings[1]]);
+        } else if (crossings.length === 4) {
+          segments.push([crossings[0], crossings[1]], [crossings[2], crossings[3]]);
+        }
+      }
+    }
+
+    if (segments.length > 0) {
+      isochrones.push({ hours: h, lines: chainSegments(segments) });
+    }
+  }
+
+  return isochrones;
+}
+
+// Join segments that share endpoints into longer polylines
+function chainSegments(segments: Array<[[number, number], [number, number]]>): Array<Array<[number, number]>> {
+  const key = (p: [number, number]) => `${(((p[0] + 540) % 360) - 180).toFixed(4)},${p[1].toFixed(4)}`;
+  const byEndpoint = new Map<string, number[]>();
+  segments.forEach((s, i) => {
+    for (const p of s) {
+      const k = key(p);
+      const list = byEndpoint.get(k) || [];
+      list.push(i);
+      byEndpoint.set(k, list);
+    }
+  });
+
+  const used = new Array(segments.length).fill(false);
+  const lines: Array<Array<[number, number]>> = [];
+  const nextFrom = (p: [number, number]): number => {
+    const list = byEndpoint.get(key(p)) || [];
+    return list.find(i => !used[i]) ?? -1;
+  };
+
+  for (let i = 0; i < segments.length; i++) {
+    if (used[i]) continue;
+    used[i] = true;
+    const line: Array<[number, number]> = [segments[i][0], segments[i][1]];
+    // Extend forward, then backward
+    for (const forward of [true, false]) {
+      for (;;) {
+        const end = forward ? line[line.length - 1] : line[0];
+        const j = nextFrom(end);
+        if (j < 0) break;
+        used[j] = true;
+        const [a, b] = segments[j];
+        const next = key(a) === key(end) ? b : a;
+        if (forward) line.push(next); else line.unshift(next);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+export function propagateTsunami(source: TsunamiSource, cities: CityRecord[]): TsunamiResult {
+  if (source.amplitude_m <= 0) return { arrivals: [], isochrones: [] };
+
+  const times = tsunamiTravelTimes(source.lat, source.lng);
+  const arrivals: TsunamiCityArrival[] = [];
+
+  for (const city of cities) {
+    const ocean = nearestOceanCell(city.lat, city.lon, times);
+    if (!ocean) continue;
+    const distance = haversineDistance(source.lat, source.lng, city.lat, city.lon);
+    const amplitude = tsunamiAmplitudeAt(source, distance);
+    const offshoreRow = Math.floor(ocean.idx / GRID_COLS);
+    const offshoreDepth = cellDepth(offshoreRow, ocean.idx % GRID_COLS);
+    const runup = runupHeightMeters(Math.min(amplitude, offshoreDepth), offshoreDepth);
+    if (runup < MIN_RUNUP_M) continue;
+
+    arrivals.push({
+      name: city.name,
+      country: city.country || '',
+      population: city.population || 0,
+      lat: city.lat,
+      lon: city.lon,
+      distance_km: distance,
+      arrival_s: times[ocean.idx],
+      amplitude_m: amplitude,
+      runup_m: runup
+    });
+  }
+
+  arrivals.sort((a, b) => a.arrival_s - b.arrival_s);
+
+  return { arrivals, isochrones: tsunamiIsochrones(times) };
+}
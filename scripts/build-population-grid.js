@@ -0,0 +1,130 @@
+// Builds public/data/population/population_count_1deg.asc, the coarse population grid
+// behind the 'population-grid' model.
+//
+// Each country's population (World Bank 2018, via country-json) is placed on a 1° grid.
+// GeoNames places of 1000 people or more (all-the-cities) go into the cell they sit in;
+// what is left of the country total is spread over the country's land cells (Natural
+// Earth 1:50m, via world-atlas) in proportion to the number of places in each cell plus
+// a small area-weighted floor, so rural people are counted where settlements are dense.
+// Country totals are kept exactly.
+//
+//   npm install --no-save all-the-cities world-atlas world-countries country-json topojson-client @turf/turf
+//   node scripts/build-population-grid.js
+
+const fs = require('fs')
+const path = require('path')
+const turf = require('@turf/turf')
+const { feature } = require('topojson-client')
+const places = require('all-the-cities')
+const countries = require('world-countries')
+const populations = require('country-json/src/country-by-population.json')
+const abbreviations = require('country-json/src/country-by-abbreviation.json')
+const topology = require('world-atlas/countries-50m.json')
+
+const CELL_DEG = 1
+const NCOLS = 360 / CELL_DEG
+const NROWS = 180 / CELL_DEG
+const RURAL_FLOOR = 0.5 // weight of a land cell with no places, at the equator
+// Sections, historical, abandoned and destroyed places would count people twice or not at all
+const SKIPPED_FEATURES = new Set(['PPLX', 'PPLH', 'PPLQ', 'PPLW'])
+const OUTPUT = path.join(__dirname, '..', 'public', 'data', 'population', 'population_count_1deg.asc')
+
+const cellIndex = (lon, lat) => {
+	const col = Math.min(Math.max(Math.floor((lon + 180) / CELL_DEG), 0), NCOLS - 1)
+	const row = Math.min(Math.max(Math.floor((90 - lat) / CELL_DEG), 0), NROWS - 1)
+	return row * NCOLS + col
+}
+const cellCentre = index => [
+	-180 + ((index % NCOLS) + 0.5) * CELL_DEG,
+	90 - (Math.floor(index / NCOLS) + 0.5) * CELL_DEG
+]
+
+// country-json codes that differ from ISO 3166 alpha-2
+const ALPHA2_FIXES = { UK: 'GB', TP: 'TL' }
+const MISSING_ALPHA2 = { 'Cabo Verde': 'CV' }
+// Parts of the United Kingdom, already in its total
+const SKIPPED_COUNTRIES = new Set(['England', 'Scotland', 'Wales', 'Northern Ireland'])
+
+// Country totals keyed by ISO 3166 numeric code
+const numericByAlpha2 = new Map(countries.filter(c => c.ccn3).map(c => [c.cca2, Number(c.ccn3)]))
+const alpha2ByName = new Map(abbreviations.map(c => [c.country, ALPHA2_FIXES[c.abbreviation] ?? c.abbreviation]))
+const totalByNumeric = new Map()
+for (const { country, population } of populations) {
+	if (SKIPPED_COUNTRIES.has(country) || !population) continue
+	const iso = numericByAlpha2.get(MISSING_ALPHA2[country] ?? alpha2ByName.get(country))
+	if (iso !== undefined) totalByNumeric.set(iso, population)
+}
+
+// Places by country and cell
+const placesByCountry = new Map()
+for (const place of places) {
+	if (SKIPPED_FEATURES.has(place.featureCode) || !(place.population > 0)) continue
+	const iso = numericByAlpha2.get(place.country)
+	if (iso === undefined) continue
+	const [lon, lat] = place.loc.coordinates
+	const cells = placesByCountry.get(iso) ?? new Map()
+	const cell = cells.get(cellIndex(lon, lat)) ?? { people: 0, count: 0 }
+	cell.people += place.population
+	cell.count += 1
+	cells.set(cellIndex(lon, lat), cell)
+	placesByCountry.set(iso, cells)
+}
+
+// Land cells of each country: cells whose centre lies inside its outline
+const landCells = new Map()
+const shapes = feature(topology, topology.objects.countries).features
+for (const shape of shapes) {
+	const iso = Number(shape.id)
+	if (!Number.isFinite(iso)) continue
+	const [west, south, east, north] = turf.bbox(shape)
+	const cells = landCells.get(iso) ?? new Set()
+	for (let lat = Math.floor(south) + 0.5 * CELL_DEG; lat < north; lat += CELL_DEG) {
+		for (let lon = Math.floor(west) + 0.5 * CELL_DEG; lon < east; lon += CELL_DEG) {
+			if (turf.booleanPointInPolygon([lon, lat], shape)) cells.add(cellIndex(lon, lat))
+		}
+	}
+	// Countries smaller than a cell keep the cell under their centre
+	if (cells.size === 0) {
+		const [lon, lat] = turf.centroid(shape).geometry.coordinates
+		cells.add(cellIndex(lon, lat))
+	}
+	landCells.set(iso, cells)
+}
+
+const grid = new Float64Array(NCOLS * NROWS)
+let total = 0
+for (const [iso, countryTotal] of totalByNumeric) {
+	const cells = placesByCountry.get(iso) ?? new Map()
+	const land = new Set([...(landCells.get(iso) ?? []), ...cells.keys()])
+	if (land.size === 0) continue
+	const placed = [...cells.values()].reduce((sum, c) => sum + c.people, 0)
+	// Metro-area place populations can exceed the national figure; scale them down
+	const placeScale = placed > countryTotal ? countryTotal / placed : 1
+	const rural = countryTotal - placed * placeScale
+
+	const weights = [...land].map(index => {
+		const lat = cellCentre(index)[1]
+		return [index, (cells.get(index)?.count ?? 0) + RURAL_FLOOR * Math.cos((lat * Math.PI) / 180)]
+	})
+	const weightSum = weights.reduce((sum, [, w]) => sum + w, 0)
+	for (const [index, weight] of weights) {
+		grid[index] += (cells.get(index)?.people ?? 0) * placeScale + (rural * weight) / weightSum
+	}
+	total += countryTotal
+}
+
+const rows = []
+for (let row = 0; row < NROWS; row++) {
+	rows.push(Array.from(grid.subarray(row * NCOLS, (row + 1) * NCOLS), v => Math.round(v)).join(' '))
+}
+const header = [
+	`ncols ${NCOLS}`,
+	`nrows ${NROWS}`,
+	'xllcorner -180',
+	'yllcorner -90',
+	`cellsize ${CELL_DEG}`,
+	'NODATA_value -9999'
+]
+fs.mkdirSync(path.dirname(OUTPUT), { recursive: true })
+fs.writeFileSync(OUTPUT, [...header, ...rows].join('\n') + '\n')
+console.log(`Wrote ${OUTPUT}: ${Math.round(total).toLocaleString('en-US')} people in ${totalByNumeric.size} countries`)
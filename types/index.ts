@@ -6,28 +6,339 @@ export interface ImpactParameters {
 	angle_deg: number
 	lat?: number
 	lng?: number
+	azimuth_deg?: number // direction of travel, degrees clockwise from north
+	target?: TargetMaterial // defaults to crystalline rock
+	composition?: ImpactorComposition // strength and porosity preset; solid body when omitted
+	impact_probability?: number // 0–1, for a predicted impact (Torino and Palermo scales)
+	impact_date?: string // ISO date of the predicted impact
 }
 
+// Heliocentric ecliptic elements (J2000) of an impactor's orbit
+export interface OrbitalElements {
+	a_au: number // semi-major axis
+	e: number // eccentricity
+	i_deg: number // inclination
+	node_deg: number // longitude of the ascending node, Ω
+	peri_deg: number // argument of perihelion, ω
+	epoch: string // ISO date the elements refer to
+	mean_anomaly_deg?: number // at the epoch; needed to propagate the orbit in time
+}
+
+// Bulk makeup of the impactor (see data/impactorCompositions)
+export type ImpactorComposition = 'iron' | 'stony_iron' | 'chondrite' | 'rubble_pile' | 'cometary_ice';
+
+// Rock or ice the crater forms in (see data/targetMaterials)
+export type TargetMaterial = 'crystalline' | 'sedimentary' | 'carbonate' | 'permafrost' | 'dry_soil' | 'ice';
+
+// Surface the impactor strikes, from the bundled land / bathymetry mask
+export type TargetSurface = 'land' | 'shallow_sea' | 'deep_ocean' | 'ice_sheet';
+
+// Stages of the engine whose model can be swapped by id (see lib/models)
+export type ModelKind = 'crater' | 'blast' | 'thermal' | 'seismic' | 'population';
+
+export interface ModelVersion {
+  id: string;
+  version: string;
+}
+
+// Model id per stage; stages left out use the registry default
+export type ModelSelection = Partial<Record<ModelKind, string>>;
+
 export interface SimulationResult {
   impact_energy_j: number;
   impact_energy_mt: number;
   crater_m: number;
   crater_km: number;
+  // Transient/final crater breakdown (absent when no crater forms)
+  crater_details?: CraterDetails;
   blast_radius_m: number;
   blast_radius_km: number;
   thermal_radius_m: number;
   thermal_radius_km: number;
   seismic_magnitude: number;
+  // Ejecta blanket beyond the rim, thickest deposit first
+  ejecta_zones?: EjectaZone[];
+  // Modified Mercalli intensity rings, strongest first
+  mmi_rings?: MmiRing[];
+  // Overpressure rings, strongest first; blast_radius_* is the outermost ring
+  blast_rings?: BlastRing[];
+  // Thermal fluence zones, strongest first; thermal_radius_* is the outermost zone
+  thermal_zones?: ThermalZone[];
+  fireball_radius_m?: number;
+  thermal_energy_j?: number;
+  thermal_duration_s?: number; // length of the thermal pulse
+  // When each effect reaches its zone edges, earliest first
+  timeline?: TimelineEvent[];
+  // Atmospheric entry (airburst when the debris cloud bursts above ground)
+  is_airburst?: boolean;
+  breakup_altitude_m?: number | null;
+  // P5/P50/P95 ranges from a probabilistic run
+  uncertainty?: UncertaintySummary;
+  // Dust and soot loading and the resulting impact winter
+  climate?: ClimateEffects;
+  // How often such an impact happens, and hazard scales for a predicted one
+  hazard?: HazardAssessment;
+  // Meteorites reaching the ground after an airburst, in along-track coordinates
+  strewn_field?: StrewnField | null;
+  burst_altitude_m?: number | null;
+  burst_energy_mt?: number;
+  surface_velocity_kms?: number;
+  surface_energy_j?: number;
+  surface_energy_mt?: number;
+  // Target surface and water-impact physics
+  target_surface?: TargetSurface;
+  target_material?: TargetMaterial;
+  composition?: ImpactorComposition;
+  water_depth_m?: number;
+  water_cavity_diameter_m?: number;
+  water_cavity_depth_m?: number;
+  seafloor_crater_m?: number | null;
+  tsunami_amplitude_m?: number;
+  tsunami_source_radius_m?: number;
+  tsunami_arrivals?: TsunamiCityArrival[];
+  tsunami_isochrones?: TsunamiIsochrone[];
   latitude: number;
   longitude: number;
+  angle_deg?: number; // entry angle from the horizontal
+  azimuth_deg?: number; // direction of travel used for the footprints and entry track
   location?: string;
   population_affected?: number;
-  affectedCities?: Array<{ name: string; country: string; population: number; distance: number; zones?: string[] }>;
-  // Per-zone totals (from point dataset)
+  affectedCities?: Array<{ name: string; country: string; population: number; distance: number; zones?: string[]; mmi?: number; arrivals?: EffectArrivals }>;
+  // Per-zone totals (from the population grid, or the city points without one)
   crater_population_total?: number;
   blast_population_total?: number;
   thermal_population_total?: number;
+  // Dataset the population counts came from
+  population_source?: PopulationSource;
   visualEffects?: ImpactVisualEffects;
+  // Caps and regime warnings raised while computing the result
+  flags?: ResultFlag[];
+  // Models that produced the result
+  model_versions?: Record<ModelKind, ModelVersion>;
+}
+
+export type TimedEffect = 'thermal' | 'seismic' | 'air_blast' | 'ejecta';
+
+export interface TimelineEvent {
+  effect: TimedEffect;
+  label: string;
+  distance_km: number; // from ground zero
+  arrival_s: number; // seconds after impact
+  duration_s?: number;
+}
+
+// Closest pass of an orbit by Earth; inside the capture radius it is an impact
+export interface CloseApproach {
+  date: string; // ISO time of perigee
+  miss_distance_km: number; // from Earth's centre along the undeflected straight line (target-plane distance)
+  perigee_km: number; // from Earth's centre, with gravitational focusing
+  capture_radius_km: number; // largest miss distance that still strikes Earth
+  v_infinity_kms: number;
+  is_impact: boolean;
+  impact?: OrbitImpact;
+  path: Array<{ lat: number; lng: number; altitude_km: number }>; // ground track and height around perigee
+}
+
+export interface OrbitImpact {
+  lat: number;
+  lng: number;
+  velocity_kms: number;
+  angle_deg: number; // from the horizontal
+  azimuth_deg: number; // direction of travel, clockwise from north
+  date: string;
+}
+
+// Band of possible impact points for an uncertain arrival, in order along the band
+export interface RiskCorridor {
+  sigma_km: number; // 1σ along the line of variations in the target plane
+  sigma_s: number; // the same, as arrival time
+  capture_radius_km: number;
+  impact_probability: number; // of the sampled spread striking Earth
+  points: RiskCorridorPoint[];
+}
+
+export interface RiskCorridorPoint extends OrbitImpact {
+  offset_km: number; // from the nominal miss vector along the line of variations
+  probability: number; // of this slice of the spread
+}
+
+// Seconds after impact at which each effect reaches a location (null where it does not)
+export interface EffectArrivals {
+  thermal_s: number | null;
+  thermal_duration_s: number | null;
+  seismic_s: number | null;
+  air_blast_s: number | null;
+  ejecta_s: number | null;
+}
+
+export interface HazardAssessment {
+  recurrence_interval_years: number; // mean interval between impacts at least this energetic
+  recurrence_interval_diameter_years?: number; // same, for bodies at least this large
+  annual_probability: number;
+  impact_probability?: number;
+  impact_date?: string;
+  years_to_impact?: number;
+  torino_scale?: number; // 0–10
+  palermo_scale?: number; // log10 of the risk relative to the background
+}
+
+export interface CraterDetails {
+  morphology: 'simple' | 'complex';
+  transient_diameter_m: number;
+  transient_depth_m: number;
+  final_diameter_m: number; // rim-to-rim
+  final_depth_m: number; // rim to floor
+  rim_height_m: number;
+  breccia_thickness_m: number; // simple craters only
+  melt_volume_m3: number;
+}
+
+export type ResultFlagCode = 'crater_capped' | 'global_scale_crater' | 'extreme_energy';
+
+export interface ResultFlag {
+  code: ResultFlagCode;
+  message: string;
+}
+
+// Population dataset behind a result's counts
+export interface PopulationSource {
+  kind: 'grid' | 'city_points';
+  name: string;
+  resolution_deg?: number; // cell size, for a grid
+}
+
+// Ground footprint of a zone stretched along the entry track; the ellipse centre
+// sits downrange_offset_m from ground zero in the direction of travel
+export interface ZoneFootprint {
+  semi_major_m: number; // along track
+  semi_minor_m: number; // across track
+  downrange_offset_m: number;
+}
+
+export interface BlastRing {
+  overpressure_psi: number;
+  overpressure_pa: number;
+  radius_m: number; // equivalent circular radius
+  radius_km: number;
+  peak_wind_mps: number;
+  label: string;
+  footprint?: ZoneFootprint;
+}
+
+export interface ThermalZone {
+  key: 'clothing_ignition' | 'third_degree_burns' | 'second_degree_burns';
+  fluence_jm2: number; // threshold fluence scaled to the event energy
+  radius_m: number; // equivalent circular radius
+  radius_km: number;
+  label: string;
+  footprint?: ZoneFootprint;
+}
+
+// Input distribution for one uncertain parameter
+export type ParameterDistribution =
+  | { kind: 'normal'; mean: number; sd: number }
+  | { kind: 'lognormal'; median: number; sigma: number } // sigma of ln(x)
+  | { kind: 'uniform'; min: number; max: number };
+
+export type DistributionKind = ParameterDistribution['kind'];
+
+export type UncertainParameter = 'diameter_m' | 'density_kgm3' | 'velocity_kms' | 'angle_deg';
+
+export interface Percentiles {
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+// Monte Carlo spread of the headline outputs; zone radii are keyed like
+// 'blast_5psi', 'thermal_second_degree_burns', 'mmi_7' and 'ejecta_1m'
+export interface UncertaintySummary {
+  samples: number;
+  seed: number;
+  impact_energy_mt: Percentiles;
+  crater_km: Percentiles;
+  blast_radius_km: Percentiles;
+  thermal_radius_km: Percentiles;
+  zone_radii_km: Record<string, Percentiles>;
+  population_affected?: Percentiles;
+}
+
+// One month of the impact-winter timeline; month 0 is the month of the impact
+export interface ClimateMonth {
+  month: number;
+  optical_depth: number; // dust plus soot
+  sunlight_fraction: number; // of normal surface sunlight
+  temperature_anomaly_k: number; // global mean surface temperature change
+  growing_season_loss: number; // 0–1 share of that month's growth lost
+}
+
+export interface ClimateEffects {
+  dust_mass_kg: number;
+  soot_mass_kg: number;
+  burned_area_km2: number;
+  peak_optical_depth: number;
+  min_sunlight_fraction: number;
+  peak_cooling_k: number;
+  growing_season_loss_months: number; // summed over the timeline
+  months: ClimateMonth[];
+}
+
+// Landing ellipse of one mass bin; distances are measured along the entry
+// direction from the ground point below the burst
+export interface StrewnFieldBin {
+  label: string;
+  min_mass_kg: number;
+  max_mass_kg: number | null;
+  count: number;
+  total_mass_kg: number;
+  downrange_km: number; // ellipse centre
+  semi_major_km: number; // along track
+  semi_minor_km: number; // across track
+}
+
+export interface StrewnField {
+  bins: StrewnFieldBin[]; // heaviest first
+  total_mass_kg: number;
+  fragment_count: number;
+  downrange_km: number;
+  semi_major_km: number;
+  semi_minor_km: number;
+}
+
+export interface EjectaZone {
+  key: 'ejecta_1m' | 'ejecta_10cm' | 'ejecta_1cm';
+  thickness_m: number;
+  radius_m: number; // from the crater centre
+  radius_km: number;
+  fragment_size_m: number; // mean fragment diameter at the zone edge
+  label: string;
+}
+
+export interface MmiRing {
+  mmi: number;
+  roman: string;
+  radius_m: number;
+  radius_km: number;
+  arrival_s: number; // seismic wave arrival at the ring edge
+  label: string;
+}
+
+export interface TsunamiCityArrival {
+  name: string;
+  country: string;
+  population: number;
+  lat: number;
+  lon: number;
+  distance_km: number;
+  arrival_s: number;
+  amplitude_m: number; // offshore wave amplitude
+  runup_m: number;
+}
+
+// Wave front at a given time after impact, as [lng, lat] polylines
+export interface TsunamiIsochrone {
+  hours: number;
+  lines: Array<Array<[number, number]>>;
 }
 
 export interface Mission {
@@ -56,15 +367,60 @@ export interface ImpactVisualEffects {
 }
 
 export interface DamageZone {
-  type: 'crater' | 'blast' | 'thermal';
+  type: 'crater' | 'blast' | 'thermal' | 'ejecta';
   radius_m: number;
   radius_km: number;
   color: string;
   opacity: number;
   description: string;
+  overpressure_psi?: number; // blast rings only
+  peak_wind_mps?: number; // blast rings only
+  fluence_jm2?: number; // thermal zones only
+  thickness_m?: number; // ejecta zones only
   visualEffects?: ImpactVisualEffects;
 }
 
+// DART-style kinetic impactor striking the asteroid
+export interface KineticImpactor {
+  spacecraft_mass_kg: number;
+  relative_velocity_kms: number; // spacecraft relative to the asteroid
+  beta: number; // momentum enhancement from ejecta; 1 for a perfectly inelastic hit
+  lead_time_days: number; // from deflection to the encounter
+}
+
+// Nuclear device detonated above the surface; radiation blows off a surface layer
+export interface NuclearStandoff {
+  yield_kt: number;
+  standoff_m: number; // burst height above the surface
+  coupling_efficiency: number; // fraction of the intercepted energy driving blow-off, 0–1
+  lead_time_days: number;
+}
+
+// Spacecraft hovering beside the asteroid, towing it by gravity
+export interface GravityTractor {
+  spacecraft_mass_kg: number;
+  hover_distance_m: number; // above the surface
+  duration_days: number; // towing time, starting at the lead time
+  lead_time_days: number;
+}
+
+export type DeflectionMethod = 'kinetic_impactor' | 'nuclear_standoff' | 'gravity_tractor';
+
+export type FragmentationRisk = 'low' | 'moderate' | 'high';
+
+export interface DeflectionOutcome {
+  method: DeflectionMethod;
+  delta_v_mps: number; // along the asteroid's orbit
+  shift_km: number; // along-track displacement at the encounter
+  undeflected_miss_km: number; // target-plane distance from Earth's centre
+  deflected_miss_km: number;
+  capture_radius_km: number;
+  misses_earth: boolean;
+  required_delta_v_mps: number; // smallest Δv that misses at this lead time
+  fragmentation_risk?: FragmentationRisk; // nuclear standoff only
+  disruption_energy_ratio?: number; // energy deposited per kg over the catastrophic disruption threshold
+}
+
 export interface UIState {
   selectedLocation: { lat: number; lng: number } | null;
   isSimulating: boolean;
@@ -80,6 +436,8 @@ export interface ImpactorPreset {
   category: 'asteroid' | 'comet' | 'meteor' | 'custom';
   year?: string; // e.g., '1908', '2013', '66 Ma', '2029 (flyby)'
   location?: { lat: number | null; lon: number | null };
+  orbit?: OrbitalElements; // flyby presets: propagated for the close approach
+  approachWindow?: { start: string; end: string }; // ISO dates searched for the close approach
 }
 
 export const IMPACTOR_PRESETS: ImpactorPreset[] = [
@@ -87,7 +445,7 @@ export const IMPACTOR_PRESETS: ImpactorPreset[] = [
     name: 'Chicxulub',
     description: 'Dinosaur extinction event • Yucatán Peninsula, Mexico',
     year: '66 Ma',
-    parameters: { diameter_m: 10000, density_kgm3: 3000, velocity_kms: 20, angle_deg: 45 },
+    parameters: { diameter_m: 10000, density_kgm3: 3000, velocity_kms: 20, angle_deg: 45, target: 'carbonate', composition: 'chondrite' },
     location: { lat: 21.3, lon: -89.5 },
     category: 'asteroid'
   },
@@ -95,7 +453,7 @@ export const IMPACTOR_PRESETS: ImpactorPreset[] = [
     name: 'Tunguska',
     description: 'Forest flattening event • Siberia, Russia',
     year: '1908',
-    parameters: { diameter_m: 60, density_kgm3: 3000, velocity_kms: 15, angle_deg: 30 },
+    parameters: { diameter_m: 60, density_kgm3: 3000, velocity_kms: 15, angle_deg: 30, target: 'permafrost', composition: 'chondrite' },
     location: { lat: 60.9, lon: 101.9 },
     category: 'asteroid'
   },
@@ -103,7 +461,7 @@ export const IMPACTOR_PRESETS: ImpactorPreset[] = [
     name: 'Chelyabinsk',
     description: 'Airburst meteor • Chelyabinsk, Russia',
     year: '2013',
-    parameters: { diameter_m: 20, density_kgm3: 3000, velocity_kms: 19, angle_deg: 45 },
+    parameters: { diameter_m: 20, density_kgm3: 3000, velocity_kms: 19, angle_deg: 45, target: 'sedimentary', composition: 'chondrite' },
     location: { lat: 55.15, lon: 61.41 },
     category: 'meteor'
   },
@@ -111,23 +469,27 @@ export const IMPACTOR_PRESETS: ImpactorPreset[] = [
     name: 'Apophis',
     description: 'Near-Earth flyby • Hypothetical impact',
     year: '2029 (flyby)',
-    parameters: { diameter_m: 370, density_kgm3: 3000, velocity_kms: 7, angle_deg: 45 },
+    parameters: { diameter_m: 370, density_kgm3: 3000, velocity_kms: 7, angle_deg: 45, composition: 'chondrite' },
     location: { lat: null, lon: null },
+    // JPL elements; the mean anomaly is set so the two-body propagation reproduces the
+    // April 2029 flyby at about 38,000 km from Earth's centre
+    orbit: { a_au: 0.9224, e: 0.1911, i_deg: 3.339, node_deg: 203.96, peri_deg: 126.66, epoch: '2029-01-01', mean_anomaly_deg: 137.858 },
+    approachWindow: { start: '2029-03-01', end: '2029-05-31' },
     category: 'asteroid'
   },
   {
     name: 'Vredefort',
     description: 'Ancient impact crater • South Africa',
     year: '~2 Ga',
-    parameters: { diameter_m: 10000, density_kgm3: 3000, velocity_kms: 20, angle_deg: 45 },
+    parameters: { diameter_m: 10000, density_kgm3: 3000, velocity_kms: 20, angle_deg: 45, target: 'crystalline', composition: 'chondrite' },
     location: { lat: -27.0, lon: 27.4 },
     category: 'asteroid'
   },
   {
     name: 'Meteor Crater',
-    description: 'Well-preserved crater • Arizona, USA',
+    description: 'Well-preserved crater • Arizona, USA • Iron impactor (density kept at the documented 3000 kg/m³, below solid iron)',
     year: '~50,000 years BP',
-    parameters: { diameter_m: 1200, density_kgm3: 3000, velocity_kms: 17, angle_deg: 45 },
+    parameters: { diameter_m: 1200, density_kgm3: 3000, velocity_kms: 17, angle_deg: 45, target: 'sedimentary', composition: 'iron' },
     location: { lat: 35.027, lon: -111.022 },
     category: 'asteroid'
   }